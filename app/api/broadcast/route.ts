@@ -1,14 +1,22 @@
 import { NextResponse } from 'next/server';
-import Pusher from 'pusher';
+import { handleWebhookBody, WebhookItemResult } from '@/lib/webhooks/handler';
+import { getWebhookVerifier, WebhookAuthError } from '@/lib/webhooks/signature';
 
-// Initialize Pusher server instance
-const pusher = new Pusher({
-  appId: process.env.PUSHER_APP_ID!,
-  key: process.env.PUSHER_KEY!,
-  secret: process.env.PUSHER_SECRET!,
-  cluster: process.env.PUSHER_CLUSTER!,
-  useTLS: true,
-});
+/** Per-payload response entry */
+function summarize(result: WebhookItemResult) {
+  if (!result.ok) {
+    const { reason, schema, errors, deadLetterId } = result;
+    return { ok: false as const, error: reason, schema, errors, deadLetterId };
+  }
+
+  const { event } = result;
+  const id = event.type === 'token.created'
+    ? event.token.id
+    : event.type === 'token.traded'
+    ? event.trade.id
+    : event.migration.id;
+  return { ok: true as const, schema: result.schema, event: event.type, id };
+}
 
 export async function GET() {
   try {
@@ -27,41 +35,45 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  // Verify against the exact bytes that were signed, before parsing
+  const rawBody = await request.text();
   try {
-    const body = await request.json();
-    console.log('📨 Received webhook from Mobula:', JSON.stringify(body, null, 2));
+    getWebhookVerifier().verify(request.headers, rawBody);
+  } catch (error) {
+    if (error instanceof WebhookAuthError) {
+      console.warn(`🔒 Rejected webhook (${error.code}):`, error.message);
+      return NextResponse.json(
+        { success: false, error: error.code, details: error.message },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
 
-    // Extract token data from Mobula webhook payload
-    // Mobula webhook structure may vary - adapt based on actual payload
-    const tokenData = body.data || body;
-    
-    // Transform to your Token interface format
-    const token = {
-      id: tokenData.id || tokenData.address || String(Date.now()),
-      symbol: tokenData.symbol?.toUpperCase() || 'UNKNOWN',
-      name: tokenData.name || 'New Token',
-      price: tokenData.price || 0,
-      priceChange24h: tokenData.priceChange24h || 0,
-      volume24h: tokenData.volume24h || tokenData.volume || 0,
-      marketCap: tokenData.marketCap || tokenData.market_cap || 0,
-      liquidity: tokenData.liquidity || (tokenData.volume24h || 0) * 0.3,
-      holders: tokenData.holders || Math.floor(Math.random() * 10000),
-      chain: tokenData.blockchain || tokenData.chain || 'solana',
-      logo: tokenData.logo || tokenData.image || '',
-      category: 'new' as const, // New tokens go to "New Pairs"
-    };
+  try {
+    const outcome = await handleWebhookBody(rawBody);
+    const results = outcome.results.map(summarize);
+    const accepted = results.filter((r) => r.ok).length;
 
-    console.log('🚀 Broadcasting new token to Pusher:', token.symbol);
+    results.forEach((result) => {
+      if (result.ok) {
+        console.log(`🚀 ${result.event} from ${result.schema}:`, result.id);
+      } else {
+        console.warn(
+          `⚠️ Rejected webhook payload (${result.error}${result.schema ? `, ${result.schema}` : ''})`,
+          result.deadLetterId ? `→ dead letter ${result.deadLetterId}` : ''
+        );
+      }
+    });
 
-    // Trigger Pusher event to all connected clients
-    await pusher.trigger('pulse', 'token.created', token);
+    const body = outcome.batch
+      ? { accepted, rejected: results.length - accepted, results }
+      : results[0];
 
-    return NextResponse.json({
-      success: true,
-      message: 'Token broadcasted successfully',
-      token: token.symbol,
-      timestamp: new Date().toISOString()
-    });
+    return NextResponse.json(
+      { success: outcome.status !== 400 && outcome.status !== 422, ...body, timestamp: new Date().toISOString() },
+      { status: outcome.status }
+    );
   } catch (error) {
     console.error('❌ Broadcast POST error:', error);
     return NextResponse.json(
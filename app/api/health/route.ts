@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { pollerStatus, readPollerHealth } from '@/lib/poller/health';
+import { getUpstreamBudget } from '@/lib/providers/budget';
+
+// Always read the latest snapshot
+export const dynamic = 'force-dynamic';
+
+/**
+ * Health of the background poller and its upstream sources, plus this
+ * server's remaining upstream request budget
+ *
+ * 200 when everything is ok, 503 when degraded or down. A missing
+ * snapshot means the poller has not run against this data directory.
+ */
+export async function GET() {
+  const budget = getUpstreamBudget();
+  const upstreamBudget = { perMinute: budget.perMinute, available: budget.available() };
+
+  try {
+    const poller = await readPollerHealth();
+    if (!poller) {
+      return NextResponse.json(
+        { status: 'down', poller: null, upstreamBudget, details: 'No poller health snapshot; is `npm run poller` running?' },
+        { status: 503 }
+      );
+    }
+
+    const status = pollerStatus(poller);
+    return NextResponse.json(
+      { status, poller: { ...poller, ageMs: Date.now() - poller.updatedAt }, upstreamBudget },
+      { status: status === 'ok' ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error('Error reading poller health:', error);
+    return NextResponse.json(
+      { status: 'down', error: 'Failed to read poller health', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getLocalBroker } from '@/lib/realtime/local-broker';
+import { parsePublishBody } from '@/lib/realtime/schemas';
+import { getRealtimeTransport, publishEvents } from '@/lib/realtime/server';
+
+type Authorization = { ok: true } | { ok: false; details: string };
+
+/**
+ * Publishing fans events out to every client, so the shared secret is
+ * required in every environment, including `next dev` behind a tunnel
+ */
+function authorize(request: Request): Authorization {
+  const secret = process.env.REALTIME_PUBLISH_SECRET;
+  if (!secret) {
+    return { ok: false, details: 'REALTIME_PUBLISH_SECRET is not set on the server' };
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  if (expected.length === received.length && timingSafeEqual(expected, received)) return { ok: true };
+  return { ok: false, details: 'Missing or invalid REALTIME_PUBLISH_SECRET' };
+}
+
+/**
+ * Publish endpoint for standalone scripts (poller, price worker)
+ *
+ * Body: { channel?, events: [{ name, data }] }. Payloads are validated and
+ * normalized by lib/realtime/schemas, then published like the server's own
+ * events: through its lifecycle tracker, on its configured transport.
+ */
+export async function POST(request: Request) {
+  const authorization = authorize(request);
+  if (!authorization.ok) {
+    return NextResponse.json(
+      { success: false, error: 'unauthorized', details: authorization.details },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'invalid_json', details: 'Body is not valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parsePublishBody(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { success: false, error: 'invalid_events', errors: parsed.errors },
+      { status: 422 }
+    );
+  }
+
+  try {
+    await publishEvents(parsed.events);
+  } catch (error) {
+    console.error('❌ Failed to publish relayed events:', error);
+    return NextResponse.json(
+      { success: false, error: 'publish_failed', details: String(error) },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    channel: parsed.channel,
+    published: parsed.events.length,
+    // Pusher does not report its subscribers
+    listeners: getRealtimeTransport().name === 'local' ? getLocalBroker().listenerCount(parsed.channel) : null,
+  });
+}
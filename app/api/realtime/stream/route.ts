@@ -0,0 +1,72 @@
+import { getLocalBroker } from '@/lib/realtime/local-broker';
+import { PULSE_CHANNEL } from '@/lib/realtime/types';
+
+// Long-lived per-client stream; never cache or prerender
+export const dynamic = 'force-dynamic';
+
+/** Comment line sent periodically so proxies don't close an idle stream */
+const HEARTBEAT_MS = 25000;
+
+/**
+ * Server-Sent Events stream for the local realtime transport
+ *
+ * GET /api/realtime/stream?channel=pulse
+ * Each broker event is written as `event: <name>` / `data: <json>`.
+ */
+export async function GET(request: Request) {
+  const channel = new URL(request.url).searchParams.get('channel') ?? PULSE_CHANNEL;
+  const broker = getLocalBroker();
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed; the abort handler will clean up
+        }
+      };
+
+      const unsubscribe = broker.subscribe(channel, (event) => {
+        send(`event: ${event.name}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        // Runs once, whether the client aborted or the stream was cancelled
+        cleanup = () => {};
+        clearInterval(heartbeat);
+        unsubscribe();
+        console.log(`📴 Realtime client left "${channel}" (${broker.listenerCount(channel)} connected)`);
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      // Tell EventSource how long to wait before reconnecting
+      send('retry: 3000\n\n');
+      console.log(`📡 Realtime client joined "${channel}" (${broker.listenerCount(channel)} connected)`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { CANDLE_INTERVALS, isCandleInterval } from '@/lib/chart-data';
+import { CHAIN_IDS, isValidAddress, resolveChain, tokenKey } from '@/lib/chains';
+import { Candle } from '@/lib/chart-data';
+import { getCandleProvider } from '@/lib/providers';
+import { getResponseCache } from '@/lib/cache/response-cache';
+import { cacheHeaders } from '@/lib/cache/freshness';
+
+/** Bars returned when `from` is omitted */
+const DEFAULT_BARS = 96;
+/** Largest range a single request may cover */
+const MAX_BARS = 1000;
+
+interface CandleRange {
+  /** Range start, unix seconds */
+  from: number;
+  /** Range end, unix seconds */
+  to: number;
+  candles: Candle[];
+}
+
+/** Series per token and interval: fresh for a minute, then served stale up to 10 minutes */
+const candleCache = () =>
+  getResponseCache<CandleRange>({ name: 'candles', freshMs: 60_000, staleMs: 10 * 60_000, maxEntries: 500 });
+
+function parseTimestamp(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : null;
+}
+
+/**
+ * GET /api/tokens/:chain/:address/candles?interval=1h&from=<unix>&to=<unix>
+ *
+ * Returns OHLCV bars for one token from the configured provider chain with
+ * recorded bars filling the tail (getCandleProvider), cached with X-Cache /
+ * X-Data-Age headers like the token listing.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chain: string; address: string }> }
+) {
+  const { chain: chainParam, address } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const chain = resolveChain(chainParam);
+  if (!chain) {
+    return NextResponse.json(
+      { error: `Unknown chain "${chainParam}"`, allowed: CHAIN_IDS },
+      { status: 404 }
+    );
+  }
+  if (!isValidAddress(chain, address)) {
+    return NextResponse.json({ error: `Invalid ${chain} address "${address}"` }, { status: 400 });
+  }
+  const id = tokenKey(chain, address);
+
+  const interval = searchParams.get('interval') ?? '1h';
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json(
+      { error: `Invalid interval "${interval}"`, allowed: Object.keys(CANDLE_INTERVALS) },
+      { status: 400 }
+    );
+  }
+
+  const seconds = CANDLE_INTERVALS[interval];
+  const to = parseTimestamp(searchParams.get('to'));
+  const from = parseTimestamp(searchParams.get('from'));
+  if (to === null || from === null) {
+    return NextResponse.json(
+      { error: '`from` and `to` must be unix timestamps in seconds' },
+      { status: 400 }
+    );
+  }
+
+  const end = to ?? Math.floor(Date.now() / 1000);
+  const start = from ?? end - DEFAULT_BARS * seconds;
+  if (start >= end) {
+    return NextResponse.json({ error: '`from` must be before `to`' }, { status: 400 });
+  }
+  if ((end - start) / seconds > MAX_BARS) {
+    return NextResponse.json(
+      { error: `Range too large: at most ${MAX_BARS} bars per request` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // The default range moves with the clock, so it is cached as "latest"
+    // and keeps the range it was fetched for
+    const key = from === undefined && to === undefined
+      ? `${id}:${interval}:latest`
+      : `${id}:${interval}:${start}:${end}`;
+    const { value, status, fetchedAt } = await candleCache().get(key, async () => ({
+      from: start,
+      to: end,
+      candles: await getCandleProvider().fetchCandles(address, { interval, from: start, to: end, chain }),
+    }));
+
+    return NextResponse.json({ id, interval, ...value }, { headers: cacheHeaders(status, fetchedAt) });
+  } catch (error) {
+    console.error(`Error fetching candles for ${id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch candles', details: String(error) },
+      { status: 502 }
+    );
+  }
+}
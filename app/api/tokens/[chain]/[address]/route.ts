@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { CHAIN_IDS, isValidAddress, resolveChain } from '@/lib/chains';
+import { getFirstSeenRegistry } from '@/lib/first-seen';
+import { getLifecycleTracker } from '@/lib/lifecycle';
+import { getTokenDetail } from '@/lib/token-detail';
+import { cacheHeaders } from '@/lib/cache/freshness';
+
+/**
+ * GET /api/tokens/:chain/:address
+ *
+ * One token with its metadata (supply, decimals, creator, pair, DEX, links,
+ * description) from the configured provider chain, cached server-side.
+ * Returns `{ token, metadata, asOf }`; unknown fields are null. X-Cache and
+ * X-Data-Age say whether the detail was live or a cached copy.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ chain: string; address: string }> }
+) {
+  const { chain: chainParam, address } = await params;
+
+  const chain = resolveChain(chainParam);
+  if (!chain) {
+    return NextResponse.json(
+      { error: `Unknown chain "${chainParam}"`, allowed: CHAIN_IDS },
+      { status: 404 }
+    );
+  }
+  if (!isValidAddress(chain, address)) {
+    return NextResponse.json({ error: `Invalid ${chain} address "${address}"` }, { status: 400 });
+  }
+
+  try {
+    const { value: detail, status, fetchedAt } = await getTokenDetail(chain, address);
+    const headers = cacheHeaders(status, fetchedAt);
+    if (!detail) {
+      return NextResponse.json({ error: `Token ${chain}:${address} not found` }, { status: 404, headers });
+    }
+
+    // Same age and lifecycle category the listing reports for this token
+    const [token] = getFirstSeenRegistry().apply([detail.token]);
+    const category = getLifecycleTracker().get(token.id) ?? token.category;
+
+    return NextResponse.json({ token: { ...token, category }, metadata: detail.metadata, asOf: fetchedAt }, { headers });
+  } catch (error) {
+    console.error(`Error fetching token detail for ${chain}:${address}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch token detail', details: String(error) },
+      { status: 502 }
+    );
+  }
+}
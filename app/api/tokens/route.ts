@@ -1,99 +1,84 @@
 import { NextResponse } from 'next/server';
+import { ChainId } from '@/lib/chains';
+import { fetchTokensForChains, getMarketDataChains, getMarketDataProvider } from '@/lib/providers';
+import { getResponseCache } from '@/lib/cache/response-cache';
+import { cacheHeaders } from '@/lib/cache/freshness';
+import { Token } from '@/store/tokensSlice';
+import { recordTokens } from '@/lib/timeseries/recorder';
+import { getFirstSeenRegistry } from '@/lib/first-seen';
+import { getLifecycleTracker } from '@/lib/lifecycle';
+import { categoryChangedEvents, publishEvents } from '@/lib/realtime/server';
+import { InvalidCursorError, MAX_TOKEN_LIMIT, pageTokens, tokenQuerySchema } from '@/lib/token-query';
 
-const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+/** Listings per chain set: fresh for 30s, then served stale up to 5 minutes while refreshing */
+const listingCache = () =>
+  getResponseCache<Token[]>({ name: 'tokens', freshMs: 30_000, staleMs: 5 * 60_000, maxEntries: 50 });
 
-const TOKEN_IDS = [
-  'solana',
-  'bonk',
-  'jupiter-exchange-solana',
-  'dogwifcoin',
-  'pyth-network',
-  'marinade-staked-sol',
-  'orca',
-  'serum',
-  'raydium',
-  'step-finance',
-  'saber',
-  'marinade',
-  'cashio-dollar',
-  'port-finance',
-  'solend',
-  'king-of-legends',
-  'star-atlas',
-  'bonfida',
-  'medibloc',
-  'samoyedcoin',
-  'lux',
-  'bash',
-  'the-graph',
-  'flux-token',
-  'nodeai',
-];
+/** One upstream refresh of the listing, with its side effects */
+async function loadListing(chains: ChainId[]): Promise<Token[]> {
+  // Provider chain comes from MARKET_DATA_PROVIDERS (default: coingecko),
+  // listed chains from `chain` or MARKET_DATA_CHAINS (default: solana)
+  const provider = getMarketDataProvider();
+  const listed = await fetchTokensForChains(provider, chains, { limit: MAX_TOKEN_LIMIT });
+  // Keep first-seen times stable across requests (the age of tokens with no creation time)
+  const data = getFirstSeenRegistry().apply(listed);
 
-export async function GET() {
-  try {
-    const url = `${COINGECKO_API_BASE}/coins/markets?vs_currency=usd&ids=${TOKEN_IDS.join(',')}&order=market_cap_desc&per_page=50&page=1&sparkline=false&price_change_percentage=24h`;
-    
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-      },
-      next: { revalidate: 30 }, // Cache for 30 seconds
-    });
+  // Persist this refresh as market history (best-effort, fixture data skipped)
+  await recordTokens(data, provider.name);
 
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+  // Categories are lifecycle states: bonding-curve progress (lib/normalize)
+  // run through the state machine, which also knows dead and rugged tokens
+  const changes = getLifecycleTracker().observeTokens(data);
+  if (changes.length > 0) {
+    await publishEvents(categoryChangedEvents(changes)).catch((error) => {
+      console.error('⚠️ Failed to publish category changes:', error);
+    });
+  }
+  return data;
+}
 
-    // Minimal type for CoinGecko response we use here
-    type CoinGeckoCoin = {
-      id: string;
-      symbol: string;
-      name: string;
-      current_price?: number;
-      price_change_percentage_24h?: number;
-      total_volume?: number;
-      market_cap?: number;
-      image?: string;
-    };
+/**
+ * GET /api/tokens?chain=solana&category=new&sort=age&order=asc&limit=30
+ *
+ * Filters: chain, category (comma lists), minLiquidity, minMarketCap, q
+ * (symbol, name or address). Sorting: sort, order. Paging: limit (max 100)
+ * and the opaque `cursor` from the previous page.
+ *
+ * Returns `{ items, nextCursor, asOf }`; see lib/token-query.ts. X-Cache
+ * and X-Data-Age say whether the listing was live or a cached copy.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = tokenQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        errors: parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+      },
+      { status: 400 }
+    );
+  }
+  const query = parsed.data;
 
-    // Transform to match our Token interface
-    // Distribute tokens into three categories for the Pulse view
-    const total = (data as CoinGeckoCoin[]).length;
-    const tokens = (data as CoinGeckoCoin[]).map((coin, index) => {
-      let category: 'new' | 'final-stretch' | 'migrated' = 'migrated';
-      if (index < Math.floor(total / 3)) category = 'new';
-      else if (index < Math.floor((2 * total) / 3)) category = 'final-stretch';
+  try {
+    const chains = [...(query.chain ?? getMarketDataChains())].sort();
+    const { value, status, fetchedAt } = await listingCache().get(chains.join(','), () => loadListing(chains));
 
-      return {
-        id: String(index + 1),
-        symbol: coin.symbol?.toUpperCase() ?? '',
-        name: coin.name ?? '',
-        price: coin.current_price ?? 0,
-        priceChange24h: coin.price_change_percentage_24h ?? 0,
-        volume24h: coin.total_volume ?? 0,
-        marketCap: coin.market_cap ?? 0,
-        liquidity: coin.total_volume ?? 0,
-        holders: Math.floor(Math.random() * 100000), // Mock data
-        chain: 'solana',
-        logo: coin.image ?? '',
-        category,
-      };
-    });
+    // Categories may have moved on (webhooks, price worker) since the listing was cached
+    const tracker = getLifecycleTracker();
+    const tokens = value.map((token) => ({ ...token, category: tracker.get(token.id) ?? token.category }));
 
-    return NextResponse.json(tokens);
+    // Ids are chain:address, so per-token endpoints (candles) can resolve them
+    return NextResponse.json(pageTokens(tokens, query, fetchedAt), { headers: cacheHeaders(status, fetchedAt) });
   } catch (error) {
-    console.error('Error fetching from CoinGecko:', error);
-    
-    // Return mock data on error
-    const mockTokens = [
-      { id: '1', symbol: 'SOL', name: 'Solana', price: 166.88, priceChange24h: 2.11, volume24h: 5430000000, marketCap: 92090000000, liquidity: 1630000000, holders: 50000, chain: 'solana', logo: 'https://assets.coingecko.com/coins/images/4128/small/solana.png', category: 'migrated' },
-      { id: '2', symbol: 'JUP', name: 'Jupiter', price: 0.3582, priceChange24h: 0.33, volume24h: 36190000, marketCap: 1140000000, liquidity: 10860000, holders: 30000, chain: 'solana', logo: 'https://assets.coingecko.com/coins/images/10365/small/jupiter.png', category: 'final-stretch' },
-      { id: '3', symbol: 'BONK', name: 'Bonk', price: 0.000013, priceChange24h: 1.33, volume24h: 136260000, marketCap: 1090000000, liquidity: 40730000, holders: 25000, chain: 'solana', logo: 'https://assets.coingecko.com/coins/images/28600/small/bonk.jpg', category: 'new' },
-    ];
-
-    return NextResponse.json(mockTokens);
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching market data:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch market data', details: String(error) },
+      { status: 502 }
+    );
   }
 }
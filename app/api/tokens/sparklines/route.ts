@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { parseTokenKey } from '@/lib/chains';
+import { createRecorderProvider } from '@/lib/providers';
+import { MAX_TOKEN_LIMIT } from '@/lib/token-query';
+
+/** Hourly closes per sparkline: the last day */
+const SPARKLINE_BARS = 24;
+
+/**
+ * GET /api/tokens/sparklines?ids=solana:<address>,base:<address>
+ *
+ * The last day of hourly closes for up to 100 tokens in one request, for
+ * the table's sparklines. Drawn from recorded observations only, so a page
+ * of sparklines costs no upstream requests; tokens with nothing recorded
+ * get an empty series. Returns `{ interval, sparklines: { [id]: number[] } }`.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ids = [...new Set((searchParams.get('ids') ?? '').split(',').map((id) => id.trim()).filter(Boolean))];
+
+  if (ids.length > MAX_TOKEN_LIMIT) {
+    return NextResponse.json({ error: `At most ${MAX_TOKEN_LIMIT} ids per request` }, { status: 400 });
+  }
+  const invalid = ids.filter((id) => !parseTokenKey(id));
+  if (invalid.length > 0) {
+    return NextResponse.json({ error: `Invalid token ids: ${invalid.join(', ')}` }, { status: 400 });
+  }
+
+  const to = Math.floor(Date.now() / 1000);
+  const from = to - SPARKLINE_BARS * 60 * 60;
+  const recorder = createRecorderProvider();
+
+  try {
+    const series = await Promise.all(ids.map(async (id) => {
+      const { chain, address } = parseTokenKey(id)!;
+      const candles = await recorder.fetchCandles(address, { interval: '1h', from, to, chain });
+      return [id, candles.slice(-SPARKLINE_BARS).map((candle) => candle.close)] as const;
+    }));
+
+    return NextResponse.json({ interval: '1h', sparklines: Object.fromEntries(series) });
+  } catch (error) {
+    console.error('Error reading sparklines:', error);
+    return NextResponse.json(
+      { error: 'Failed to read sparklines', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
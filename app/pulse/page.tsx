@@ -7,9 +7,11 @@
  * - Migrated: Successfully migrated tokens
  * 
  * @features
- * - Real-time token updates via Pusher WebSocket (every 3s)
+ * - Real-time token updates via the realtime transport (token.created / token.updated)
  * - Three-column categorized layout with dividers
  * - Preset filters (P1, P2, P3) for each column
+ * - Maximum-age filter on New Pairs, newest pairs first
+ * - Cards animate between columns on `token.category_changed`
  * - Compact token cards showing live market data
  * - Responsive grid layout
  * - Empty state messages
@@ -17,13 +19,14 @@
  * @architecture
  * - Redux for global state management
  * - TanStack Query for server state caching
- * - Custom usePusherTokenUpdates hook for WebSocket connection
+ * - Custom useRealtimeTokenUpdates hook (local SSE broker or Pusher)
  * - Memoized column data to prevent unnecessary re-renders
  * 
  * @realTimeData
- * - Token prices update every 3s via Pusher
+ * - Token prices update on `token.updated` events from the price worker/poller
+ * - NEXT_PUBLIC_DEMO_MODE=true simulates ticks client-side every 3s instead
  * - Visual indicators (pulsing dots) show live updates
- * - Data sourced from Moralis API and CoinGecko
+ * - Data sourced from the configured market data providers
  * 
  * @performance
  * - Memoized filtering operations
@@ -35,14 +38,41 @@
 
 'use client';
 
-import { useEffect, useMemo } from 'react';
-import { useDispatch, useSelector } from 'react-redux';
-import { useQuery } from '@tanstack/react-query';
-import { setTokens, updateTokenPrice } from '@/store/tokensSlice';
+import { useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector, useStore } from 'react-redux';
+import { useQueries, UseQueryResult } from '@tanstack/react-query';
+import { applyTokenUpdates, selectAllTokens, selectTokensByCategory, setTokens } from '@/store/tokensSlice';
 import { RootState } from '@/store';
-import { fetchTokens, simulatePriceUpdate } from '@/lib/api/tokens';
-import { TokenCard } from '@/components/pulse/token-card';
-import { usePusherTokenUpdates } from '@/hooks/use-pusher-updates';
+import { fetchTokens, FetchedTokenPage, simulateTokenUpdates, DEMO_MODE } from '@/lib/api/tokens';
+import { AnimatedTokenList } from '@/components/pulse/animated-token-list';
+import { LayoutGroup } from 'framer-motion';
+import { useRealtimeTokenUpdates } from '@/hooks/use-realtime-updates';
+import { useNow } from '@/hooks/use-now';
+import { AGE_FILTERS, compareByAge, isWithinAge } from '@/lib/token-age';
+import { TokenQueryParams } from '@/lib/token-query';
+import { worstFreshness } from '@/lib/cache/freshness';
+import { DataFreshnessBadge } from '@/components/trading/data-freshness-badge';
+import { selectSettings } from '@/store/settingsSlice';
+import { refetchIntervalMs } from '@/lib/settings';
+
+/** What each column renders; fetched separately so no column pulls the others' tokens */
+const COLUMN_QUERIES: TokenQueryParams[] = [
+  { category: 'new', sort: 'age', order: 'asc', limit: 30 },
+  { category: 'final-stretch', sort: 'bondingCurveProgress', order: 'desc', limit: 30 },
+  { category: 'migrated', sort: 'marketCap', order: 'desc', limit: 30 },
+];
+
+// Module-level so useQueries only re-runs it when a result changes
+function combineColumns(results: UseQueryResult<FetchedTokenPage>[]) {
+  const pages = results.flatMap((r) => (r.data ? [r.data] : []));
+  return {
+    // Columns are disjoint categories, so their pages concatenate into one list
+    data: pages.length === results.length ? pages.flatMap((page) => page.items) : undefined,
+    // The board is only as live as its least fresh column
+    freshness: pages.length > 0 ? worstFreshness(pages.map((page) => page.freshness)) : undefined,
+    isLoading: results.some((r) => r.isLoading),
+  };
+}
 
 /**
  * PulsePage Component
@@ -56,18 +86,22 @@ export default function PulsePage() {
   // ============================================================================
   
   const dispatch = useDispatch();
-  const tokens = useSelector((state: RootState) => state.tokens.tokens);
+  const store = useStore<RootState>();
+  const settings = useSelector(selectSettings);
   
   /**
-   * Initialize Pusher WebSocket connection for real-time updates
-   * Updates token prices every 3 seconds automatically
+   * Initialize the realtime connection for live updates
+   * Applies new tokens and server-side price ticks as they arrive
    */
-  usePusherTokenUpdates();
+  useRealtimeTokenUpdates();
 
-  const { data, isLoading } = useQuery({
-    queryKey: ['tokens'],
-    queryFn: fetchTokens,
-    refetchInterval: 30000,
+  const { data, freshness, isLoading } = useQueries({
+    queries: COLUMN_QUERIES.map((params) => ({
+      queryKey: ['tokens', params],
+      queryFn: () => fetchTokens(params),
+      refetchInterval: refetchIntervalMs(settings),
+    })),
+    combine: combineColumns,
   });
 
   useEffect(() => {
@@ -76,32 +110,38 @@ export default function PulsePage() {
     }
   }, [data, dispatch]);
 
+  // Simulated ticks only in demo mode; live prices arrive as token.updated events
   useEffect(() => {
+    if (!DEMO_MODE) return;
     const interval = setInterval(() => {
-      tokens.forEach((token) => {
-        const update = simulatePriceUpdate(token);
-        dispatch(updateTokenPrice({ id: token.id, ...update }));
-      });
+      // One dispatch for the whole board; reads the store so ticks don't restart the timer
+      dispatch(applyTokenUpdates(simulateTokenUpdates(selectAllTokens(store.getState()))));
     }, 3000);
     return () => clearInterval(interval);
-  }, [tokens, dispatch]);
+  }, [store, dispatch]);
 
   // ============================================================================
   // Categorized Token Lists (Memoized)
   // ============================================================================
   
   /**
-   * Filter tokens by category for each column
-   * Memoized to prevent recalculation on every render
+   * Tokens for each column, from memoized per-category selectors
    * 
    * Categories:
    * - 'new': Recently launched tokens (New Pairs column)
    * - 'final-stretch': Tokens approaching milestones (Final Stretch column)
    * - 'migrated': Successfully migrated tokens (Migrated column)
    */
-  const newPairs = useMemo(() => tokens.filter((t) => t.category === 'new'), [tokens]);
-  const finalStretch = useMemo(() => tokens.filter((t) => t.category === 'final-stretch'), [tokens]);
-  const migrated = useMemo(() => tokens.filter((t) => t.category === 'migrated'), [tokens]);
+  const [maxAgeMs, setMaxAgeMs] = useState<number | null>(null);
+  // Tokens age out of the filter; a coarse clock is enough for that
+  const now = useNow(5000);
+  const newTokens = useSelector((state: RootState) => selectTokensByCategory(state, 'new'));
+  const newPairs = useMemo(
+    () => newTokens.filter((t) => isWithinAge(t, maxAgeMs, now)).sort(compareByAge),
+    [newTokens, maxAgeMs, now]
+  );
+  const finalStretch = useSelector((state: RootState) => selectTokensByCategory(state, 'final-stretch'));
+  const migrated = useSelector((state: RootState) => selectTokensByCategory(state, 'migrated'));
 
   if (isLoading) {
     return (
@@ -126,6 +166,7 @@ export default function PulsePage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
               </svg>
             </div>
+            <DataFreshnessBadge freshness={freshness} />
           </div>
           
           <div className="flex items-center gap-2">
@@ -173,104 +214,99 @@ export default function PulsePage() {
         </div>
       </div>
 
-      {/* Three Column Layout */}
-      <div className="grid grid-cols-3 divide-x divide-white/[0.06]">
-        {/* New Pairs Column */}
-        <div className="px-4 py-4">
-          <div className="mb-3 flex items-center justify-between">
-            <h2 className="text-base font-semibold text-white">New Pairs</h2>
-            <div className="flex items-center gap-2">
-              <svg className="w-3.5 h-3.5 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-              </svg>
-              <span className="text-xs text-white/50">0</span>
-              <div className="flex items-center gap-1 ml-2">
-                <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
-              </div>
-              <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
-                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+      {/* Three Column Layout - one LayoutGroup so cards can move between columns */}
+      <LayoutGroup>
+        <div className="grid grid-cols-3 divide-x divide-white/[0.06]">
+          {/* New Pairs Column */}
+          <div className="px-4 py-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-base font-semibold text-white">New Pairs</h2>
+              <div className="flex items-center gap-2">
+                <svg className="w-3.5 h-3.5 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                 </svg>
-              </button>
+                <span className="text-xs text-white/50">0</span>
+                <div className="flex items-center gap-1 ml-2">
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
+                </div>
+                <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+              </div>
             </div>
+            <div className="mb-2 flex items-center gap-1" role="group" aria-label="Maximum pair age">
+              <span className="mr-1 text-[10px] text-white/40">Age</span>
+              {AGE_FILTERS.map(({ label, maxAgeMs: value }) => (
+                <button
+                  key={label}
+                  onClick={() => setMaxAgeMs(value)}
+                  className={`px-2 py-0.5 text-[10px] font-medium rounded ${
+                    maxAgeMs === value ? 'text-[#5b8def] bg-[#5b8def]/10' : 'text-white/50 hover:bg-white/5'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <AnimatedTokenList
+              tokens={newPairs}
+              emptyMessage={maxAgeMs === null ? 'No new pairs yet' : 'No new pairs in this age range'}
+            />
           </div>
-          <div className="space-y-2">
-            {newPairs.length > 0 ? (
-              newPairs.map((token) => (
-                <TokenCard key={token.id} token={token} />
-              ))
-            ) : (
-              <div className="text-center py-12 text-white/40 text-sm">No new pairs yet</div>
-            )}
-          </div>
-        </div>
 
-        {/* Final Stretch Column */}
-        <div className="px-4 py-4">
-          <div className="mb-3 flex items-center justify-between">
-            <h2 className="text-base font-semibold text-white">Final Stretch</h2>
-            <div className="flex items-center gap-2">
-              <svg className="w-3.5 h-3.5 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-              </svg>
-              <span className="text-xs text-white/50">0</span>
-              <div className="flex items-center gap-1 ml-2">
-                <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
-              </div>
-              <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
-                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          {/* Final Stretch Column */}
+          <div className="px-4 py-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-base font-semibold text-white">Final Stretch</h2>
+              <div className="flex items-center gap-2">
+                <svg className="w-3.5 h-3.5 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                 </svg>
-              </button>
+                <span className="text-xs text-white/50">0</span>
+                <div className="flex items-center gap-1 ml-2">
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
+                </div>
+                <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+              </div>
             </div>
+            <AnimatedTokenList tokens={finalStretch} emptyMessage="No tokens in final stretch" />
           </div>
-          <div className="space-y-2">
-            {finalStretch.length > 0 ? (
-              finalStretch.map((token) => (
-                <TokenCard key={token.id} token={token} />
-              ))
-            ) : (
-              <div className="text-center py-12 text-white/40 text-sm">No tokens in final stretch</div>
-            )}
-          </div>
-        </div>
 
-        {/* Migrated Column */}
-        <div className="px-4 py-4">
-          <div className="mb-3 flex items-center justify-between">
-            <h2 className="text-base font-semibold text-white">Migrated</h2>
-            <div className="flex items-center gap-2">
-              <svg className="w-3.5 h-3.5 text-emerald-500" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-              </svg>
-              <span className="text-xs text-white/50">0.0</span>
-              <div className="flex items-center gap-1 ml-2">
-                <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
-                <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
-              </div>
-              <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
-                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          {/* Migrated Column */}
+          <div className="px-4 py-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-base font-semibold text-white">Migrated</h2>
+              <div className="flex items-center gap-2">
+                <svg className="w-3.5 h-3.5 text-emerald-500" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                 </svg>
-              </button>
+                <span className="text-xs text-white/50" title="Quick buy amount (Settings)">{settings.quickBuyAmount}</span>
+                <div className="flex items-center gap-1 ml-2">
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-[#5b8def] bg-[#5b8def]/10 rounded">P1</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P2</button>
+                  <button className="px-2 py-0.5 text-[10px] font-medium text-white/50 hover:bg-white/5 rounded">P3</button>
+                </div>
+                <button className="p-0.5 hover:bg-white/5 rounded text-white/50">
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+              </div>
             </div>
-          </div>
-          <div className="space-y-2">
-            {migrated.length > 0 ? (
-              migrated.map((token) => (
-                <TokenCard key={token.id} token={token} />
-              ))
-            ) : (
-              <div className="text-center py-12 text-white/40 text-sm">No migrated tokens</div>
-            )}
+            <AnimatedTokenList tokens={migrated} emptyMessage="No migrated tokens" />
           </div>
         </div>
-      </div>
+      </LayoutGroup>
     </div>
   );
 }
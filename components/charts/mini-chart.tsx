@@ -2,9 +2,10 @@
 
 import { useEffect, useRef } from 'react';
 import { createChart, ColorType, IChartApi, LineData } from 'lightweight-charts';
+import { ChartDataPoint } from '@/hooks/use-live-chart-data';
 
 interface MiniChartProps {
-  data: { time: string; value: number }[];
+  data: ChartDataPoint[];
   width?: number;
   height?: number;
   isPositive?: boolean;
@@ -111,7 +112,7 @@ export function MiniChart({
   useEffect(() => {
     if (!seriesRef.current || !data || data.length === 0) return;
     
-    const validData = data.filter(d => d && d.time && typeof d.value === 'number' && !isNaN(d.value));
+    const validData = data.filter(d => d && d.time && typeof d.value === 'number' && !isNaN(d.value)) as LineData[];
     if (validData.length === 0) return;
 
     try {
@@ -119,7 +120,7 @@ export function MiniChart({
         // Smooth live update - append new points only
         const newPoints = validData.slice(lastDataLengthRef.current);
         newPoints.forEach((point) => {
-          seriesRef.current?.update(point as LineData);
+          seriesRef.current?.update(point);
         });
         lastDataLengthRef.current = validData.length;
       } else {
@@ -1,26 +1,55 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { createChart, ColorType, IChartApi, ISeriesApi, LineData } from 'lightweight-charts';
+import {
+  createChart,
+  CandlestickSeries,
+  HistogramSeries,
+  ColorType,
+  IChartApi,
+  ISeriesApi,
+  UTCTimestamp,
+} from 'lightweight-charts';
+import { Candle } from '@/lib/chart-data';
 
 interface PriceChartProps {
-  data: { time: string; value: number }[];
+  candles: Candle[];
   width?: number;
   height?: number;
-  isPositive?: boolean;
   enableLiveUpdates?: boolean; // Enable smooth real-time updates
 }
 
-export function PriceChart({ 
-  data, 
-  width = 600, 
-  height = 300, 
-  isPositive = true,
-  enableLiveUpdates = false 
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+
+function toBar(candle: Candle) {
+  return {
+    time: candle.time as UTCTimestamp,
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+  };
+}
+
+function toVolumeBar(candle: Candle) {
+  return {
+    time: candle.time as UTCTimestamp,
+    value: candle.volume ?? 0,
+    color: candle.close >= candle.open ? `${UP_COLOR}40` : `${DOWN_COLOR}40`,
+  };
+}
+
+export function PriceChart({
+  candles,
+  width = 600,
+  height = 300,
+  enableLiveUpdates = false
 }: PriceChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
-  const seriesRef = useRef<ISeriesApi<'Area'> | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const lastDataLengthRef = useRef<number>(0);
 
   useEffect(() => {
@@ -61,25 +90,27 @@ export function PriceChart({
       },
     });
 
-    // Create area series
-    // Use addSeries and allow a local explicit-any cast; lightweight-charts typings
-    // for this call are restrictive for the library version in package.json.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const areaSeries = chart.addSeries('Area' as any, {
-      topColor: isPositive ? '#10b98140' : '#ef444440',
-      bottomColor: 'transparent',
-      lineColor: isPositive ? '#10b981' : '#ef4444',
-      lineWidth: 2,
+    const candleSeries = chart.addSeries(CandlestickSeries, {
+      upColor: UP_COLOR,
+      downColor: DOWN_COLOR,
+      borderVisible: false,
+      wickUpColor: UP_COLOR,
+      wickDownColor: DOWN_COLOR,
     });
 
-  chartRef.current = chart;
-  seriesRef.current = areaSeries as unknown as ISeriesApi<'Area'>;
+    // Volume on its own overlay scale, pinned to the bottom fifth of the pane
+    const volumeSeries = chart.addSeries(HistogramSeries, {
+      priceFormat: { type: 'volume' },
+      priceScaleId: '',
+    });
+    volumeSeries.priceScale().applyOptions({
+      scaleMargins: { top: 0.8, bottom: 0 },
+    });
 
-    // Set data
-    if (data.length > 0) {
-      areaSeries.setData(data);
-      chart.timeScale().fitContent();
-    }
+    chartRef.current = chart;
+    seriesRef.current = candleSeries;
+    volumeSeriesRef.current = volumeSeries;
+    lastDataLengthRef.current = 0;
 
     // Handle resize
     const handleResize = () => {
@@ -95,26 +126,29 @@ export function PriceChart({
     return () => {
       window.removeEventListener('resize', handleResize);
       chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+      volumeSeriesRef.current = null;
     };
-  }, [width, height, isPositive, data]);
+  }, [width, height]);
 
   useEffect(() => {
-    if (!seriesRef.current || !data || data.length === 0) return;
+    if (!seriesRef.current || !volumeSeriesRef.current || candles.length === 0) return;
 
-    if (enableLiveUpdates && data.length > lastDataLengthRef.current) {
-      // Append only the new data points for smooth live updates
-      const newDataPoints = data.slice(lastDataLengthRef.current);
-      newDataPoints.forEach((point) => {
-        seriesRef.current?.update(point as LineData);
+    if (enableLiveUpdates && lastDataLengthRef.current > 0 && candles.length >= lastDataLengthRef.current) {
+      // Re-apply the last known bar (it may still be forming) plus any new ones
+      candles.slice(lastDataLengthRef.current - 1).forEach((candle) => {
+        seriesRef.current?.update(toBar(candle));
+        volumeSeriesRef.current?.update(toVolumeBar(candle));
       });
-      lastDataLengthRef.current = data.length;
     } else {
       // Replace all data (initial load or full refresh)
-      seriesRef.current.setData(data);
+      seriesRef.current.setData(candles.map(toBar));
+      volumeSeriesRef.current.setData(candles.map(toVolumeBar));
       chartRef.current?.timeScale().fitContent();
-      lastDataLengthRef.current = data.length;
     }
-  }, [data, enableLiveUpdates]);
+    lastDataLengthRef.current = candles.length;
+  }, [candles, enableLiveUpdates]);
 
   return <div ref={chartContainerRef} className="w-full" />;
 }
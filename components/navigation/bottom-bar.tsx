@@ -1,8 +1,12 @@
 'use client';
 
+import { useState } from 'react';
 import { ChevronDown } from 'lucide-react';
+import { SettingsPanel } from '@/components/settings-panel';
 
 export function BottomBar() {
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
   return (
     <div className="fixed bottom-0 left-0 right-0 h-8 bg-[#0a0a0f] border-t border-white/[0.06] flex items-center justify-between px-3 z-50">
       {/* Left Section */}
@@ -26,7 +30,11 @@ export function BottomBar() {
         </div>
 
         {/* Settings Icon */}
-        <button className="p-0.5 hover:bg-white/5 rounded text-white/50" title="Settings">
+        <button
+          onClick={() => setSettingsOpen(true)}
+          className="p-0.5 hover:bg-white/5 rounded text-white/50"
+          title="Settings"
+        >
           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -145,6 +153,8 @@ export function BottomBar() {
           </button>
         </div>
       </div>
+
+      <SettingsPanel isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
     </div>
   );
 }
@@ -4,6 +4,16 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Provider } from 'react-redux';
 import { store } from '@/store';
 import { ReactNode, useState } from 'react';
+import { usePersistedSync } from '@/hooks/use-persisted-sync';
+import { favoritesSync, settingsSync, watchlistsSync } from '@/store/persistence';
+
+/** Keeps persisted user state in step with the store; renders nothing */
+function StoreSync() {
+  usePersistedSync(favoritesSync);
+  usePersistedSync(watchlistsSync);
+  usePersistedSync(settingsSync);
+  return null;
+}
 
 export function Providers({ children }: { children: ReactNode }) {
   const [queryClient] = useState(() => new QueryClient({
@@ -17,6 +27,7 @@ export function Providers({ children }: { children: ReactNode }) {
 
   return (
     <Provider store={store}>
+      <StoreSync />
       <QueryClientProvider client={queryClient}>
         {children}
       </QueryClientProvider>
@@ -0,0 +1,43 @@
+'use client';
+
+import { AnimatePresence, motion } from 'framer-motion';
+import { Token } from '@/store/tokensSlice';
+import { TokenCard } from '@/components/pulse/token-card';
+
+interface AnimatedTokenListProps {
+  tokens: Token[];
+  /** Shown when the column is empty */
+  emptyMessage: string;
+}
+
+/**
+ * A Pulse column's cards
+ *
+ * Cards share a layoutId per token, so inside a common LayoutGroup a token
+ * whose category changes glides from its old column into the new one;
+ * tokens leaving the board (dead, rugged) fade out.
+ */
+export function AnimatedTokenList({ tokens, emptyMessage }: AnimatedTokenListProps) {
+  return (
+    <div className="space-y-2">
+      <AnimatePresence initial={false}>
+        {tokens.map((token) => (
+          <motion.div
+            key={token.id}
+            layoutId={token.id}
+            layout="position"
+            initial={{ opacity: 0, scale: 0.96 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.96 }}
+            transition={{ type: 'spring', stiffness: 400, damping: 35 }}
+          >
+            <TokenCard token={token} />
+          </motion.div>
+        ))}
+      </AnimatePresence>
+      {tokens.length === 0 && (
+        <div className="text-center py-12 text-white/40 text-sm">{emptyMessage}</div>
+      )}
+    </div>
+  );
+}
@@ -5,30 +5,29 @@
  * for the Pulse page discovery interface.
  * 
  * @features
- * - Real-time price display with live updates every 3s
+ * - Real-time price display driven by token.updated events
  * - Market Cap, Volume 24h with smart M/K formatting
  * - 24h price change badge (green/red color-coded)
- * - Liquidity and Holders count from blockchain APIs
+ * - Liquidity and Holders count when the source reports them
+ * - Bonding-curve progress bar for Final Stretch tokens
  * - Visual indicators: pulsing green dot for live updates
- * - Clock icon showing last update time
- * - Tooltips explaining data sources
+ * - Token age since pair creation (or first sighting), ticking every second
+ * - Clock icon showing the age of the newest value
+ * - Tooltips naming each value's source and age; stale values are dimmed
  * - Hover effects for interactivity
  * 
  * @realTimeData
- * - Price: From Moralis/CoinGecko APIs, updates every 3s via Pusher
- * - Market Cap: Live calculation from price × circulating supply
+ * - Price: From the listing provider, updates via token.updated events
+ * - Market Cap: As reported by the source (DEX sources may report FDV)
  * - Volume 24h: Rolling 24-hour trading volume
  * - Price Change: 24h percentage change with color coding
- * - Liquidity: Available liquidity pools from DEX data
- * - Holders: Real holder count from blockchain explorer APIs
- * 
- * @displayOnly
- * - Time ago badge: Stable pseudo-random value for visual variety
- *   (uses hash function to avoid React Compiler Math.random() errors)
+ * - Liquidity: Pool liquidity from DEX data
+ * - Holders: Only from sources that report holder counts (Mobula)
  * 
  * @performance
  * - No Framer Motion animations for faster rendering
- * - Memoized hash function for stable pseudo-random values
+ * - Ages tick inside TokenAge/LastUpdated, so the card itself does not
+ *   re-render every second
  * - Optimized image loading with Next.js Image component
  * - Efficient error handling with fallback avatars
  * 
@@ -41,51 +40,32 @@
 'use client';
 
 import { Token } from '@/store/tokensSlice';
-import { formatNumber } from '@/lib/utils';
+import { UNKNOWN_VALUE } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { selectSettings } from '@/store/settingsSlice';
+import { DEMO_MODE } from '@/lib/api/tokens';
+import { CHAINS, tokenExplorerUrl } from '@/lib/chains';
+import { FreshValue } from '@/components/trading/fresh-value';
+import { LastUpdated, TokenAge } from '@/components/trading/token-age';
+import { CurveProgress } from '@/components/trading/curve-progress';
+import { WatchlistMenu } from '@/components/trading/watchlist-menu';
 import Image from 'next/image';
+import { memo } from 'react';
 
 interface TokenCardProps {
   /** Token object containing all market data and metadata */
   token: Token;
 }
 
-/**
- * Hash Function for Stable Pseudo-Random Values
- * 
- * Generates a stable integer hash from a string input.
- * Used to create consistent "random" values for display-only fields
- * without triggering React Compiler warnings about Math.random().
- * 
- * @param str - Input string (typically token.id)
- * @returns Positive integer hash value
- * 
- * @algorithm Simple string hashing with bit shifting
- * @performance O(n) where n is string length, fast for short IDs
- */
-function hashCode(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-}
-
-export function TokenCard({ token }: TokenCardProps) {
-  const isPositive = token.priceChange24h >= 0;
+export const TokenCard = memo(function TokenCard({ token }: TokenCardProps) {
+  const { formatNumber, formatPrice, formatUsd } = useFormatters();
+  const quickBuyAmount = useSelector((state: RootState) => selectSettings(state).quickBuyAmount);
+  const isPositive = (token.priceChange24h ?? 0) >= 0;
   
-  // Generate stable pseudo-random values based on token.id for display-only fields
-  const hash = hashCode(token.id);
-  const times = ['0s', '1s', '2m', '3m', '4m', '5m', '8m', '10s', '22s', '36s', '48s', '51s', '56s'];
-  const timeAgo = times[hash % times.length];
-  
-  // Format real fetched price (updates every 3s via Pusher/Moralis)
-  const formattedPrice = token.price < 0.01 
-    ? `$${token.price.toFixed(6)}` 
-    : token.price < 1 
-    ? `$${token.price.toFixed(4)}` 
-    : `$${token.price.toFixed(2)}`;
+  // Format real fetched price (updated by token.updated events)
+  const formattedPrice = formatPrice(token.price);
   
   return (
     <div className="group bg-[#0f0f14] border border-white/[0.08] hover:border-[#5b8def]/50 rounded-lg p-3 cursor-pointer transition-all">
@@ -110,35 +90,42 @@ export function TokenCard({ token }: TokenCardProps) {
             {token.symbol.slice(0, 1)}
           </div>
           {/* Live update indicator - pulses to show real-time data */}
-          <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-emerald-500 rounded-full border-2 border-[#0f0f14] animate-pulse" title="Live updates every 3s via Pusher/Moralis"></div>
+          <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-emerald-500 rounded-full border-2 border-[#0f0f14] animate-pulse" title={DEMO_MODE ? 'Simulated prices (demo mode)' : 'Live price ticks'}></div>
         </div>
         
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-1.5">
             <span className="font-semibold text-white text-sm truncate">{token.symbol}</span>
             <span className="text-white/40 text-xs truncate">{token.name.split(' ').slice(0, 2).join(' ')}</span>
-            <button className="ml-auto p-0.5 hover:bg-white/5 rounded text-white/50" title="Copy address">
+            <WatchlistMenu tokenId={token.id} className="ml-auto" />
+            <button className="p-0.5 hover:bg-white/5 rounded text-white/50" title="Copy address">
               <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
             </button>
           </div>
           <div className="flex items-center gap-1.5 mt-0.5">
-            <span className="text-emerald-500 text-xs font-medium">{timeAgo}</span>
-            {/* Real-time price display - updates every 3s via Pusher */}
-            <span className="text-white text-xs font-semibold ml-1" title="Live price from Moralis/CoinGecko">
+            <TokenAge token={token} className="text-emerald-500 text-xs font-medium" />
+            {/* Real-time price display - updated via token.updated events */}
+            <FreshValue token={token} field="price" label="Price" className="text-white text-xs font-semibold ml-1">
               {formattedPrice}
-            </span>
+            </FreshValue>
             <button className="p-0.5 hover:bg-white/5 rounded text-white/50" title="Edit">
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
               </svg>
             </button>
-            <button className="p-0.5 hover:bg-white/5 rounded text-white/50" title="View on explorer">
+            <a
+              href={tokenExplorerUrl(token.chain, token.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-0.5 hover:bg-white/5 rounded text-white/50"
+              title={`View on ${CHAINS[token.chain].explorer.name}`}
+            >
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
-            </button>
+            </a>
             <button className="p-0.5 hover:bg-white/5 rounded text-white/50" title="Search">
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -146,11 +133,13 @@ export function TokenCard({ token }: TokenCardProps) {
             </button>
             <div className="flex items-center gap-1 ml-auto">
               {/* Liquidity badge */}
-              <div className="flex items-center gap-0.5 bg-white/5 px-1 py-0.5 rounded" title="Liquidity from API">
+              <div className="flex items-center gap-0.5 bg-white/5 px-1 py-0.5 rounded">
                 <svg className="w-2.5 h-2.5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                 </svg>
-                <span className="text-white text-[9px]">${(token.liquidity / 1000).toFixed(0)}K</span>
+                <FreshValue token={token} field="liquidity" label="Liquidity" className="text-white text-[9px]">
+                  {formatUsd(token.liquidity)}
+                </FreshValue>
               </div>
             </div>
           </div>
@@ -161,60 +150,63 @@ export function TokenCard({ token }: TokenCardProps) {
       <div className="flex items-center justify-between mb-2">
         <div>
           <div className="text-xs text-white/50 mb-0.5">MC (Live)</div>
-          <div className="text-sm font-semibold text-white" title={`Market Cap: $${formatNumber(token.marketCap)}`}>
-            ${token.marketCap >= 1000000 
-              ? `${(token.marketCap / 1000000).toFixed(2)}M` 
-              : `${(token.marketCap / 1000).toFixed(2)}K`}
-          </div>
+          <FreshValue token={token} field="marketCap" label="Market Cap" className="block text-sm font-semibold text-white">
+            {formatUsd(token.marketCap)}
+          </FreshValue>
         </div>
         <div>
           <div className="text-xs text-white/50 mb-0.5 text-right">V (24h)</div>
-          <div className="text-sm font-semibold text-white text-right" title={`Volume: $${formatNumber(token.volume24h)}`}>
-            ${token.volume24h >= 1000000 
-              ? `${(token.volume24h / 1000000).toFixed(2)}M` 
-              : `${(token.volume24h / 1000).toFixed(2)}K`}
-          </div>
+          <FreshValue token={token} field="volume24h" label="Volume" className="block text-sm font-semibold text-white text-right">
+            {formatUsd(token.volume24h)}
+          </FreshValue>
         </div>
       </div>
 
       {/* Badges Row - Real 24h Price Change */}
       <div className="flex items-center gap-1 flex-wrap mb-2">
-        <span 
+        <FreshValue
+          token={token}
+          field="priceChange24h"
+          label="24h change"
           className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
             isPositive ? 'text-emerald-500 bg-emerald-500/10' : 'text-red-500 bg-red-500/10'
           }`}
-          title="24h price change from CoinGecko API"
         >
-          {isPositive ? '↗' : '↘'} {Math.abs(token.priceChange24h).toFixed(2)}%
-        </span>
-        <span className="text-[10px] font-medium px-1.5 py-0.5 rounded text-white/30 bg-white/5" title="Liquidity indicator">
-          💧 ${token.liquidity >= 1000000 ? `${(token.liquidity / 1000000).toFixed(1)}M` : `${(token.liquidity / 1000).toFixed(0)}K`}
-        </span>
-        <span className="text-[10px] font-medium px-1.5 py-0.5 rounded text-white/30 bg-white/5" title="Real holder count from API">
-          👥 {token.holders ? formatNumber(token.holders) : 'N/A'}
-        </span>
+          {token.priceChange24h === null
+            ? UNKNOWN_VALUE
+            : `${isPositive ? '↗' : '↘'} ${Math.abs(token.priceChange24h).toFixed(2)}%`}
+        </FreshValue>
+        <FreshValue token={token} field="liquidity" label="Liquidity" className="text-[10px] font-medium px-1.5 py-0.5 rounded text-white/30 bg-white/5">
+          💧 {formatUsd(token.liquidity)}
+        </FreshValue>
+        <FreshValue token={token} field="holders" label="Holders" className="text-[10px] font-medium px-1.5 py-0.5 rounded text-white/30 bg-white/5">
+          👥 {token.holders === null ? UNKNOWN_VALUE : formatNumber(token.holders)}
+        </FreshValue>
       </div>
 
+      {/* Bonding-curve progress - Final Stretch only */}
+      {token.category === 'final-stretch' && <CurveProgress token={token} />}
+
       {/* Bottom Row - Real-time Data Display */}
       <div className="flex items-center justify-between text-[10px]">
         <div className="flex items-center gap-3">
-          <div className="flex items-center gap-0.5" title="Total holders">
+          <FreshValue token={token} field="holders" label="Total holders" className="flex items-center gap-0.5">
             <svg className="w-3 h-3 text-white/40" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
             </svg>
-            <span className="text-white/50">{token.holders || 'N/A'}</span>
-          </div>
-          <div className="flex items-center gap-0.5" title="Last updated">
+            <span className="text-white/50">{token.holders ?? UNKNOWN_VALUE}</span>
+          </FreshValue>
+          <div className="flex items-center gap-0.5">
             <svg className="w-3 h-3 text-emerald-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            <span className="text-emerald-500">{timeAgo}</span>
+            <LastUpdated token={token} className="text-emerald-500" />
           </div>
         </div>
         <button className="px-3 py-1 bg-[#5b8def] hover:bg-[#4a7de8] text-white text-xs font-semibold rounded" title="Quick buy">
-          Buy
+          Buy {quickBuyAmount} {CHAINS[token.chain].nativeAsset.symbol}
         </button>
       </div>
     </div>
   );
-}
+});
@@ -0,0 +1,221 @@
+/**
+ * Settings Panel Component
+ *
+ * Dialog for the trader's preferences (lib/settings.ts): quick-buy amount,
+ * number formatting, the table's default tab, listing refresh interval and
+ * the chart's default interval. Changes apply immediately and are saved to
+ * this browser (store/persistence.ts).
+ *
+ * @usage
+ * ```tsx
+ * <SettingsPanel isOpen={isOpen} onClose={() => setIsOpen(false)} />
+ * ```
+ */
+
+'use client';
+
+import { ReactNode, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { resetSettings, selectNumberFormat, selectSettings, updateSettings } from '@/store/settingsSlice';
+import {
+  CHART_INTERVALS,
+  PRICE_DECIMALS,
+  REFRESH_INTERVALS,
+  Settings,
+  TABLE_TABS,
+  TableTab,
+} from '@/lib/settings';
+import { CandleInterval } from '@/lib/chart-data';
+import { formatPrice, formatUsd } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const TAB_LABELS: Record<TableTab, string> = {
+  trending: 'Trending',
+  surge: 'Surge',
+  dex: 'DEX Screener',
+  pump: 'Pump Live',
+};
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
+  const dispatch = useDispatch();
+  const settings = useSelector(selectSettings);
+  const numberFormat = useSelector(selectNumberFormat);
+  // Typed text; the setting only changes once it is a valid amount
+  const [quickBuyDraft, setQuickBuyDraft] = useState<string | null>(null);
+
+  const update = (changes: Partial<Settings>) => dispatch(updateSettings(changes));
+
+  const handleQuickBuyChange = (value: string) => {
+    setQuickBuyDraft(value);
+    const amount = Number(value);
+    if (value.trim() !== '' && amount > 0 && amount <= 1_000) update({ quickBuyAmount: amount });
+  };
+
+  const handleReset = () => {
+    setQuickBuyDraft(null);
+    dispatch(resetSettings());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-[#0f0f14] border-white/10">
+        <DialogHeader>
+          <DialogTitle className="text-white">Settings</DialogTitle>
+          <DialogDescription>Saved in this browser and applied to every open tab.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <SettingRow label="Quick buy amount" hint="In the chain's native asset, e.g. SOL">
+            <Input
+              type="number"
+              min={0}
+              max={1000}
+              step="0.1"
+              value={quickBuyDraft ?? String(settings.quickBuyAmount)}
+              onChange={(event) => handleQuickBuyChange(event.target.value)}
+              onBlur={() => setQuickBuyDraft(null)}
+              className="w-[180px] bg-white/5 border-white/10 text-white"
+            />
+          </SettingRow>
+
+          <SettingRow label="Numbers" hint={`e.g. ${formatUsd(1_234_567, numberFormat)}`}>
+            <Select
+              value={settings.numberNotation}
+              onValueChange={(value) => update({ numberNotation: value as Settings['numberNotation'] })}
+            >
+              <SelectTrigger className="w-[180px] bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="compact">Compact ($1.23M)</SelectItem>
+                <SelectItem value="full">Full ($1,234,567)</SelectItem>
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          <SettingRow label="Price decimals" hint={`e.g. ${formatPrice(0.00123, numberFormat)}`}>
+            <Select
+              value={String(settings.priceDecimals)}
+              onValueChange={(value) =>
+                update({ priceDecimals: value === 'auto' ? 'auto' : (Number(value) as Settings['priceDecimals']) })
+              }
+            >
+              <SelectTrigger className="w-[180px] bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRICE_DECIMALS.map((decimals) => (
+                  <SelectItem key={decimals} value={String(decimals)}>
+                    {decimals === 'auto' ? 'Auto (by price)' : `${decimals} decimals`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          <SettingRow label="Default table tab">
+            <Select
+              value={settings.defaultTableTab}
+              onValueChange={(value) => update({ defaultTableTab: value as TableTab })}
+            >
+              <SelectTrigger className="w-[180px] bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TABLE_TABS.map((tab) => (
+                  <SelectItem key={tab} value={tab}>{TAB_LABELS[tab]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          <SettingRow label="Refresh listings" hint="Live ticks keep arriving either way">
+            <Select
+              value={String(settings.refreshIntervalSeconds)}
+              onValueChange={(value) =>
+                update({ refreshIntervalSeconds: Number(value) as Settings['refreshIntervalSeconds'] })
+              }
+            >
+              <SelectTrigger className="w-[180px] bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REFRESH_INTERVALS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds === 0 ? 'Never' : `Every ${seconds}s`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          <SettingRow label="Chart interval" hint="Where the token chart opens">
+            <Select
+              value={settings.chartInterval}
+              onValueChange={(value) => update({ chartInterval: value as CandleInterval })}
+            >
+              <SelectTrigger className="w-[180px] bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHART_INTERVALS.map((interval) => (
+                  <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReset}
+            className="bg-white/5 border-white/10 hover:bg-white/10"
+          >
+            Reset to defaults
+          </Button>
+          <Button size="sm" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * One labelled setting: label and hint on the left, control on the right
+ */
+function SettingRow({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div>
+        <div className="text-sm text-white">{label}</div>
+        {hint && <div className="text-xs text-white/50">{hint}</div>}
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Download, Heart, RefreshCw } from 'lucide-react';
 import { TableSearch } from './table-search';
 import { TableFilters } from './table-filters';
+import { WatchlistSelector } from './watchlist-selector';
 
 interface TableToolbarProps {
   searchValue: string;
@@ -17,6 +18,8 @@ interface TableToolbarProps {
   onExport: () => void;
   onToggleFavorites: () => void;
   showFavoritesOnly: boolean;
+  /** Tokens on the selected watchlist that no source could load */
+  unavailableWatchlistCount?: number;
 }
 
 export function TableToolbar({
@@ -31,6 +34,7 @@ export function TableToolbar({
   onExport,
   onToggleFavorites,
   showFavoritesOnly,
+  unavailableWatchlistCount,
 }: TableToolbarProps) {
   return (
     <div className="flex flex-col gap-4 mb-6">
@@ -39,6 +43,8 @@ export function TableToolbar({
         <TableSearch value={searchValue} onChange={onSearchChange} />
         
         <div className="flex items-center gap-2">
+          <WatchlistSelector unavailableCount={unavailableWatchlistCount} />
+
           <Button
             variant={showFavoritesOnly ? 'default' : 'outline'}
             size="sm"
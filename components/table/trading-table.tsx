@@ -2,10 +2,11 @@
  * Trading Table Component
  * 
  * Main data table displaying comprehensive token trading information with:
- * - Real-time price updates via Pusher WebSocket (every 3s)
+ * - Real-time price updates via the realtime transport (token.updated events)
  * - Advanced filtering (search, price range, volume range, favorites)
+ * - Named watchlists, each with its own sort order
  * - Sortable columns with TanStack Table
- * - Interactive sparkline charts for price trends
+ * - Sparklines from recorded hourly closes, one request per page (/api/tokens/sparklines)
  * - Volume visualization bars
  * - Export to CSV functionality
  * - Smooth color transitions on price changes
@@ -13,7 +14,7 @@
  * 
  * @architecture
  * - Uses Redux Toolkit for global token state management
- * - TanStack Query for server state & caching (30s refetch interval)
+ * - TanStack Query for server state & caching (refetch interval from settings)
  * - TanStack Table for column sorting and row management
  * - Framer Motion for smooth animations and transitions
  * - Memoized components & callbacks for performance optimization
@@ -26,10 +27,11 @@
  * - Virtual scrolling ready (table structure supports it)
  * 
  * @realTimeData
- * - Token prices update every 3s via simulatePriceUpdate
+ * - Token prices update on server-side `token.updated` ticks
+ * - simulatePriceUpdate runs every 3s only in demo mode (NEXT_PUBLIC_DEMO_MODE)
  * - Smooth color transitions on price changes (green for up, red for down)
- * - Real-time updates from Moralis API and CoinGecko
- * - Pusher WebSocket integration for live market data
+ * - Listing refetched from /api/tokens (MARKET_DATA_PROVIDERS, CoinGecko by default)
+ * - Realtime (SSE / Pusher) integration for live market data
  * 
  * @usage
  * ```tsx
@@ -46,23 +48,39 @@ import {
   getSortedRowModel,
   flexRender,
   type ColumnDef,
+  type OnChangeFn,
   type SortingState,
 } from '@tanstack/react-table';
-import { useDispatch, useSelector } from 'react-redux';
+import { useDispatch, useSelector, useStore } from 'react-redux';
 import Image from 'next/image';
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { ArrowUpDown, TrendingUp, TrendingDown, Heart } from 'lucide-react';
 import { Token } from '@/store/tokensSlice';
-import { setTokens, updateTokenPrice, toggleFavorite } from '@/store/tokensSlice';
+import { applyTokenUpdates, selectAllTokens, setTokens } from '@/store/tokensSlice';
+import { selectFavoriteIdSet, toggleFavorite } from '@/store/favoritesSlice';
+import { selectActiveWatchlist, setWatchlistSort } from '@/store/watchlistsSlice';
+import { selectSettings } from '@/store/settingsSlice';
+import { refetchIntervalMs, TableTab } from '@/lib/settings';
 import { RootState } from '@/store';
-import { fetchTokens, simulatePriceUpdate } from '@/lib/api/tokens';
-import { formatPrice, formatPercentage, formatNumber } from '@/lib/utils';
+import { fetchTokens, simulateTokenUpdates, DEMO_MODE } from '@/lib/api/tokens';
+import { MAX_TOKEN_LIMIT, TOKEN_SORT_FIELDS, TokenQueryParams, TokenSortField } from '@/lib/token-query';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useWatchlistTokens } from '@/hooks/use-watchlist-tokens';
+import { useRealtimeTokenUpdates } from '@/hooks/use-realtime-updates';
+import { useSparklines } from '@/hooks/use-sparklines';
+import { formatPercentage } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
 import { Button } from '@/components/ui/button';
 import { TableToolbar } from './table-toolbar';
 import { StatusBadge } from '@/components/trading/status-badge';
 import { VolumeBar } from '@/components/trading/volume-bar';
-import { SparklineChart } from '@/components/trading/sparkline-chart';
+import { TokenSparkline } from '@/components/trading/token-sparkline';
+import { DataFreshnessBadge } from '@/components/trading/data-freshness-badge';
+import { WatchlistMenu } from '@/components/trading/watchlist-menu';
+
+/** Stable empty watchlist, so the off-listing lookup does not recompute */
+const NO_IDS: string[] = [];
 
 /**
  * TradingTable Function Component
@@ -76,13 +94,41 @@ export function TradingTable() {
   // ============================================================================
   
   const dispatch = useDispatch();
-  const tokens = useSelector((state: RootState) => state.tokens.tokens);
+  const store = useStore<RootState>();
+  const tokens = useSelector(selectAllTokens);
+  const favoriteIds = useSelector(selectFavoriteIdSet);
+  const activeWatchlist = useSelector(selectActiveWatchlist);
+  const settings = useSelector(selectSettings);
+  const { formatPrice, formatUsd } = useFormatters();
+
+  /**
+   * Apply server-side price ticks and lifecycle events as they arrive.
+   * New tokens are left out: the table shows one server-sorted page.
+   */
+  useRealtimeTokenUpdates({ addCreatedTokens: false });
   
-  // Table sorting state (managed by TanStack Table)
-  const [sorting, setSorting] = useState<SortingState>([]);
+  // Table sorting state (managed by TanStack Table); a selected watchlist
+  // brings its own sort order, and header clicks change that list's order
+  const [listingSorting, setListingSorting] = useState<SortingState>([]);
+  const watchlistSort = activeWatchlist?.sort;
+  const sorting = useMemo<SortingState>(() => {
+    if (watchlistSort === undefined) return listingSorting;
+    return watchlistSort ? [{ id: watchlistSort.field, desc: watchlistSort.desc }] : [];
+  }, [watchlistSort, listingSorting]);
+
+  const handleSortingChange = useCallback<OnChangeFn<SortingState>>((updater) => {
+    const next = typeof updater === 'function' ? updater(sorting) : updater;
+    if (!activeWatchlist) {
+      setListingSorting(next);
+      return;
+    }
+    const sort = next[0] ? { field: next[0].id, desc: next[0].desc } : null;
+    dispatch(setWatchlistSort({ listId: activeWatchlist.id, sort }));
+  }, [sorting, activeWatchlist, dispatch]);
   
-  // UI state for tabs and filters
-  const [activeTab, setActiveTab] = useState('trending');
+  // UI state for tabs and filters; the tab follows the default setting until one is picked
+  const [pickedTab, setActiveTab] = useState<TableTab | null>(null);
+  const activeTab = pickedTab ?? settings.defaultTableTab;
   const [activeTime, setActiveTime] = useState('1h');
   
   // Filter state
@@ -95,27 +141,52 @@ export function TradingTable() {
   // Data Fetching with TanStack Query
   // ============================================================================
   
+  /**
+   * Search and the sorted column go to the API, so the table holds the
+   * top page for what it shows rather than the whole listing
+   */
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+  const tokenQuery = useMemo<TokenQueryParams>(() => {
+    const sorted = sorting[0];
+    const serverSort = sorted && (TOKEN_SORT_FIELDS as readonly string[]).includes(sorted.id);
+    return {
+      sort: serverSort ? (sorted.id as TokenSortField) : 'marketCap',
+      order: serverSort && !sorted.desc ? 'asc' : 'desc',
+      q: debouncedSearch || undefined,
+      limit: MAX_TOKEN_LIMIT,
+    };
+  }, [sorting, debouncedSearch]);
+
   /**
    * Fetch tokens from API with automatic caching and refetching
-   * - Query key: ['tokens'] for cache identification
-   * - Refetch interval: 30s to keep data fresh
-   * - Automatic background refetch on window focus
+   * - Query key: ['tokens', query] for cache identification
+   * - Refetch interval from settings (default 30s) to keep data fresh
+   * - Previous page stays on screen while a new query loads
    */
   const { data, isLoading, refetch } = useQuery({
-    queryKey: ['tokens'],
-    queryFn: fetchTokens,
-    refetchInterval: 30000, // Refetch every 30 seconds
+    queryKey: ['tokens', tokenQuery],
+    queryFn: () => fetchTokens(tokenQuery),
+    placeholderData: keepPreviousData,
+    refetchInterval: refetchIntervalMs(settings),
   });
 
+  // Tokens on the selected watchlist that the listing page does not include
+  const watchlistTokens = useWatchlistTokens(
+    activeWatchlist?.tokenIds ?? NO_IDS,
+    data?.items,
+    refetchIntervalMs(settings)
+  );
+
   /**
    * Update Redux store when new data arrives from API
-   * This syncs server state with global client state
+   * This syncs server state with global client state; watchlist tokens
+   * loaded one by one go in too, so live ticks reach them as well
    */
   useEffect(() => {
     if (data) {
-      dispatch(setTokens(data));
+      dispatch(setTokens([...data.items, ...watchlistTokens.tokens]));
     }
-  }, [data, dispatch]);
+  }, [data, watchlistTokens.tokens, dispatch]);
   
   // ============================================================================
   // Filtering Logic (Memoized for Performance)
@@ -127,8 +198,8 @@ export function TradingTable() {
    * Memoized to prevent unnecessary recalculation on every render.
    * Only recomputes when dependencies change.
    * 
-   * Filters applied:
-   * 1. Text search (symbol or name)
+   * Filters applied (text search runs server-side, see tokenQuery):
+   * 1. Selected watchlist, in the order tokens were added
    * 2. Favorites toggle
    * 3. Price range (under $1, $1-10, $10-100, over $100)
    * 4. Volume range (under 1M, 1M-10M, 10M-100M, over 100M)
@@ -137,26 +208,23 @@ export function TradingTable() {
    */
   const filteredTokens = useMemo(() => {
     let result = [...tokens];
-    
-    // Text search filter
-    if (searchTerm) {
-      const search = searchTerm.toLowerCase();
-      result = result.filter(
-        (token) =>
-          token.symbol.toLowerCase().includes(search) ||
-          token.name.toLowerCase().includes(search)
-      );
+
+    // Watchlist filter (off-listing tokens are in the store too, see useWatchlistTokens)
+    if (activeWatchlist) {
+      const byId = new Map(result.map((token) => [token.id, token]));
+      result = activeWatchlist.tokenIds.flatMap((id) => byId.get(id) ?? []);
     }
     
     // Favorites filter
     if (showFavoritesOnly) {
-      result = result.filter((token) => token.isFavorite);
+      result = result.filter((token) => favoriteIds.has(token.id));
     }
     
     // Price range filter
     if (priceRange !== 'all') {
       result = result.filter((token) => {
         const price = token.price;
+        if (price === null) return false;
         switch (priceRange) {
           case 'under-1': return price < 1;
           case '1-10': return price >= 1 && price < 10;
@@ -171,6 +239,7 @@ export function TradingTable() {
     if (volumeRange !== 'all') {
       result = result.filter((token) => {
         const volume = token.volume24h;
+        if (volume === null) return false;
         switch (volumeRange) {
           case 'under-1m': return volume < 1000000;
           case '1m-10m': return volume >= 1000000 && volume < 10000000;
@@ -182,19 +251,20 @@ export function TradingTable() {
     }
     
     return result;
-  }, [tokens, searchTerm, priceRange, volumeRange, showFavoritesOnly]);
-  
+  }, [tokens, activeWatchlist, priceRange, volumeRange, showFavoritesOnly, favoriteIds]);
+
   const handleExport = useCallback(() => {
     const headers = ['Symbol', 'Name', 'Price', '24h Change %', 'Volume 24h', 'Market Cap', 'Liquidity', 'Holders'];
     const csvData = filteredTokens.map((token) => [
       token.symbol,
       token.name,
-      token.price.toFixed(6),
-      token.priceChange24h.toFixed(2),
-      token.volume24h.toFixed(2),
-      token.marketCap.toFixed(2),
-      token.liquidity.toFixed(2),
-      token.holders || 0,
+      // Unreported values export as empty cells
+      token.price?.toFixed(6) ?? '',
+      token.priceChange24h?.toFixed(2) ?? '',
+      token.volume24h?.toFixed(2) ?? '',
+      token.marketCap?.toFixed(2) ?? '',
+      token.liquidity?.toFixed(2) ?? '',
+      token.holders ?? '',
     ]);
     
     const csv = [headers, ...csvData].map((row) => row.join(',')).join('\n');
@@ -219,30 +289,24 @@ export function TradingTable() {
     dispatch(toggleFavorite(tokenId));
   }, [dispatch]);
 
-  // Generate mock sparkline data for each token
-  const generateSparklineData = useCallback((token: Token) => {
-    const basePrice = token.price;
-    const volatility = Math.abs(token.priceChange24h) / 100;
-    return new Array(20).fill(0).map(() => {
-      const randomChange = (Math.random() - 0.5) * volatility * basePrice;
-      return basePrice + randomChange;
-    });
-  }, []);
+  // One sparkline request for every row shown
+  const sparklineIds = useMemo(() => filteredTokens.map((token) => token.id), [filteredTokens]);
+  const { data: sparklines } = useSparklines(sparklineIds);
 
   // Calculate max volume for volume bars
   const maxVolume = useMemo(() => {
-    return Math.max(...filteredTokens.map(t => t.volume24h));
+    return Math.max(0, ...filteredTokens.map(t => t.volume24h ?? 0));
   }, [filteredTokens]);
 
+  // Simulated ticks only in demo mode; live prices arrive as token.updated events
   useEffect(() => {
+    if (!DEMO_MODE) return;
     const interval = setInterval(() => {
-      tokens.forEach((token) => {
-        const update = simulatePriceUpdate(token);
-        dispatch(updateTokenPrice({ id: token.id, ...update }));
-      });
+      // One dispatch for the whole table; reads the store so ticks don't restart the timer
+      dispatch(applyTokenUpdates(simulateTokenUpdates(selectAllTokens(store.getState()))));
     }, 3000);
     return () => clearInterval(interval);
-  }, [tokens, dispatch]);
+  }, [store, dispatch]);
 
   const columns = useMemo<ColumnDef<Token>[]>(
     () => [
@@ -258,7 +322,7 @@ export function TradingTable() {
           >
             <Heart
               className={`h-4 w-4 transition-colors ${
-                row.original.isFavorite ? 'fill-pink-500 text-pink-500' : 'text-gray-400'
+                favoriteIds.has(row.original.id) ? 'fill-pink-500 text-pink-500' : 'text-gray-400'
               }`}
             />
           </Button>
@@ -313,23 +377,22 @@ export function TradingTable() {
           </Button>
         ),
         cell: ({ row }) => {
-          const sparklineData = generateSparklineData(row.original);
           return (
             <div className="flex items-center gap-3">
               <motion.div
                 key={row.original.price}
-                initial={{ scale: 1.1, color: row.original.priceChange24h >= 0 ? '#10b981' : '#ef4444' }}
+                initial={{ scale: 1.1, color: (row.original.priceChange24h ?? 0) >= 0 ? '#10b981' : '#ef4444' }}
                 animate={{ scale: 1, color: 'inherit' }}
                 transition={{ duration: 0.3 }}
                 className="font-mono font-semibold"
               >
                 {formatPrice(row.original.price)}
               </motion.div>
-              <SparklineChart 
-                data={sparklineData} 
-                width={60} 
+              <TokenSparkline
+                token={row.original}
+                closes={sparklines?.[row.original.id]}
+                width={60}
                 height={24}
-                isPositive={row.original.priceChange24h >= 0}
               />
             </div>
           );
@@ -348,7 +411,7 @@ export function TradingTable() {
         ),
         cell: ({ row }) => {
           const value = row.original.priceChange24h;
-          const isPositive = value >= 0;
+          const isPositive = (value ?? 0) >= 0;
           return (
             <div className="space-y-2">
               <div className={`flex items-center gap-1 font-semibold ${isPositive ? 'text-green-500' : 'text-red-500'}`}>
@@ -389,7 +452,7 @@ export function TradingTable() {
             Market Cap <ArrowUpDown className="ml-2 h-4 w-4" />
           </Button>
         ),
-        cell: ({ row }) => <div className="font-mono">${formatNumber(row.original.marketCap)}</div>,
+        cell: ({ row }) => <div className="font-mono">{formatUsd(row.original.marketCap)}</div>,
       },
       {
         accessorKey: 'liquidity',
@@ -402,13 +465,14 @@ export function TradingTable() {
             Liquidity <ArrowUpDown className="ml-2 h-4 w-4" />
           </Button>
         ),
-        cell: ({ row }) => <div className="font-mono">${formatNumber(row.original.liquidity)}</div>,
+        cell: ({ row }) => <div className="font-mono">{formatUsd(row.original.liquidity)}</div>,
       },
       {
         id: 'actions',
         header: 'Actions',
-        cell: () => (
-          <div className="flex gap-2">
+        cell: ({ row }) => (
+          <div className="flex items-center gap-2">
+            <WatchlistMenu tokenId={row.original.id} className="p-2" />
             <Button size="sm" className="bg-linear-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold">
               Buy
             </Button>
@@ -419,7 +483,7 @@ export function TradingTable() {
         ),
       },
     ],
-    [handleToggleFavorite, generateSparklineData, maxVolume]
+    [handleToggleFavorite, favoriteIds, maxVolume, sparklines, formatPrice, formatUsd]
   );
 
   // Intentionally using TanStack's useReactTable() API which returns functions
@@ -430,7 +494,7 @@ export function TradingTable() {
     data: filteredTokens,
     columns,
     state: { sorting },
-    onSortingChange: setSorting,
+    onSortingChange: handleSortingChange,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
   });
@@ -492,6 +556,7 @@ export function TradingTable() {
                 {time}
               </button>
             ))}
+            <DataFreshnessBadge freshness={data?.freshness} />
           </div>
 
           {/* Right: Icons & Buttons */}
@@ -527,7 +592,7 @@ export function TradingTable() {
               </svg>
             </button>
             <span className="text-[13px] text-white/50">Quick Buy</span>
-            <span className="text-[13px] text-white/50">0.0</span>
+            <span className="text-[13px] text-white/50" title="Quick buy amount (Settings)">{settings.quickBuyAmount}</span>
             <div className="flex items-center gap-1 ml-2">
               <button className="px-2 py-1 text-[11px] text-white/70 hover:bg-white/5 rounded border border-white/10">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -554,6 +619,7 @@ export function TradingTable() {
         onExport={handleExport}
         onToggleFavorites={() => setShowFavoritesOnly(!showFavoritesOnly)}
         showFavoritesOnly={showFavoritesOnly}
+        unavailableWatchlistCount={watchlistTokens.unavailable}
       />
   <div className="rounded-xl border border-gray-800 bg-linear-to-br from-gray-900 to-gray-950 overflow-hidden shadow-2xl">
         <div className="overflow-x-auto">
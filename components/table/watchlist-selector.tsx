@@ -0,0 +1,172 @@
+'use client';
+
+import { ChangeEvent, useRef } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Bookmark, ChevronDown, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import {
+  createWatchlist,
+  deleteWatchlist,
+  importWatchlists,
+  renameWatchlist,
+  selectActiveWatchlist,
+  selectWatchlists,
+  setActiveWatchlist,
+} from '@/store/watchlistsSlice';
+import { exportWatchlists, parseWatchlistImport, WatchlistImportError, watchlistNameError } from '@/lib/watchlists';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+/** Radio value for the full listing (list ids are 21-character nanoids) */
+const ALL_TOKENS = 'all';
+
+interface WatchlistSelectorProps {
+  /** Tokens on the selected list that no source could load */
+  unavailableCount?: number;
+}
+
+/**
+ * Toolbar menu that picks the watchlist the table shows, and manages lists
+ *
+ * Export downloads every list as JSON (lib/watchlists.ts); import merges a
+ * file into the existing lists by name.
+ */
+export function WatchlistSelector({ unavailableCount = 0 }: WatchlistSelectorProps) {
+  const dispatch = useDispatch();
+  const lists = useSelector(selectWatchlists);
+  const active = useSelector(selectActiveWatchlist);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCreate = () => {
+    const name = window.prompt('Name the new watchlist')?.trim();
+    if (!name) return;
+    const error = watchlistNameError(name, lists);
+    if (error) {
+      window.alert(error);
+      return;
+    }
+    const action = createWatchlist(name);
+    dispatch(action);
+    dispatch(setActiveWatchlist(action.payload.id));
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt('Rename watchlist', active.name)?.trim();
+    if (!name || name === active.name) return;
+    const error = watchlistNameError(name, lists, active.id);
+    if (error) {
+      window.alert(error);
+      return;
+    }
+    dispatch(renameWatchlist({ id: active.id, name }));
+  };
+
+  const handleDelete = () => {
+    if (active && window.confirm(`Delete the "${active.name}" watchlist?`)) {
+      dispatch(deleteWatchlist(active.id));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlists(lists)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `axiom-watchlists-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear so choosing the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseWatchlistImport(await file.text());
+      dispatch(importWatchlists(imported));
+    } catch (error) {
+      if (error instanceof WatchlistImportError) {
+        window.alert(`Could not import ${file.name}: ${error.message}`);
+      } else {
+        // e.g. the file could not be read; no user-facing message to show
+        console.error('❌ Watchlist import failed:', error);
+        window.alert(`Could not import ${file.name}: the file could not be read`);
+      }
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={active ? 'default' : 'outline'}
+            size="sm"
+            className={active ? 'bg-[#5b8def] hover:bg-[#4a7de8]' : 'bg-white/5 border-white/10 hover:bg-white/10'}
+          >
+            <Bookmark className={`h-4 w-4 mr-2 ${active ? 'fill-white' : ''}`} />
+            {active ? `${active.name} (${active.tokenIds.length})` : 'All tokens'}
+            <ChevronDown className="h-3 w-3 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuRadioGroup
+            value={active?.id ?? ALL_TOKENS}
+            onValueChange={(id) => dispatch(setActiveWatchlist(id === ALL_TOKENS ? null : id))}
+          >
+            <DropdownMenuRadioItem value={ALL_TOKENS}>All tokens</DropdownMenuRadioItem>
+            {lists.map((list) => (
+              <DropdownMenuRadioItem key={list.id} value={list.id}>
+                {list.name} ({list.tokenIds.length})
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New list…
+          </DropdownMenuItem>
+          {active && (
+            <>
+              <DropdownMenuItem onSelect={handleRename}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleDelete} className="text-red-400">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleExport} disabled={lists.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      {active && unavailableCount > 0 && (
+        <span className="text-xs text-white/50" title="No market data source returned these tokens">
+          {unavailableCount} unavailable
+        </span>
+      )}
+    </div>
+  );
+}
@@ -14,13 +14,23 @@
  * ```
  * 
  * @implements Modal pattern with Radix UI Dialog primitive
- * @performance Lazy loads chart data only when modal is opened
+ * @performance Lazy loads metadata when opened and chart data only on the Chart tab
  */
 
 'use client';
 
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '@/store';
 import { Token } from '@/store/tokensSlice';
-import { formatPrice, formatPercentage, formatNumber } from '@/lib/utils';
+import { selectIsFavorite, toggleFavorite } from '@/store/favoritesSlice';
+import { formatPercentage, UNKNOWN_VALUE } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
+import { CHAINS, tokenExplorerUrl } from '@/lib/chains';
+import { isStale, TrackedField } from '@/lib/provenance';
+import { FreshValue, ProvenanceNote } from '@/components/trading/fresh-value';
+import { PriceChangeWindows } from '@/components/trading/price-change-windows';
+import { WatchlistMenu } from '@/components/trading/watchlist-menu';
+import { useNow } from '@/hooks/use-now';
 import {
   Dialog,
   DialogContent,
@@ -46,6 +56,12 @@ import {
   Activity,
 } from 'lucide-react';
 import { useState } from 'react';
+import { PriceChart } from '@/components/charts/price-chart';
+import { useCandles } from '@/hooks/use-candles';
+import { useTokenDetail } from '@/hooks/use-token-detail';
+import { CandleInterval } from '@/lib/chart-data';
+import { CHART_INTERVALS } from '@/lib/settings';
+import { selectSettings } from '@/store/settingsSlice';
 
 interface TokenDetailModalProps {
   /** The token to display details for */
@@ -54,8 +70,6 @@ interface TokenDetailModalProps {
   isOpen: boolean;
   /** Callback when modal should close */
   onClose: () => void;
-  /** Optional callback when user favorites the token */
-  onToggleFavorite?: (tokenId: string) => void;
 }
 
 /**
@@ -68,22 +82,44 @@ export function TokenDetailModal({
   token,
   isOpen,
   onClose,
-  onToggleFavorite,
 }: TokenDetailModalProps) {
+  const dispatch = useDispatch();
+  const { formatNumber, formatPrice, formatUsd } = useFormatters();
   const [activeTab, setActiveTab] = useState('overview');
   const [copied, setCopied] = useState(false);
+  // Opens on the interval from settings until another is picked
+  const defaultChartInterval = useSelector((state: RootState) => selectSettings(state).chartInterval);
+  const [pickedInterval, setChartInterval] = useState<CandleInterval | null>(null);
+  const chartInterval = pickedInterval ?? defaultChartInterval;
+
+  // Only fetch candles while the Chart tab is visible
+  const { data: candles, isLoading: candlesLoading, isError: candlesError } = useCandles(token, {
+    interval: chartInterval,
+    enabled: isOpen && activeTab === 'chart',
+  });
+
+  // Supply, links and the like come from the detail endpoint; prices stay live from the store
+  const { data: detail, isLoading: detailLoading } = useTokenDetail(token, { enabled: isOpen });
+  const metadata = detail?.metadata;
+
+  const isFavorite = useSelector((state: RootState) => (token ? selectIsFavorite(state, token.id) : false));
 
   // Handle null token case
   if (!token) return null;
 
-  const isPositive = token.priceChange24h >= 0;
+  const isPositive = (token.priceChange24h ?? 0) >= 0;
+  const createdAt = token.createdAt ?? detail?.token.createdAt ?? null;
+
+  /** Metadata row value; a placeholder while loading or when no source reports it */
+  const metadataValue = (value: string | null | undefined) =>
+    value ?? (detailLoading ? 'Loading…' : UNKNOWN_VALUE);
 
   /**
    * Copy token address to clipboard
    */
   const handleCopyAddress = async () => {
     try {
-      await navigator.clipboard.writeText(token.id);
+      await navigator.clipboard.writeText(token.address);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -147,7 +183,7 @@ export function TokenDetailModal({
                 </DialogTitle>
                 <DialogDescription className="flex items-center gap-2 mt-1">
                   <span className="text-xs text-white/50 font-mono">
-                    {token.id.slice(0, 6)}...{token.id.slice(-4)}
+                    {CHAINS[token.chain].name} • {token.address.slice(0, 6)}...{token.address.slice(-4)}
                   </span>
                   <button
                     onClick={handleCopyAddress}
@@ -168,15 +204,16 @@ export function TokenDetailModal({
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => onToggleFavorite?.(token.id)}
-                title="Add to favorites"
+                onClick={() => dispatch(toggleFavorite(token.id))}
+                title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
               >
                 <Heart
                   className={`w-4 h-4 ${
-                    token.isFavorite ? 'fill-pink-500 text-pink-500' : ''
+                    isFavorite ? 'fill-pink-500 text-pink-500' : ''
                   }`}
                 />
               </Button>
+              <WatchlistMenu tokenId={token.id} className="p-2" />
               <Button
                 variant="ghost"
                 size="sm"
@@ -189,9 +226,9 @@ export function TokenDetailModal({
                 variant="ghost"
                 size="sm"
                 onClick={() =>
-                  window.open(`https://etherscan.io/token/${token.id}`, '_blank')
+                  window.open(tokenExplorerUrl(token.chain, token.address, metadata?.tokenAddress), '_blank')
                 }
-                title="View on Etherscan"
+                title={`View on ${CHAINS[token.chain].explorer.name}`}
               >
                 <ExternalLink className="w-4 h-4" />
               </Button>
@@ -202,9 +239,9 @@ export function TokenDetailModal({
         {/* Price Section */}
         <div className="space-y-4 pt-4 border-t border-white/10">
           <div className="flex items-baseline gap-3">
-            <span className="text-4xl font-bold text-white font-mono">
+            <FreshValue token={token} field="price" label="Price" className="text-4xl font-bold text-white font-mono">
               {formatPrice(token.price)}
-            </span>
+            </FreshValue>
             <Badge
               variant={isPositive ? 'default' : 'destructive'}
               className="text-base px-3 py-1"
@@ -220,9 +257,10 @@ export function TokenDetailModal({
             </Badge>
             <span className="text-sm text-white/50 flex items-center gap-1">
               <Clock className="w-3 h-3" />
-              Last updated: {new Date().toLocaleTimeString()}
+              <ProvenanceNote token={token} field="price" className="text-sm" />
             </span>
           </div>
+          <PriceChangeWindows tokenId={token.id} />
 
           {/* Quick Stats Grid */}
           <div className="grid grid-cols-4 gap-4">
@@ -232,7 +270,7 @@ export function TokenDetailModal({
                 Market Cap
               </div>
               <div className="text-lg font-semibold text-white font-mono">
-                ${formatNumber(token.marketCap)}
+                {formatUsd(token.marketCap)}
               </div>
             </div>
 
@@ -242,7 +280,7 @@ export function TokenDetailModal({
                 Volume 24h
               </div>
               <div className="text-lg font-semibold text-white font-mono">
-                ${formatNumber(token.volume24h)}
+                {formatUsd(token.volume24h)}
               </div>
             </div>
 
@@ -252,7 +290,7 @@ export function TokenDetailModal({
                 Liquidity
               </div>
               <div className="text-lg font-semibold text-white font-mono">
-                ${formatNumber(token.liquidity)}
+                {formatUsd(token.liquidity)}
               </div>
             </div>
 
@@ -262,7 +300,7 @@ export function TokenDetailModal({
                 Holders
               </div>
               <div className="text-lg font-semibold text-white font-mono">
-                {token.holders ? formatNumber(token.holders) : 'N/A'}
+                {formatNumber(token.holders)}
               </div>
             </div>
           </div>
@@ -282,12 +320,38 @@ export function TokenDetailModal({
               <h3 className="text-sm font-semibold text-white mb-3">
                 About {token.name}
               </h3>
-              <p className="text-sm text-white/70 leading-relaxed">
-                {token.name} ({token.symbol}) is a cryptocurrency token with a
-                current market cap of ${formatNumber(token.marketCap)}. The token
-                has experienced a {formatPercentage(Math.abs(token.priceChange24h))}{' '}
-                {isPositive ? 'increase' : 'decrease'} in the last 24 hours.
-              </p>
+              {metadata?.description ? (
+                <p className="text-sm text-white/70 leading-relaxed whitespace-pre-line line-clamp-6">
+                  {metadata.description}
+                </p>
+              ) : (
+                <p className="text-sm text-white/70 leading-relaxed">
+                  {token.name} ({token.symbol}) is a cryptocurrency token
+                  {token.marketCap !== null && <> with a current market cap of {formatUsd(token.marketCap)}</>}.
+                  {token.priceChange24h !== null && (
+                    <>
+                      {' '}The token has experienced a {formatPercentage(Math.abs(token.priceChange24h))}{' '}
+                      {isPositive ? 'increase' : 'decrease'} in the last 24 hours.
+                    </>
+                  )}
+                </p>
+              )}
+              {metadata && metadata.links.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {metadata.links.map((link) => (
+                    <a
+                      key={link.url}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 px-2 py-1 text-xs capitalize text-white/70 bg-white/5 rounded hover:bg-white/10 transition-colors"
+                    >
+                      {link.type}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Trading Actions */}
@@ -307,10 +371,35 @@ export function TokenDetailModal({
           {/* Chart Tab */}
           <TabsContent value="chart" className="mt-4">
             <div className="bg-[#0a0a0f] rounded-lg p-4 border border-white/5">
-              <div className="text-center py-12 text-white/50">
-                <p className="mb-2">Price Chart</p>
-                <p className="text-sm">Chart integration ready - waiting for live data</p>
+              <div className="flex items-center gap-1 mb-3">
+                {CHART_INTERVALS.map((interval) => (
+                  <button
+                    key={interval}
+                    onClick={() => setChartInterval(interval)}
+                    className={`px-2 py-0.5 text-xs font-medium rounded ${
+                      chartInterval === interval
+                        ? 'text-[#5b8def] bg-[#5b8def]/10'
+                        : 'text-white/50 hover:bg-white/5'
+                    }`}
+                  >
+                    {interval}
+                  </button>
+                ))}
               </div>
+              {candles && candles.length > 0 ? (
+                <PriceChart candles={candles} height={320} enableLiveUpdates />
+              ) : (
+                <div className="text-center py-12 text-white/50">
+                  <p className="mb-2">Price Chart</p>
+                  <p className="text-sm">
+                    {candlesLoading
+                      ? 'Loading candles...'
+                      : candlesError
+                      ? 'Candle data unavailable from all providers'
+                      : 'No trades in this range'}
+                  </p>
+                </div>
+              )}
             </div>
           </TabsContent>
 
@@ -318,33 +407,59 @@ export function TokenDetailModal({
           <TabsContent value="info" className="space-y-3 mt-4">
             <div className="bg-[#0a0a0f] rounded-lg p-4 border border-white/5">
               <div className="space-y-3">
-                <InfoRow label="Contract Address" value={token.id} copyable />
+                <InfoRow label="Chain" value={CHAINS[token.chain].name} />
+                <InfoRow label="Contract Address" value={metadataValue(metadata?.tokenAddress)} copyable={!!metadata?.tokenAddress} />
+                {metadata?.pairAddress && <InfoRow label="Pair Address" value={metadata.pairAddress} copyable />}
+                <InfoRow label="DEX" value={metadataValue(metadata?.dex)} />
                 <InfoRow label="Token Name" value={token.name} />
                 <InfoRow label="Symbol" value={token.symbol} />
+                <InfoRow label="Created" value={createdAt === null ? UNKNOWN_VALUE : new Date(createdAt).toLocaleString()} />
+                <InfoRow label="Total Supply" value={metadataValue(metadata && formatSupply(metadata.totalSupply, formatNumber))} />
+                <InfoRow label="Circulating Supply" value={metadataValue(metadata && formatSupply(metadata.circulatingSupply, formatNumber))} />
+                <InfoRow label="Decimals" value={metadataValue(metadata?.decimals?.toString())} />
+                <InfoRow label="Creator" value={metadataValue(metadata?.creator)} copyable={!!metadata?.creator} />
                 <InfoRow
                   label="Current Price"
                   value={formatPrice(token.price)}
+                  token={token}
+                  field="price"
                 />
                 <InfoRow
                   label="24h Change"
                   value={formatPercentage(token.priceChange24h)}
                   colorCode
+                  token={token}
+                  field="priceChange24h"
                 />
                 <InfoRow
                   label="Market Cap"
-                  value={`$${formatNumber(token.marketCap)}`}
+                  value={formatUsd(token.marketCap)}
+                  token={token}
+                  field="marketCap"
                 />
                 <InfoRow
                   label="24h Volume"
-                  value={`$${formatNumber(token.volume24h)}`}
+                  value={formatUsd(token.volume24h)}
+                  token={token}
+                  field="volume24h"
                 />
                 <InfoRow
                   label="Liquidity"
-                  value={`$${formatNumber(token.liquidity)}`}
+                  value={formatUsd(token.liquidity)}
+                  token={token}
+                  field="liquidity"
                 />
                 <InfoRow
                   label="Holders"
-                  value={token.holders ? formatNumber(token.holders) : 'N/A'}
+                  value={formatNumber(token.holders)}
+                  token={token}
+                  field="holders"
+                />
+                <InfoRow
+                  label="Bonding Curve"
+                  value={token.bondingCurveProgress === null ? UNKNOWN_VALUE : `${token.bondingCurveProgress.toFixed(1)}%`}
+                  token={token}
+                  field="bondingCurveProgress"
                 />
                 <InfoRow label="Category" value={token.category || 'N/A'} />
               </div>
@@ -356,23 +471,35 @@ export function TokenDetailModal({
   );
 }
 
+/** Token supply, e.g. "1.00B"; null when unreported */
+function formatSupply(supply: number | null, formatNumber: (num: number) => string): string | null {
+  return supply === null ? null : formatNumber(supply);
+}
+
 /**
  * InfoRow Component
  * 
- * Displays a key-value pair with optional copy functionality
+ * Displays a key-value pair with optional copy functionality. Rows for a
+ * market field also show its source and age, dimmed once stale.
  */
 function InfoRow({
   label,
   value,
   copyable = false,
   colorCode = false,
+  token,
+  field,
 }: {
   label: string;
   value: string;
   copyable?: boolean;
   colorCode?: boolean;
+  token?: Token;
+  field?: TrackedField;
 }) {
   const [copied, setCopied] = useState(false);
+  const now = useNow();
+  const stale = token && field ? isStale(token.provenance[field], now) : false;
 
   const handleCopy = async () => {
     try {
@@ -390,6 +517,7 @@ function InfoRow({
     <div className="flex items-center justify-between py-2 border-b border-white/5 last:border-0">
       <span className="text-sm text-white/50">{label}</span>
       <div className="flex items-center gap-2">
+        {token && field && <ProvenanceNote token={token} field={field} />}
         <span
           className={`text-sm font-mono ${
             colorCode
@@ -397,7 +525,7 @@ function InfoRow({
                 ? 'text-green-500'
                 : 'text-red-500'
               : 'text-white'
-          }`}
+          } ${stale ? 'opacity-40' : ''}`}
         >
           {value}
         </span>
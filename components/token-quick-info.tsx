@@ -18,7 +18,15 @@
 'use client';
 
 import { Token } from '@/store/tokensSlice';
-import { formatPrice, formatPercentage, formatNumber } from '@/lib/utils';
+import { formatPercentage } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { selectSettings } from '@/store/settingsSlice';
+import { DEMO_MODE } from '@/lib/api/tokens';
+import { CHAINS, tokenExplorerUrl } from '@/lib/chains';
+import { TrackedField } from '@/lib/provenance';
+import { FreshValue, ProvenanceNote } from '@/components/trading/fresh-value';
 import {
   Popover,
   PopoverContent,
@@ -66,7 +74,9 @@ export function TokenQuickInfo({
   children,
   onViewDetails,
 }: TokenQuickInfoProps) {
-  const isPositive = token.priceChange24h >= 0;
+  const { formatNumber, formatPrice, formatUsd } = useFormatters();
+  const quickBuyAmount = useSelector((state: RootState) => selectSettings(state).quickBuyAmount);
+  const isPositive = (token.priceChange24h ?? 0) >= 0;
 
   return (
     <Popover>
@@ -103,11 +113,11 @@ export function TokenQuickInfo({
 
             {/* External Link */}
             <a
-              href={`https://etherscan.io/token/${token.id}`}
+              href={tokenExplorerUrl(token.chain, token.address)}
               target="_blank"
               rel="noopener noreferrer"
               className="text-white/50 hover:text-white/70 transition-colors"
-              title="View on Etherscan"
+              title={`View on ${CHAINS[token.chain].explorer.name}`}
             >
               <ExternalLink className="w-4 h-4" />
             </a>
@@ -119,9 +129,9 @@ export function TokenQuickInfo({
           <div>
             <div className="text-xs text-white/50 mb-1">Current Price</div>
             <div className="flex items-baseline gap-2">
-              <span className="text-2xl font-bold text-white font-mono">
+              <FreshValue token={token} field="price" label="Price" className="text-2xl font-bold text-white font-mono">
                 {formatPrice(token.price)}
-              </span>
+              </FreshValue>
               <Badge
                 variant={isPositive ? 'default' : 'destructive'}
                 className="text-xs"
@@ -134,6 +144,7 @@ export function TokenQuickInfo({
                 {formatPercentage(token.priceChange24h)}
               </Badge>
             </div>
+            <ProvenanceNote token={token} field="price" />
           </div>
 
           {/* Quick Stats Grid */}
@@ -141,22 +152,30 @@ export function TokenQuickInfo({
             <QuickStat
               icon={<BarChart3 className="w-3 h-3" />}
               label="Market Cap"
-              value={`$${formatNumber(token.marketCap)}`}
+              value={formatUsd(token.marketCap)}
+              token={token}
+              field="marketCap"
             />
             <QuickStat
               icon={<Activity className="w-3 h-3" />}
               label="Volume 24h"
-              value={`$${formatNumber(token.volume24h)}`}
+              value={formatUsd(token.volume24h)}
+              token={token}
+              field="volume24h"
             />
             <QuickStat
               icon={<Droplets className="w-3 h-3" />}
               label="Liquidity"
-              value={`$${formatNumber(token.liquidity)}`}
+              value={formatUsd(token.liquidity)}
+              token={token}
+              field="liquidity"
             />
             <QuickStat
               icon={<Users className="w-3 h-3" />}
               label="Holders"
-              value={token.holders ? formatNumber(token.holders) : 'N/A'}
+              value={formatNumber(token.holders)}
+              token={token}
+              field="holders"
             />
           </div>
 
@@ -176,7 +195,7 @@ export function TokenQuickInfo({
               size="sm"
               className="flex-1 bg-linear-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white text-xs font-semibold"
             >
-              Quick Buy
+              Quick Buy {quickBuyAmount} {CHAINS[token.chain].nativeAsset.symbol}
             </Button>
             {onViewDetails && (
               <Button
@@ -194,7 +213,7 @@ export function TokenQuickInfo({
         {/* Footer */}
         <div className="px-4 py-2 bg-[#0a0a0f] border-t border-white/10">
           <div className="text-[10px] text-white/40 text-center">
-            Live data • Updates every 3s via Pusher
+            {DEMO_MODE ? 'Demo mode • Simulated price ticks' : 'Live data • Realtime price ticks'}
           </div>
         </div>
       </PopoverContent>
@@ -205,16 +224,20 @@ export function TokenQuickInfo({
 /**
  * QuickStat Component
  * 
- * Displays a single metric in the quick info popover
+ * Displays a single metric in the quick info popover, with its source and age
  */
 function QuickStat({
   icon,
   label,
   value,
+  token,
+  field,
 }: {
   icon: React.ReactNode;
   label: string;
   value: string;
+  token: Token;
+  field: TrackedField;
 }) {
   return (
     <div className="bg-[#0a0a0f] rounded-lg p-2 border border-white/5">
@@ -222,9 +245,10 @@ function QuickStat({
         {icon}
         {label}
       </div>
-      <div className="text-xs font-semibold text-white font-mono truncate">
+      <FreshValue token={token} field={field} label={label} className="block text-xs font-semibold text-white font-mono truncate">
         {value}
-      </div>
+      </FreshValue>
+      <ProvenanceNote token={token} field={field} className="block truncate" />
     </div>
   );
 }
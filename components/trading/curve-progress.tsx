@@ -0,0 +1,38 @@
+'use client';
+
+import { Token } from '@/store/tokensSlice';
+import { FreshValue } from '@/components/trading/fresh-value';
+
+interface CurveProgressProps {
+  token: Token;
+}
+
+/**
+ * Bonding-curve progress bar for tokens nearing graduation
+ *
+ * Renders nothing without a progress value. Estimated progress (from market
+ * cap) is marked with "~" and named as such in the tooltip.
+ */
+export function CurveProgress({ token }: CurveProgressProps) {
+  const progress = token.bondingCurveProgress;
+  if (progress === null) return null;
+
+  const estimated = token.provenance.bondingCurveProgress?.source === 'estimate';
+
+  return (
+    <FreshValue token={token} field="bondingCurveProgress" label="Bonding curve" className="mb-2 block">
+      <div className="mb-0.5 flex items-center justify-between text-[10px]">
+        <span className="text-white/50">Bonding curve</span>
+        <span className="font-medium text-amber-400">
+          {estimated ? '~' : ''}{progress.toFixed(1)}%
+        </span>
+      </div>
+      <div className="h-1 overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-amber-500 to-emerald-500 transition-[width] duration-500"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </FreshValue>
+  );
+}
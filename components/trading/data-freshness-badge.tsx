@@ -0,0 +1,39 @@
+'use client';
+
+import { DataFreshness, isDegraded } from '@/lib/cache/freshness';
+import { formatAge } from '@/lib/provenance';
+
+interface DataFreshnessBadgeProps {
+  freshness: DataFreshness | undefined;
+  className?: string;
+}
+
+/**
+ * Warning shown while a view renders degraded data
+ *
+ * Renders nothing for live responses. A cached copy served because
+ * upstream sources are failing or over budget shows its age; the client's
+ * bundled snapshot is labelled as offline.
+ */
+export function DataFreshnessBadge({ freshness, className = '' }: DataFreshnessBadgeProps) {
+  if (!freshness || !isDegraded(freshness)) return null;
+
+  const offline = freshness.status === 'OFFLINE';
+  const label = offline
+    ? 'Offline snapshot'
+    : `Cached data${freshness.ageSeconds !== null ? ` · ${formatAge(freshness.ageSeconds * 1000)} old` : ''}`;
+  const title = offline
+    ? 'The market data API is unreachable; prices are from a bundled snapshot, not live'
+    : 'Upstream sources are unavailable or rate-limited; showing the last data the server fetched';
+
+  return (
+    <span
+      title={title}
+      className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${
+        offline ? 'bg-red-500/15 text-red-400' : 'bg-amber-500/15 text-amber-400'
+      } ${className}`}
+    >
+      {label}
+    </span>
+  );
+}
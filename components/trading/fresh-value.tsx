@@ -0,0 +1,45 @@
+'use client';
+
+import { Token } from '@/store/tokensSlice';
+import { describeProvenance, isStale, TrackedField } from '@/lib/provenance';
+import { useNow } from '@/hooks/use-now';
+import { cn } from '@/lib/utils';
+
+interface FreshValueProps {
+  token: Token;
+  field: TrackedField;
+  /** Tooltip prefix, e.g. "Liquidity" */
+  label: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * A token field's rendered value with its source and age as a tooltip,
+ * dimmed once the value is older than the stale threshold
+ */
+export function FreshValue({ token, field, label, className, children }: FreshValueProps) {
+  const now = useNow();
+  const provenance = token.provenance[field];
+
+  return (
+    <span
+      className={cn(isStale(provenance, now) && 'opacity-40', className)}
+      title={`${label}: ${describeProvenance(provenance, now)}`}
+    >
+      {children}
+    </span>
+  );
+}
+
+/** Inline "Source · age" caption for a token field */
+export function ProvenanceNote({ token, field, className }: Omit<FreshValueProps, 'label' | 'children'>) {
+  const now = useNow();
+  const provenance = token.provenance[field];
+
+  return (
+    <span className={cn('text-[10px] text-white/40', isStale(provenance, now) && 'text-amber-500/70', className)}>
+      {provenance ? describeProvenance(provenance, now) : 'Not reported'}
+    </span>
+  );
+}
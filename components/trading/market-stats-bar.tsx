@@ -3,19 +3,22 @@
 import { useMemo } from 'react';
 import { TrendingUp, TrendingDown, DollarSign, Activity } from 'lucide-react';
 import { Token } from '@/store/tokensSlice';
-import { formatNumber } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
 
 interface MarketStatsBarProps {
   tokens: Token[];
 }
 
 export function MarketStatsBar({ tokens }: MarketStatsBarProps) {
+  const { formatNumber } = useFormatters();
   const stats = useMemo(() => {
-    const totalVolume = tokens.reduce((sum, token) => sum + token.volume24h, 0);
-    const totalMarketCap = tokens.reduce((sum, token) => sum + token.marketCap, 0);
-    const gainers = tokens.filter(t => t.priceChange24h > 0).length;
-    const losers = tokens.filter(t => t.priceChange24h < 0).length;
-    const avgChange = tokens.reduce((sum, token) => sum + token.priceChange24h, 0) / tokens.length;
+    // Totals and averages cover the tokens that report each value
+    const totalVolume = tokens.reduce((sum, token) => sum + (token.volume24h ?? 0), 0);
+    const totalMarketCap = tokens.reduce((sum, token) => sum + (token.marketCap ?? 0), 0);
+    const changes = tokens.flatMap((t) => (t.priceChange24h === null ? [] : [t.priceChange24h]));
+    const gainers = changes.filter((change) => change > 0).length;
+    const losers = changes.filter((change) => change < 0).length;
+    const avgChange = changes.length > 0 ? changes.reduce((sum, change) => sum + change, 0) / changes.length : 0;
 
     return {
       totalVolume,
@@ -0,0 +1,48 @@
+'use client';
+
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { HistoryWindow, selectSparkline, selectWindowedChanges } from '@/store/priceHistorySlice';
+import { formatPercentage } from '@/lib/utils';
+import { SparklineChart } from './sparkline-chart';
+
+interface PriceChangeWindowsProps {
+  tokenId: string;
+  className?: string;
+}
+
+/**
+ * Price change over 1m/5m/30m/1h with a sparkline of the last hour
+ *
+ * Built from the store's price history, so it fills in while the page is
+ * open; a window stays unknown until the history reaches back that far.
+ */
+export function PriceChangeWindows({ tokenId, className = '' }: PriceChangeWindowsProps) {
+  const changes = useSelector((state: RootState) => selectWindowedChanges(state, tokenId));
+  const sparkline = useSelector((state: RootState) => selectSparkline(state, tokenId, '1h'));
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`}>
+      {(Object.keys(changes) as HistoryWindow[]).map((window) => {
+        const change = changes[window];
+        const color = change === null ? 'text-white/40' : change >= 0 ? 'text-emerald-400' : 'text-red-400';
+        return (
+          <div key={window} className="flex items-baseline gap-1 text-xs">
+            <span className="text-white/50">{window}</span>
+            <span className={`font-mono font-semibold ${color}`}>
+              {formatPercentage(change)}
+            </span>
+          </div>
+        );
+      })}
+      {sparkline.length > 1 && (
+        <SparklineChart
+          data={sparkline}
+          width={80}
+          height={20}
+          isPositive={sparkline[sparkline.length - 1] >= sparkline[0]}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,13 @@ import { Badge } from '@/components/ui/badge';
 import { Flame, TrendingUp, Snowflake, Minus } from 'lucide-react';
 
 interface StatusBadgeProps {
-  priceChange24h: number;
+  priceChange24h: number | null;
 }
 
 export function StatusBadge({ priceChange24h }: StatusBadgeProps) {
+  // No 24h change reported: no trend to show
+  if (priceChange24h === null) return null;
+
   if (priceChange24h >= 10) {
     return (
       <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30 hover:bg-orange-500/30">
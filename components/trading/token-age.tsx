@@ -0,0 +1,47 @@
+'use client';
+
+import { Token } from '@/store/tokensSlice';
+import { formatAge, isStale, lastUpdatedAt } from '@/lib/provenance';
+import { tokenStartedAt } from '@/lib/token-age';
+import { UNKNOWN_VALUE, cn } from '@/lib/utils';
+import { useNow } from '@/hooks/use-now';
+
+interface TokenTimeProps {
+  token: Token;
+  className?: string;
+}
+
+/**
+ * Ticking token age ("12s", "4m"), from pair creation or first sighting
+ *
+ * Subscribes to the clock itself so each tick re-renders only this span,
+ * not the card or column around it.
+ */
+export function TokenAge({ token, className }: TokenTimeProps) {
+  const now = useNow();
+  const age = formatAge(now - tokenStartedAt(token));
+  const title = token.createdAt !== null
+    ? `Pair created ${age} ago`
+    : `First seen ${age} ago (creation time not reported)`;
+
+  return (
+    <span className={className} title={title}>
+      {age}
+    </span>
+  );
+}
+
+/** Ticking age of the token's newest market value, dimmed once stale */
+export function LastUpdated({ token, className }: TokenTimeProps) {
+  const now = useNow();
+  const updatedAt = lastUpdatedAt(token.provenance);
+
+  return (
+    <span
+      className={cn(updatedAt !== null && isStale({ updatedAt }, now) && 'opacity-40', className)}
+      title={updatedAt === null ? 'No market data yet' : `Last updated ${formatAge(now - updatedAt)} ago`}
+    >
+      {updatedAt === null ? UNKNOWN_VALUE : formatAge(now - updatedAt)}
+    </span>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Token } from '@/store/tokensSlice';
+import { SparklineChart } from './sparkline-chart';
+
+interface TokenSparklineProps {
+  token: Token;
+  /** Hourly closes for the last day, from useSparklines */
+  closes: number[] | undefined;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Sparkline of the last day of hourly closes for a token
+ *
+ * Closes are loaded for the whole table at once (useSparklines) rather
+ * than per row. Renders nothing until recorded data is available.
+ */
+export function TokenSparkline({ token, closes = [], width, height }: TokenSparklineProps) {
+  return (
+    <SparklineChart
+      data={closes}
+      width={width}
+      height={height}
+      isPositive={(token.priceChange24h ?? 0) >= 0}
+    />
+  );
+}
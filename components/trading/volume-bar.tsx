@@ -1,19 +1,20 @@
 'use client';
 
-import { formatNumber } from '@/lib/utils';
+import { useFormatters } from '@/hooks/use-formatters';
 
 interface VolumeBarProps {
-  volume: number;
+  volume: number | null;
   maxVolume: number;
 }
 
 export function VolumeBar({ volume, maxVolume }: VolumeBarProps) {
-  const percentage = Math.min((volume / maxVolume) * 100, 100);
+  const { formatUsd } = useFormatters();
+  const percentage = volume === null || maxVolume <= 0 ? 0 : Math.min((volume / maxVolume) * 100, 100);
   
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between text-sm">
-        <span className="text-white/90">${formatNumber(volume)}</span>
+        <span className="text-white/90">{formatUsd(volume)}</span>
       </div>
       <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
         <div
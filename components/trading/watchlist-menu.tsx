@@ -0,0 +1,83 @@
+'use client';
+
+import { useDispatch, useSelector } from 'react-redux';
+import { Bookmark, Plus } from 'lucide-react';
+import { RootState } from '@/store';
+import {
+  createWatchlist,
+  selectWatchlists,
+  selectWatchlistsWithToken,
+  toggleWatchlistToken,
+} from '@/store/watchlistsSlice';
+import { watchlistNameError } from '@/lib/watchlists';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface WatchlistMenuProps {
+  tokenId: string;
+  className?: string;
+}
+
+/**
+ * Bookmark button that adds a token to, or removes it from, watchlists
+ *
+ * Filled when the token is on at least one list. "New list…" creates a
+ * list that already holds the token.
+ */
+export function WatchlistMenu({ tokenId, className = '' }: WatchlistMenuProps) {
+  const dispatch = useDispatch();
+  const lists = useSelector(selectWatchlists);
+  const containing = useSelector((state: RootState) => selectWatchlistsWithToken(state, tokenId));
+
+  const handleCreate = () => {
+    const name = window.prompt('Name the new watchlist')?.trim();
+    if (!name) return;
+    const error = watchlistNameError(name, lists);
+    if (error) {
+      window.alert(error);
+      return;
+    }
+    dispatch(createWatchlist(name, [tokenId]));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          // Cards and rows open the token on click; the menu should not
+          onClick={(event) => event.stopPropagation()}
+          className={`p-0.5 hover:bg-white/5 rounded ${containing.length > 0 ? 'text-[#5b8def]' : 'text-white/50'} ${className}`}
+          title={containing.length > 0 ? `On ${containing.map((list) => list.name).join(', ')}` : 'Add to watchlist'}
+        >
+          <Bookmark className={`w-3.5 h-3.5 ${containing.length > 0 ? 'fill-current' : ''}`} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+        <DropdownMenuLabel>Watchlists</DropdownMenuLabel>
+        {lists.map((list) => (
+          <DropdownMenuCheckboxItem
+            key={list.id}
+            checked={containing.includes(list)}
+            // Keep the menu open to tick several lists
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={() => dispatch(toggleWatchlistToken({ listId: list.id, tokenId }))}
+          >
+            {list.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {lists.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem onSelect={handleCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New list…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
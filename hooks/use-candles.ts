@@ -0,0 +1,30 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Token } from '@/store/tokensSlice';
+import { CandleInterval } from '@/lib/chart-data';
+import { fetchCandles } from '@/lib/api/candles';
+
+interface UseCandlesOptions {
+  interval?: CandleInterval;
+  enabled?: boolean;
+}
+
+/**
+ * OHLCV bars for a token, shared across every chart that renders it
+ *
+ * Query key includes the interval, so PriceChart, MiniChart and table
+ * sparklines asking for the same series hit one cache entry.
+ */
+export function useCandles(
+  token: Pick<Token, 'id' | 'chain' | 'address'> | null,
+  { interval = '1h', enabled = true }: UseCandlesOptions = {}
+) {
+  return useQuery({
+    queryKey: ['candles', token?.id, interval],
+    queryFn: () => fetchCandles(token!, { interval }),
+    enabled: enabled && !!token,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
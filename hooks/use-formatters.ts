@@ -0,0 +1,19 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { selectNumberFormat } from '@/store/settingsSlice';
+import { formatNumber, formatPrice, formatUsd } from '@/lib/utils';
+
+/** The lib/utils number formatters, bound to the trader's format settings */
+export function useFormatters() {
+  const format = useSelector(selectNumberFormat);
+  return useMemo(
+    () => ({
+      formatPrice: (price: number | null) => formatPrice(price, format),
+      formatNumber: (num: number | null) => formatNumber(num, format),
+      formatUsd: (num: number | null) => formatUsd(num, format),
+    }),
+    [format]
+  );
+}
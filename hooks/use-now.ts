@@ -0,0 +1,58 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+interface Clock {
+  now: number;
+  subscribe(listener: () => void): () => void;
+}
+
+const clocks = new Map<number, Clock>();
+
+function createClock(intervalMs: number): Clock {
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const clock: Clock = {
+    now: Date.now(),
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!timer) {
+        clock.now = Date.now();
+        timer = setInterval(() => {
+          clock.now = Date.now();
+          listeners.forEach((notify) => notify());
+        }, intervalMs);
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          clearInterval(timer);
+          timer = undefined;
+        }
+      };
+    },
+  };
+  return clock;
+}
+
+function getClock(intervalMs: number): Clock {
+  let clock = clocks.get(intervalMs);
+  if (!clock) {
+    clock = createClock(intervalMs);
+    clocks.set(intervalMs, clock);
+  }
+  return clock;
+}
+
+/**
+ * Current time in unix milliseconds, re-rendering every `intervalMs`
+ *
+ * Subscribers with the same interval share one timer, so a board full of
+ * cards showing ages costs a single interval. Call it in the smallest
+ * component that displays the time, so a tick re-renders only that leaf.
+ */
+export function useNow(intervalMs = 1000): number {
+  const clock = getClock(intervalMs);
+  return useSyncExternalStore(clock.subscribe, () => clock.now, () => clock.now);
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useDispatch, useSelector, useStore } from 'react-redux';
+import type { UnknownAction } from '@reduxjs/toolkit';
+import { AppDispatch, RootState } from '@/store';
+import { createTabChannel, PersistedValue, TabChannel } from '@/lib/browser-storage';
+
+/** How one piece of user state is saved and shared (see store/persistence.ts) */
+export interface PersistedSync<T> {
+  storage: PersistedValue<T>;
+  /** BroadcastChannel name */
+  channel: string;
+  select: (state: RootState) => T;
+  /** True once `hydrate` has run, so the initial empty state is never saved */
+  selectHydrated: (state: RootState) => boolean;
+  /** Adopt the saved value (null when there is none) or another tab's */
+  hydrate: (value: T | null) => UnknownAction;
+}
+
+/**
+ * Persist a piece of store state and keep it in step across tabs
+ *
+ * Loads the saved value once on mount, then saves every change and
+ * broadcasts it to the other open tabs, which adopt it as is. Mount once
+ * per config, inside the Redux provider (see components/providers.tsx);
+ * `sync` must be a stable (module-level) object.
+ */
+export function usePersistedSync<T>(sync: PersistedSync<T>) {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+  const value = useSelector(sync.select);
+  const hydrated = useSelector(sync.selectHydrated);
+  const channelRef = useRef<TabChannel<T> | null>(null);
+  // The value last loaded, saved or received, so adopted changes are not echoed back
+  const syncedRef = useRef<T | null>(null);
+
+  useEffect(() => {
+    const channel = createTabChannel<T>(sync.channel);
+    channelRef.current = channel;
+
+    dispatch(sync.hydrate(sync.storage.load()));
+    syncedRef.current = sync.select(store.getState());
+
+    const unsubscribe = channel.subscribe((remote) => {
+      dispatch(sync.hydrate(remote));
+      syncedRef.current = sync.select(store.getState());
+    });
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [store, dispatch, sync]);
+
+  useEffect(() => {
+    if (!hydrated || value === syncedRef.current) return;
+    syncedRef.current = value;
+    sync.storage.save(value);
+    channelRef.current?.post(value);
+  }, [value, hydrated, sync]);
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useDispatch } from 'react-redux';
+import { addNewToken, applyTokenUpdates, changeTokenCategory, migrateToken } from '@/store/tokensSlice';
+import { Token, TokenMigration, TokenUpdate } from '@/store/tokensSlice';
+import { CategoryChange } from '@/lib/lifecycle';
+import { createRealtimeClient, PULSE_CHANNEL, RealtimeChannel, RealtimeClient } from '@/lib/realtime/client';
+
+// Singleton connection - shared across all mounts
+let clientInstance: RealtimeClient | null = null;
+let channelInstance: RealtimeChannel | null = null;
+let stopStateLogging: (() => void) | null = null;
+let subscriberCount = 0;
+
+/** Ticks arriving within this window are applied in one dispatch */
+const UPDATE_BATCH_MS = 100;
+
+export interface RealtimeUpdateOptions {
+  /**
+   * Add `token.created` tokens to the store (default true). Off for views
+   * that show one server-sorted page, such as the table.
+   */
+  addCreatedTokens?: boolean;
+}
+
+/**
+ * Subscribe to the pulse channel over the configured realtime transport
+ * (local SSE broker or Pusher, see NEXT_PUBLIC_REALTIME_TRANSPORT) and
+ * apply token lifecycle events to the store
+ */
+export function useRealtimeTokenUpdates({ addCreatedTokens = true }: RealtimeUpdateOptions = {}) {
+  const dispatch = useDispatch();
+  const handlerRef = useRef<((newToken: Token) => void) | null>(null);
+  const updateHandlerRef = useRef<((update: TokenUpdate) => void) | null>(null);
+  const migrateHandlerRef = useRef<((migration: TokenMigration) => void) | null>(null);
+  const categoryHandlerRef = useRef<((change: CategoryChange) => void) | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    // Initialize the connection once
+    if (!clientInstance) {
+      try {
+        clientInstance = createRealtimeClient();
+      } catch (error) {
+        console.error('❌ Realtime transport unavailable:', error);
+        return;
+      }
+
+      console.log(`🔌 Realtime transport: ${clientInstance.name}`);
+      stopStateLogging = clientInstance.onStateChange((state) => {
+        if (state === 'connected') console.log('✅ Realtime connected - listening for token events...');
+        else if (state === 'failed') console.error('❌ Realtime connection failed');
+        else console.log(`🔄 Realtime state: ${state}`);
+      });
+    }
+
+    subscriberCount++;
+    console.log(`📊 Subscriber count: ${subscriberCount}`);
+
+    // Subscribe to channel once (reuse existing subscription)
+    if (!channelInstance) {
+      console.log(`📡 Subscribing to "${PULSE_CHANNEL}" channel...`);
+      channelInstance = clientInstance.subscribe(PULSE_CHANNEL);
+    }
+    const channel = channelInstance;
+
+    // Create token handler for this component
+    const handleNewToken = (newToken: Token) => {
+      if (!isActive || !addCreatedTokens) return; // Unmounted, or this view does not list new tokens
+
+      console.log('🆕 New token received:', newToken.symbol, newToken.name);
+      dispatch(addNewToken(newToken));
+
+      // Optional: show a toast notification
+      if (typeof window !== 'undefined' && 'Notification' in window) {
+        if (Notification.permission === 'granted') {
+          new Notification('🚀 New Token Listed!', {
+            body: `${newToken.symbol} - ${newToken.name}`,
+            icon: newToken.logo || '/favicon.ico',
+          });
+        }
+      }
+    };
+
+    // Apply server-side price ticks (price worker / poller diffs). They
+    // arrive one event per token, so queue them and apply each burst at once
+    let pendingUpdates: TokenUpdate[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const flushUpdates = () => {
+      flushTimer = null;
+      const batch = pendingUpdates;
+      pendingUpdates = [];
+      if (isActive && batch.length > 0) dispatch(applyTokenUpdates(batch));
+    };
+    const handleTokenUpdate = (update: TokenUpdate) => {
+      if (!isActive) return;
+      pendingUpdates.push(update);
+      flushTimer ??= setTimeout(flushUpdates, UPDATE_BATCH_MS);
+    };
+
+    // Bonding curve completed: move the card to the Migrated column
+    const handleTokenMigrated = (migration: TokenMigration) => {
+      if (!isActive) return;
+      console.log('🎓 Token migrated:', migration.id, migration.dex ?? '');
+      dispatch(migrateToken(migration));
+    };
+
+    // Server-side lifecycle transition: the card moves to its new column
+    const handleCategoryChanged = (change: CategoryChange) => {
+      if (!isActive) return;
+      console.log(`🔀 ${change.id}: ${change.from} → ${change.to} (${change.reason})`);
+      dispatch(changeTokenCategory(change));
+    };
+
+    handlerRef.current = handleNewToken;
+    updateHandlerRef.current = handleTokenUpdate;
+    migrateHandlerRef.current = handleTokenMigrated;
+    categoryHandlerRef.current = handleCategoryChanged;
+    channel.bind('token.created', handleNewToken);
+    channel.bind('token.updated', handleTokenUpdate);
+    channel.bind('token.migrated', handleTokenMigrated);
+    channel.bind('token.category_changed', handleCategoryChanged);
+
+    // Cleanup on unmount
+    return () => {
+      isActive = false;
+      if (flushTimer) clearTimeout(flushTimer);
+      subscriberCount--;
+      console.log(`📊 Subscriber count after unmount: ${subscriberCount}`);
+
+      // Unbind this component's handlers
+      if (handlerRef.current) {
+        channel.unbind('token.created', handlerRef.current);
+        handlerRef.current = null;
+      }
+      if (updateHandlerRef.current) {
+        channel.unbind('token.updated', updateHandlerRef.current);
+        updateHandlerRef.current = null;
+      }
+      if (migrateHandlerRef.current) {
+        channel.unbind('token.migrated', migrateHandlerRef.current);
+        migrateHandlerRef.current = null;
+      }
+      if (categoryHandlerRef.current) {
+        channel.unbind('token.category_changed', categoryHandlerRef.current);
+        categoryHandlerRef.current = null;
+      }
+
+      // Only cleanup when last subscriber unmounts
+      if (subscriberCount === 0) {
+        // Wait a bit to see if another component will mount (handles React strict mode & hot reload)
+        setTimeout(() => {
+          if (subscriberCount === 0 && clientInstance) {
+            console.log('🧹 Closing realtime connection (no subscribers left)...');
+            try {
+              clientInstance.unsubscribe(PULSE_CHANNEL);
+              clientInstance.disconnect();
+            } catch (err) {
+              console.error('Error disconnecting:', err);
+            }
+            stopStateLogging?.();
+            stopStateLogging = null;
+            channelInstance = null;
+            clientInstance = null;
+          }
+        }, 100); // 100ms grace period
+      }
+    };
+  }, [dispatch, addCreatedTokens]);
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchSparklines } from '@/lib/api/sparklines';
+
+/**
+ * Sparklines for a page of tokens in one request
+ *
+ * Ids are sorted for the query key, so re-sorting the same rows reuses the
+ * cached response. The previous page's lines stay up while a new one loads.
+ */
+export function useSparklines(ids: string[]) {
+  const sorted = useMemo(() => [...ids].sort(), [ids]);
+  return useQuery({
+    queryKey: ['sparklines', sorted],
+    queryFn: () => fetchSparklines(sorted),
+    enabled: sorted.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
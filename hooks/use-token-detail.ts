@@ -0,0 +1,24 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Token } from '@/store/tokensSlice';
+import { fetchTokenDetail } from '@/lib/api/token-detail';
+
+/**
+ * Metadata for one token (supply, decimals, links...), loaded on demand
+ *
+ * Metadata barely changes, so it stays fresh for five minutes and a
+ * reopened modal renders from cache. Live prices still come from the store.
+ */
+export function useTokenDetail(
+  token: Pick<Token, 'id' | 'chain' | 'address'> | null,
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  return useQuery({
+    queryKey: ['token-detail', token?.id],
+    queryFn: () => fetchTokenDetail(token!),
+    enabled: enabled && !!token,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQueries, UseQueryResult } from '@tanstack/react-query';
+import { Token } from '@/store/tokensSlice';
+import { parseTokenKey } from '@/lib/chains';
+import { fetchTokenDetail, TokenDetailResponse } from '@/lib/api/token-detail';
+
+export interface WatchlistTokens {
+  /** Watchlist tokens fetched because the listing does not include them */
+  tokens: Token[];
+  /** Ids no source could return */
+  unavailable: number;
+}
+
+/** Stable so useQueries keeps the combined result between renders */
+function combine(results: UseQueryResult<TokenDetailResponse>[]): WatchlistTokens {
+  return {
+    tokens: results.flatMap((result) => (result.data ? [result.data.token] : [])),
+    unavailable: results.filter((result) => result.isError).length,
+  };
+}
+
+/**
+ * Load the watchlist tokens a listing is missing (Pulse pairs, DEX pairs,
+ * anything outside the top page) from /api/tokens/:chain/:address
+ *
+ * Shares the detail modal's cache (useTokenDetail), so opening one of these
+ * tokens costs no extra request. Refetched on the listing's interval.
+ */
+export function useWatchlistTokens(
+  ids: string[],
+  listed: Token[] | undefined,
+  refetchInterval: number | false
+): WatchlistTokens {
+  const missing = useMemo(() => {
+    const listedIds = new Set(listed?.map((token) => token.id));
+    return ids.flatMap((id) => {
+      const key = parseTokenKey(id);
+      return key && !listedIds.has(id) ? [{ id, ...key }] : [];
+    });
+  }, [ids, listed]);
+
+  return useQueries({
+    queries: missing.map((token) => ({
+      queryKey: ['token-detail', token.id],
+      queryFn: () => fetchTokenDetail(token),
+      refetchInterval,
+      retry: 1,
+    })),
+    combine,
+  });
+}
@@ -0,0 +1,33 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, CandleInterval } from '@/lib/chart-data';
+
+/**
+ * Client-side candle fetching via /api/tokens/:chain/:address/candles
+ */
+
+export interface CandleQuery {
+  interval: CandleInterval;
+  /** Range start, unix seconds (server default: 96 bars back) */
+  from?: number;
+  /** Range end, unix seconds (server default: now) */
+  to?: number;
+}
+
+export async function fetchCandles(
+  token: Pick<Token, 'chain' | 'address'>,
+  { interval, from, to }: CandleQuery
+): Promise<Candle[]> {
+  const params = new URLSearchParams({ interval });
+  if (from !== undefined) params.set('from', String(from));
+  if (to !== undefined) params.set('to', String(to));
+
+  const response = await fetch(
+    `/api/tokens/${token.chain}/${encodeURIComponent(token.address)}/candles?${params}`
+  );
+  if (!response.ok) {
+    throw new Error(`Candles API returned ${response.status}`);
+  }
+
+  const data: { candles: Candle[] } = await response.json();
+  return data.candles;
+}
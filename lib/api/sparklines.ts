@@ -0,0 +1,19 @@
+/**
+ * Client-side sparkline fetching via /api/tokens/sparklines
+ */
+
+/** Hourly closes per token id, oldest first; empty when nothing is recorded */
+export type Sparklines = Record<string, number[]>;
+
+export async function fetchSparklines(ids: string[]): Promise<Sparklines> {
+  if (ids.length === 0) return {};
+
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  const response = await fetch(`/api/tokens/sparklines?${params}`);
+  if (!response.ok) {
+    throw new Error(`Sparklines API returned ${response.status}`);
+  }
+
+  const data: { sparklines: Sparklines } = await response.json();
+  return data.sparklines;
+}
@@ -0,0 +1,21 @@
+import { Token } from '@/store/tokensSlice';
+import { TokenMetadata } from '@/lib/normalize';
+
+/**
+ * Client-side token detail fetching via /api/tokens/:chain/:address
+ */
+
+export interface TokenDetailResponse {
+  token: Token;
+  metadata: TokenMetadata;
+  /** When the server fetched the detail, unix milliseconds */
+  asOf: number;
+}
+
+export async function fetchTokenDetail(token: Pick<Token, 'chain' | 'address'>): Promise<TokenDetailResponse> {
+  const response = await fetch(`/api/tokens/${token.chain}/${encodeURIComponent(token.address)}`);
+  if (!response.ok) {
+    throw new Error(`Token detail API returned ${response.status}`);
+  }
+  return response.json();
+}
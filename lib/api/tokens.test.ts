@@ -0,0 +1,37 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchTokens } from './tokens';
+
+const realFetch = globalThis.fetch;
+
+/** Answer every request with `status`, or fail like an unreachable server */
+function stubFetch(status: number | 'offline') {
+  globalThis.fetch = async () => {
+    if (status === 'offline') throw new TypeError('fetch failed');
+    return Response.json({ error: 'stub' }, { status });
+  };
+}
+
+describe('fetchTokens', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('falls back to the offline snapshot when the API is unreachable', async () => {
+    stubFetch('offline');
+    const page = await fetchTokens({ limit: 2 });
+    assert.equal(page.freshness.status, 'OFFLINE');
+    assert.equal(page.items.length, 2);
+  });
+
+  it('falls back to the offline snapshot on server errors', async () => {
+    stubFetch(502);
+    const page = await fetchTokens();
+    assert.equal(page.freshness.status, 'OFFLINE');
+  });
+
+  it('surfaces client errors instead of hiding them behind the snapshot', async () => {
+    stubFetch(400);
+    await assert.rejects(fetchTokens({ cursor: 'stale' }), /returned 400/);
+  });
+});
@@ -1,48 +1,89 @@
-import { Token } from '@/store/tokensSlice';
+import { Token, TokenUpdate } from '@/store/tokensSlice';
+import { DEFAULT_CHAINS } from '@/lib/chains';
+import { createFixtureProvider } from '@/lib/providers/fixture';
+import { selectTokens, TokenPage, TokenQueryParams, tokenQuerySchema, toSearchParams } from '@/lib/token-query';
+import { DataFreshness, readFreshness } from '@/lib/cache/freshness';
 
 /**
  * Client-side token fetching
  * Uses Next.js API routes to avoid CORS issues with CoinGecko
  */
 
-// Fallback mock data
-const MOCK_TOKENS: Token[] = [
-  { id: '1', symbol: 'SOL', name: 'Solana', price: 144.32, priceChange24h: 5.23, volume24h: 2450000000, marketCap: 65000000000, liquidity: 1200000000, chain: 'solana', holders: 50000, category: 'migrated', logo: '' },
-  { id: '2', symbol: 'BONK', name: 'Bonk', price: 0.000021, priceChange24h: -3.45, volume24h: 125000000, marketCap: 1500000000, liquidity: 45000000, chain: 'solana', holders: 35000, category: 'final-stretch', logo: '' },
-  { id: '3', symbol: 'JUP', name: 'Jupiter', price: 0.8506, priceChange24h: 12.34, volume24h: 89000000, marketCap: 950000000, liquidity: 32000000, chain: 'solana', holders: 28000, category: 'migrated', logo: '' },
-  { id: '4', symbol: 'WIF', name: 'dogwifhat', price: 2.41, priceChange24h: 8.92, volume24h: 178000000, marketCap: 2200000000, liquidity: 67000000, chain: 'solana', holders: 42000, category: 'new', logo: '' },
-  { id: '5', symbol: 'PYTH', name: 'Pyth Network', price: 0.4069, priceChange24h: -1.23, volume24h: 45000000, marketCap: 580000000, liquidity: 23000000, chain: 'solana', holders: 18000, category: 'migrated', logo: '' },
-];
+// Fallback to the same offline snapshot the server-side fixture provider uses
+const fixtureProvider = createFixtureProvider();
 
-export async function fetchTokens(): Promise<Token[]> {
+export interface FetchedTokenPage extends TokenPage {
+  /** Whether the page is live, a cached copy or the offline snapshot */
+  freshness: DataFreshness;
+}
+
+/**
+ * One page of GET /api/tokens; views pass the filters and sort they render
+ *
+ * Falls back to the offline snapshot only when the API is unreachable or
+ * fails (5xx). A 4xx means the request itself is wrong (bad filters, stale
+ * cursor), so it is thrown for the view to handle.
+ */
+export async function fetchTokens(params: TokenQueryParams = {}): Promise<FetchedTokenPage> {
   console.log('📡 fetchTokens called - using API route to avoid CORS');
+  const search = toSearchParams(params);
   
+  let response: Response | null = null;
   try {
     // Call our Next.js API route (server-side, no CORS issues)
-    const response = await fetch('/api/tokens', {
-      next: { revalidate: 60 } // Cache for 60 seconds
-    });
-    
-    if (response.ok) {
-      const data = await response.json();
-      console.log('✅ Fetched tokens from API:', data.length, 'tokens');
-      return data;
-    } else {
-      console.warn(`⚠️ API returned ${response.status}, using fallback`);
-    }
+    // The server caches listings and reports the copy's age in X-Cache / X-Data-Age
+    response = await fetch(`/api/tokens?${search}`);
   } catch (error) {
     console.error('❌ Error fetching tokens from API:', error);
   }
+
+  if (response?.ok) {
+    const page: TokenPage = await response.json();
+    console.log('✅ Fetched tokens from API:', page.items.length, 'tokens');
+    return { ...page, freshness: readFreshness(response.headers) };
+  }
+  if (response && response.status < 500) {
+    throw new Error(`Tokens API returned ${response.status}`);
+  }
+  if (response) {
+    console.warn(`⚠️ API returned ${response.status}, using fallback`);
+  }
   
-  // Fallback to mock data
-  console.log('⚠️ Using mock data fallback');
-  return MOCK_TOKENS;
+  // Fallback to fixture data, filtered and sorted like the API would (single
+  // page), and flagged so views can say the prices are not live
+  const parsed = tokenQuerySchema.safeParse(Object.fromEntries(search));
+  const query = parsed.success ? parsed.data : tokenQuerySchema.parse({});
+  const listed = await Promise.all((query.chain ?? DEFAULT_CHAINS).map((chain) => fixtureProvider.fetchTokens({ chain })));
+  const tokens = selectTokens(listed.flat(), query);
+  return {
+    items: tokens.slice(0, query.limit),
+    nextCursor: null,
+    asOf: Date.now(),
+    freshness: { status: 'OFFLINE', ageSeconds: null },
+  };
 }
 
-export function simulatePriceUpdate(token: Token): { price: number; priceChange24h: number } {
+/**
+ * Demo mode: perturb prices client-side every few seconds instead of waiting
+ * for `token.updated` events. Enable with NEXT_PUBLIC_DEMO_MODE=true.
+ */
+export const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
+
+/** One simulated tick per quoted token, for a single applyTokenUpdates dispatch */
+export function simulateTokenUpdates(tokens: Token[], updatedAt = Date.now()): TokenUpdate[] {
+  return tokens.flatMap((token) => {
+    const update = simulatePriceUpdate(token);
+    return update ? [{ id: token.id, ...update, source: 'simulation', updatedAt }] : [];
+  });
+}
+
+export function simulatePriceUpdate(token: Token): { price: number; priceChange24h: number } | null {
+  // Nothing to perturb until the token has a quote
+  if (token.price === null) return null;
+
   const priceChange = (Math.random() - 0.5) * 0.02;
   const newPrice = token.price * (1 + priceChange);
-  const newPriceChange24h = token.priceChange24h + (Math.random() - 0.5) * 0.5;
+  const newPriceChange24h = (token.priceChange24h ?? 0) + (Math.random() - 0.5) * 0.5;
   
   return { 
     price: newPrice, 
@@ -0,0 +1,35 @@
+/**
+ * Bonding-curve progress and the Pulse categories it drives
+ *
+ * Launchpad tokens trade on a bonding curve until their market cap reaches
+ * the graduation threshold, then migrate to an AMM pool. Progress is the
+ * percentage of that path covered: taken from the source when it reports
+ * one, otherwise estimated from market cap against
+ * BONDING_CURVE_GRADUATION_USD (default $69k, pump.fun's threshold).
+ */
+
+/** The Pulse columns; lib/lifecycle adds the off-board states */
+export type CurveCategory = 'new' | 'final-stretch' | 'migrated';
+
+export const GRADUATION_MARKET_CAP_USD = Number(process.env.BONDING_CURVE_GRADUATION_USD) || 69_000;
+
+/** Progress (percent) from which a token is in the Final Stretch */
+export const FINAL_STRETCH_PROGRESS = 70;
+
+/** DEXScreener dex ids of bonding-curve launchpads; pairs on any other dex already trade on an AMM */
+export const LAUNCHPAD_DEX_IDS = new Set(['pumpfun', 'moonshot', 'launchlab']);
+
+/** Percent of graduation market cap, capped at 100; null without a market cap */
+export function estimateCurveProgress(
+  marketCap: number | null,
+  graduationMarketCap = GRADUATION_MARKET_CAP_USD
+): number | null {
+  if (marketCap === null) return null;
+  return Math.min(100, (marketCap / graduationMarketCap) * 100);
+}
+
+/** Tokens with unknown progress count as new: nothing says they are near graduation */
+export function categorize(progress: number | null): CurveCategory {
+  if (progress === null || progress < FINAL_STRETCH_PROGRESS) return 'new';
+  return progress >= 100 ? 'migrated' : 'final-stretch';
+}
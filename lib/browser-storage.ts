@@ -0,0 +1,90 @@
+/**
+ * Browser persistence for user state (favorites and the like)
+ *
+ * Values are stored in localStorage under a key with a version envelope,
+ * `{ version, value }`. Older versions are upgraded through `migrations`;
+ * a version with no migration path, or a value `parse` rejects, reads as
+ * absent rather than crashing the app. Tab channels carry changes to the
+ * other open tabs of the same origin.
+ *
+ * Everything here is a no-op on the server and in browsers without the
+ * underlying API (private modes can throw on storage access).
+ */
+
+export interface PersistedValue<T> {
+  /** The stored value (migrated), or null when missing, unknown or invalid */
+  load(): T | null;
+  save(value: T): void;
+}
+
+interface PersistedValueOptions<T> {
+  key: string;
+  version: number;
+  /** Validate the stored value; return null to reject it */
+  parse: (value: unknown) => T | null;
+  /** Upgrade steps keyed by the version they migrate from (n to n + 1) */
+  migrations?: Record<number, (value: unknown) => unknown>;
+}
+
+export function createPersistedValue<T>({ key, version, parse, migrations = {} }: PersistedValueOptions<T>): PersistedValue<T> {
+  return {
+    load() {
+      if (typeof window === 'undefined') return null;
+      try {
+        const raw = window.localStorage.getItem(key);
+        if (raw === null) return null;
+        const stored = JSON.parse(raw) as { version?: unknown; value?: unknown };
+        if (typeof stored.version !== 'number' || stored.version > version) return null;
+
+        let value = stored.value;
+        for (let from = stored.version; from < version; from++) {
+          const migrate = migrations[from];
+          if (!migrate) return null;
+          value = migrate(value);
+        }
+        return parse(value);
+      } catch (error) {
+        console.warn(`⚠️ Ignoring unreadable ${key} in localStorage:`, error);
+        return null;
+      }
+    },
+
+    save(value) {
+      if (typeof window === 'undefined') return;
+      try {
+        window.localStorage.setItem(key, JSON.stringify({ version, value }));
+      } catch (error) {
+        console.warn(`⚠️ Failed to save ${key} to localStorage:`, error);
+      }
+    },
+  };
+}
+
+export interface TabChannel<T> {
+  /** Send to every other tab; this tab does not receive its own messages */
+  post(message: T): void;
+  /** Returns an unsubscribe function */
+  subscribe(listener: (message: T) => void): () => void;
+  close(): void;
+}
+
+export function createTabChannel<T>(name: string): TabChannel<T> {
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(name);
+
+  return {
+    post(message) {
+      channel?.postMessage(message);
+    },
+
+    subscribe(listener) {
+      if (!channel) return () => {};
+      const handler = (event: MessageEvent<T>) => listener(event.data);
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+
+    close() {
+      channel?.close();
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Response freshness, as reported by cached API routes
+ *
+ * Routes served through lib/cache/response-cache.ts send
+ *
+ *   X-Cache: HIT | MISS | STALE
+ *   X-Data-Age: <seconds since the upstream fetch>
+ *
+ * so clients can tell live data from a cached copy served while upstream
+ * sources are slow, failing or over budget. Safe to import in the browser.
+ */
+
+/**
+ * HIT   within the freshness window
+ * MISS  fetched from upstream for this request
+ * STALE past the freshness window: revalidating, or upstream failed
+ */
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface DataFreshness {
+  /** OFFLINE: the API was unreachable and the client fell back to its bundled snapshot */
+  status: CacheStatus | 'OFFLINE';
+  /** Seconds since the data was fetched upstream; null when unknown */
+  ageSeconds: number | null;
+}
+
+export function cacheHeaders(status: CacheStatus, fetchedAt: number, now = Date.now()): Record<string, string> {
+  return {
+    'X-Cache': status,
+    'X-Data-Age': String(Math.max(0, Math.floor((now - fetchedAt) / 1000))),
+  };
+}
+
+/** Freshness from a response's headers; uncached routes count as live */
+export function readFreshness(headers: Headers): DataFreshness {
+  const status = headers.get('X-Cache');
+  const age = Number(headers.get('X-Data-Age'));
+  return {
+    status: status === 'HIT' || status === 'STALE' ? status : 'MISS',
+    ageSeconds: headers.has('X-Data-Age') && Number.isFinite(age) ? age : null,
+  };
+}
+
+/** Live data (HIT or MISS) needs no warning */
+export function isDegraded(freshness: DataFreshness): boolean {
+  return freshness.status === 'STALE' || freshness.status === 'OFFLINE';
+}
+
+const SEVERITY: Record<DataFreshness['status'], number> = { HIT: 0, MISS: 0, STALE: 1, OFFLINE: 2 };
+
+/** The least fresh of several responses (e.g. one per Pulse column) */
+export function worstFreshness(list: DataFreshness[]): DataFreshness {
+  return list.reduce<DataFreshness>(
+    (worst, next) => {
+      if (SEVERITY[next.status] !== SEVERITY[worst.status]) {
+        return SEVERITY[next.status] > SEVERITY[worst.status] ? next : worst;
+      }
+      return (next.ageSeconds ?? 0) > (worst.ageSeconds ?? 0) ? next : worst;
+    },
+    { status: 'MISS', ageSeconds: 0 }
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createResponseCache } from './response-cache';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A loader returning 1, 2, 3, ... and counting its calls */
+function counter() {
+  const load = async () => ++load.calls;
+  load.calls = 0;
+  return load;
+}
+
+const cacheFor = (freshMs: number, staleMs: number) =>
+  createResponseCache<number>({ name: 'test', freshMs, staleMs, persistDir: null });
+
+describe('createResponseCache', () => {
+  it('loads on a miss and serves hits from cache', async () => {
+    const cache = cacheFor(60_000, 60_000);
+    const load = counter();
+
+    const miss = await cache.get('k', load);
+    assert.deepEqual([miss.value, miss.status], [1, 'MISS']);
+    assert.equal((await cache.get('k', load)).status, 'HIT');
+    assert.equal(load.calls, 1);
+  });
+
+  it('shares one load between concurrent misses', async () => {
+    const cache = cacheFor(60_000, 60_000);
+    const load = counter();
+
+    const results = await Promise.all([cache.get('k', load), cache.get('k', load)]);
+    assert.deepEqual(results.map((r) => r.value), [1, 1]);
+    assert.equal(load.calls, 1);
+  });
+
+  it('serves stale values while revalidating in the background', async () => {
+    const cache = cacheFor(20, 60_000);
+    const load = counter();
+    await cache.get('k', load);
+    await sleep(30);
+
+    const stale = await cache.get('k', load);
+    assert.deepEqual([stale.value, stale.status], [1, 'STALE']);
+
+    await sleep(0);
+    const fresh = await cache.get('k', load);
+    assert.deepEqual([fresh.value, fresh.status], [2, 'HIT']);
+  });
+
+  it('waits for a new value once past the stale window', async () => {
+    const cache = cacheFor(10, 10);
+    const load = counter();
+    await cache.get('k', load);
+    await sleep(30);
+
+    const result = await cache.get('k', load);
+    assert.deepEqual([result.value, result.status], [2, 'MISS']);
+  });
+
+  it('serves an expired copy when the load fails, and throws when cold', async () => {
+    const cache = cacheFor(10, 10);
+    await cache.get('k', async () => 1);
+    await sleep(30);
+
+    const failing = async (): Promise<number> => {
+      throw new Error('upstream down');
+    };
+    const result = await cache.get('k', failing);
+    assert.deepEqual([result.value, result.status], [1, 'STALE']);
+    await assert.rejects(cache.get('cold', failing), /upstream down/);
+  });
+
+  it('evicts the oldest entries past maxEntries', async () => {
+    const cache = createResponseCache<number>({ name: 'test', freshMs: 60_000, staleMs: 0, maxEntries: 2, persistDir: null });
+    const load = counter();
+    for (const key of ['a', 'b', 'c']) await cache.get(key, load);
+
+    assert.equal(cache.size, 2);
+    assert.equal((await cache.get('a', load)).status, 'MISS');
+  });
+});
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheStatus } from './freshness';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Server-side cache for upstream responses, with stale-while-revalidate
+ *
+ *   age < fresh           HIT    served from cache
+ *   age < fresh + stale   STALE  served from cache, refreshed in the background
+ *   older, or no entry    MISS   loaded before responding
+ *
+ * When a load fails, any cached copy (whatever its age) is served as STALE
+ * instead of an error; only a cold cache propagates the failure. Concurrent
+ * requests for one key share a single load.
+ *
+ * With RESPONSE_CACHE_DIR set, entries are also written to
+ * `<dir>/<name>.json` and reloaded on start, so a restart does not send
+ * every route upstream at once.
+ */
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  /** When the value was fetched upstream, unix milliseconds */
+  fetchedAt: number;
+}
+
+export interface ResponseCacheOptions<T> {
+  /** Namespace for logs and the persistence file */
+  name: string;
+  /** How long a value is served without revalidating; may depend on the value */
+  freshMs: number | ((value: T) => number);
+  /** How long past freshness a value is still served while revalidating */
+  staleMs: number;
+  maxEntries?: number;
+  /** Persistence directory (default RESPONSE_CACHE_DIR); null keeps the cache in memory */
+  persistDir?: string | null;
+}
+
+export interface ResponseCache<T> {
+  readonly size: number;
+  get(key: string, load: () => Promise<T>): Promise<CacheResult<T>>;
+}
+
+interface Entry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/** Batches disk writes after a burst of loads */
+const PERSIST_DELAY_MS = 1000;
+
+export function createResponseCache<T>({
+  name,
+  freshMs,
+  staleMs,
+  maxEntries = 500,
+  persistDir = process.env.RESPONSE_CACHE_DIR || null,
+}: ResponseCacheOptions<T>): ResponseCache<T> {
+  const entries = new Map<string, Entry<T>>();
+  const inFlight = new Map<string, Promise<Entry<T>>>();
+  const file = persistDir ? path.resolve(persistDir, `${name}.json`) : null;
+  let hydrated: Promise<void> | null = null;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const freshFor = (value: T) => (typeof freshMs === 'function' ? freshMs(value) : freshMs);
+
+  function hydrate(): Promise<void> {
+    if (!file) return Promise.resolve();
+    hydrated ??= fs.readFile(file, 'utf8').then(
+      (text) => {
+        const saved = JSON.parse(text) as Record<string, Entry<T>>;
+        for (const [key, entry] of Object.entries(saved)) {
+          if (!entries.has(key)) entries.set(key, entry);
+        }
+      },
+      (error) => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`⚠️ [cache:${name}] Ignoring unreadable ${file}:`, error);
+        }
+      }
+    );
+    return hydrated;
+  }
+
+  function schedulePersist() {
+    if (!file || persistTimer) return;
+    persistTimer = setTimeout(async () => {
+      persistTimer = null;
+      try {
+        // Write-then-rename so a crash never leaves a torn file
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(`${file}.tmp`, JSON.stringify(Object.fromEntries(entries)));
+        await fs.rename(`${file}.tmp`, file);
+      } catch (error) {
+        console.warn(`⚠️ [cache:${name}] Failed to persist:`, error);
+      }
+    }, PERSIST_DELAY_MS);
+    persistTimer.unref?.();
+  }
+
+  function store(key: string, entry: Entry<T>) {
+    // Re-insert so Map order stays oldest-first for eviction
+    entries.delete(key);
+    entries.set(key, entry);
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries) break;
+      entries.delete(oldest);
+    }
+    schedulePersist();
+  }
+
+  function refresh(key: string, load: () => Promise<T>): Promise<Entry<T>> {
+    let pending = inFlight.get(key);
+    if (!pending) {
+      pending = load()
+        .then((value) => {
+          const entry = { value, fetchedAt: Date.now() };
+          store(key, entry);
+          return entry;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  return {
+    get size() {
+      return entries.size;
+    },
+
+    async get(key, load) {
+      await hydrate();
+      const cached = entries.get(key);
+      const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+      if (cached && age < freshFor(cached.value)) {
+        return { ...cached, status: 'HIT' };
+      }
+      if (cached && age < freshFor(cached.value) + staleMs) {
+        refresh(key, load).catch((error) => {
+          console.warn(`⚠️ [cache:${name}] Background refresh of ${key} failed:`, error);
+        });
+        return { ...cached, status: 'STALE' };
+      }
+
+      try {
+        return { ...(await refresh(key, load)), status: 'MISS' };
+      } catch (error) {
+        if (!cached) throw error;
+        console.warn(`⚠️ [cache:${name}] Serving ${key} from cache after upstream failure:`, error);
+        return { ...cached, status: 'STALE' };
+      }
+    },
+  };
+}
+
+/** The process-wide cache called `options.name`, created on first use */
+export function getResponseCache<T>(options: ResponseCacheOptions<T>): ResponseCache<T> {
+  return globalSingleton(`responseCache:${options.name}`, () => createResponseCache(options));
+}
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isChainId, parseTokenKey, resolveChain, tokenExplorerUrl, tokenKey } from './chains';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('chain registry', () => {
+  it('only accepts its own chain ids', () => {
+    assert.equal(isChainId('solana'), true);
+    assert.equal(isChainId('constructor'), false);
+    assert.equal(isChainId('toString'), false);
+  });
+
+  it('round-trips token keys and rejects unknown chains', () => {
+    assert.deepEqual(parseTokenKey(tokenKey('solana', BONK)), { chain: 'solana', address: BONK });
+    assert.equal(parseTokenKey('constructor:x'), null);
+    assert.equal(parseTokenKey(BONK), null);
+  });
+
+  it('resolves source ids and aliases', () => {
+    assert.equal(resolveChain('Solana'), 'solana');
+    assert.equal(resolveChain('binance-smart-chain'), 'bsc');
+    assert.equal(resolveChain('evm:8453'), 'base');
+    assert.equal(resolveChain('__proto__'), null);
+  });
+
+  it('links to the token page only when the mint is known', () => {
+    assert.equal(tokenExplorerUrl('solana', BONK), `https://solscan.io/account/${BONK}`);
+    assert.equal(tokenExplorerUrl('solana', 'pair', BONK), `https://solscan.io/token/${BONK}`);
+  });
+});
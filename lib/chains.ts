@@ -0,0 +1,199 @@
+/**
+ * Chain registry
+ *
+ * Every chain the app understands, with its native asset, block explorer
+ * URL templates, address format and the ids upstream sources use for it.
+ * Tokens are identified by `chain:address` (see tokenKey), so the same
+ * address on two chains never collides.
+ */
+
+export type ChainId = 'solana' | 'ethereum' | 'base' | 'bsc' | 'arbitrum';
+
+/** base58 public keys (Solana) or 0x-prefixed hex (EVM) */
+export type AddressFormat = 'base58' | 'evm';
+
+/** Upstream sources that name chains their own way */
+export type ChainSource = 'dexscreener' | 'geckoterminal' | 'coingecko' | 'mobula';
+
+export interface ChainInfo {
+  id: ChainId;
+  name: string;
+  nativeAsset: { symbol: string; name: string; decimals: number };
+  addressFormat: AddressFormat;
+  /** URL templates; `{address}` / `{hash}` are substituted */
+  explorer: { name: string; address: string; token: string; tx: string };
+  /** This chain's id in each upstream API */
+  sourceIds: Record<ChainSource, string>;
+  /** Other spellings accepted on input (webhooks, CLI flags) */
+  aliases: string[];
+}
+
+export const CHAINS: Record<ChainId, ChainInfo> = {
+  solana: {
+    id: 'solana',
+    name: 'Solana',
+    nativeAsset: { symbol: 'SOL', name: 'Solana', decimals: 9 },
+    addressFormat: 'base58',
+    explorer: {
+      name: 'Solscan',
+      address: 'https://solscan.io/account/{address}',
+      token: 'https://solscan.io/token/{address}',
+      tx: 'https://solscan.io/tx/{hash}',
+    },
+    sourceIds: { dexscreener: 'solana', geckoterminal: 'solana', coingecko: 'solana', mobula: 'Solana' },
+    aliases: ['sol', 'solana:solana'],
+  },
+  ethereum: {
+    id: 'ethereum',
+    name: 'Ethereum',
+    nativeAsset: { symbol: 'ETH', name: 'Ether', decimals: 18 },
+    addressFormat: 'evm',
+    explorer: {
+      name: 'Etherscan',
+      address: 'https://etherscan.io/address/{address}',
+      token: 'https://etherscan.io/token/{address}',
+      tx: 'https://etherscan.io/tx/{hash}',
+    },
+    sourceIds: { dexscreener: 'ethereum', geckoterminal: 'eth', coingecko: 'ethereum', mobula: 'Ethereum' },
+    aliases: ['eth', 'evm:1'],
+  },
+  base: {
+    id: 'base',
+    name: 'Base',
+    nativeAsset: { symbol: 'ETH', name: 'Ether', decimals: 18 },
+    addressFormat: 'evm',
+    explorer: {
+      name: 'BaseScan',
+      address: 'https://basescan.org/address/{address}',
+      token: 'https://basescan.org/token/{address}',
+      tx: 'https://basescan.org/tx/{hash}',
+    },
+    sourceIds: { dexscreener: 'base', geckoterminal: 'base', coingecko: 'base', mobula: 'Base' },
+    aliases: ['evm:8453'],
+  },
+  bsc: {
+    id: 'bsc',
+    name: 'BNB Smart Chain',
+    nativeAsset: { symbol: 'BNB', name: 'BNB', decimals: 18 },
+    addressFormat: 'evm',
+    explorer: {
+      name: 'BscScan',
+      address: 'https://bscscan.com/address/{address}',
+      token: 'https://bscscan.com/token/{address}',
+      tx: 'https://bscscan.com/tx/{hash}',
+    },
+    sourceIds: {
+      dexscreener: 'bsc',
+      geckoterminal: 'bsc',
+      coingecko: 'binance-smart-chain',
+      mobula: 'BNB Smart Chain (BEP20)',
+    },
+    aliases: ['bnb', 'evm:56'],
+  },
+  arbitrum: {
+    id: 'arbitrum',
+    name: 'Arbitrum',
+    nativeAsset: { symbol: 'ETH', name: 'Ether', decimals: 18 },
+    addressFormat: 'evm',
+    explorer: {
+      name: 'Arbiscan',
+      address: 'https://arbiscan.io/address/{address}',
+      token: 'https://arbiscan.io/token/{address}',
+      tx: 'https://arbiscan.io/tx/{hash}',
+    },
+    sourceIds: { dexscreener: 'arbitrum', geckoterminal: 'arbitrum', coingecko: 'arbitrum-one', mobula: 'Arbitrum' },
+    aliases: ['arbitrum one', 'evm:42161'],
+  },
+};
+
+export const CHAIN_IDS = Object.keys(CHAINS) as ChainId[];
+
+/** Chains polled and listed when nothing else is configured */
+export const DEFAULT_CHAINS: ChainId[] = ['solana'];
+
+const ADDRESS_PATTERNS: Record<AddressFormat, RegExp> = {
+  base58: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+  // 20-byte accounts, or 32-byte pool ids (Uniswap v4)
+  evm: /^0x(?:[0-9a-fA-F]{40}|[0-9a-fA-F]{64})$/,
+};
+
+/** Lowercased id, source id or alias -> chain */
+const CHAIN_LOOKUP = new Map<string, ChainId>(
+  CHAIN_IDS.flatMap((id) => {
+    const chain = CHAINS[id];
+    return [id, ...Object.values(chain.sourceIds), ...chain.aliases].map(
+      (name) => [name.toLowerCase(), id] as [string, ChainId]
+    );
+  })
+);
+
+export function isChainId(value: string): value is ChainId {
+  return Object.hasOwn(CHAINS, value);
+}
+
+/** Resolve any known spelling ("eth", "Solana", "binance-smart-chain") to a chain id */
+export function resolveChain(value: string | null | undefined): ChainId | null {
+  if (!value) return null;
+  return CHAIN_LOOKUP.get(value.trim().toLowerCase()) ?? null;
+}
+
+export function getChain(id: ChainId): ChainInfo {
+  return CHAINS[id];
+}
+
+/**
+ * Parse a comma-separated chain list such as "solana,base"
+ *
+ * @throws Error naming every entry that is not a known chain
+ */
+export function parseChainList(spec: string): ChainId[] {
+  const names = spec.split(',').map((s) => s.trim()).filter(Boolean);
+  const unknown = names.filter((n) => !resolveChain(n));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown chain(s): ${unknown.join(', ')} (known: ${CHAIN_IDS.join(', ')})`);
+  }
+  return [...new Set(names.map((n) => resolveChain(n)!))];
+}
+
+export function isValidAddress(chain: ChainId, address: string): boolean {
+  return ADDRESS_PATTERNS[CHAINS[chain].addressFormat].test(address);
+}
+
+/** Canonical spelling: EVM hex is case-insensitive, base58 is not */
+export function normalizeAddress(chain: ChainId, address: string): string {
+  const trimmed = address.trim();
+  return CHAINS[chain].addressFormat === 'evm' ? trimmed.toLowerCase() : trimmed;
+}
+
+/** Stable token identity, e.g. "solana:DezXAZ8z7Pnr..." or "base:0xabc..." */
+export function tokenKey(chain: ChainId, address: string): string {
+  return `${chain}:${normalizeAddress(chain, address)}`;
+}
+
+/** Split a token key back into chain and address; null when malformed */
+export function parseTokenKey(key: string): { chain: ChainId; address: string } | null {
+  const separator = key.indexOf(':');
+  if (separator <= 0) return null;
+
+  const chain = key.slice(0, separator);
+  const address = key.slice(separator + 1);
+  if (!isChainId(chain) || !address) return null;
+  return { chain, address };
+}
+
+/** Block explorer link for an account, token or transaction hash */
+export function explorerUrl(chain: ChainId, kind: 'address' | 'token' | 'tx', value: string): string {
+  const template = CHAINS[chain].explorer[kind];
+  return template.replace(kind === 'tx' ? '{hash}' : '{address}', encodeURIComponent(value));
+}
+
+/**
+ * Explorer link for a listed token
+ *
+ * DEX-sourced tokens are keyed by pair address, so the token page is used
+ * only when the mint/contract is known (TokenMetadata.tokenAddress);
+ * otherwise the account page, which is right for a pair and a mint alike.
+ */
+export function tokenExplorerUrl(chain: ChainId, address: string, tokenAddress?: string | null): string {
+  return tokenAddress ? explorerUrl(chain, 'token', tokenAddress) : explorerUrl(chain, 'address', address);
+}
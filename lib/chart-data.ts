@@ -1,55 +1,120 @@
-import { Token } from '@/store/tokensSlice';
-
-// Generate mock 24h price data for charts
-export function generateChartData(token: Token): { time: string; value: number }[] {
-  const now = Date.now();
-  const dataPoints = 24; // 24 hours
-  const data: { time: string; value: number }[] = [];
-  
-  const basePrice = token.price;
-  const change = token.priceChange24h / 100; // Convert percentage to decimal
-  const volatility = Math.abs(change) * 0.3; // Volatility factor
-  
-  for (let i = 0; i < dataPoints; i++) {
-    const time = new Date(now - (dataPoints - i) * 60 * 60 * 1000).toISOString().split('T')[0];
-    
-    // Generate price with trend
-    const progress = i / dataPoints;
-    const trendEffect = basePrice * change * progress;
-    const randomWalk = (Math.random() - 0.5) * basePrice * volatility;
-    const value = basePrice - trendEffect + randomWalk;
-    
-    data.push({
-      time,
-      value: Math.max(value, basePrice * 0.8), // Prevent negative prices
-    });
+/**
+ * OHLCV candle types and helpers shared by providers, API routes and charts
+ *
+ * Times are unix seconds (UTC), which is what lightweight-charts expects.
+ */
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+/** Interval length in seconds */
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+export interface Candle {
+  /** Bucket start, unix seconds */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Traded volume in USD for the bucket, null when the source doesn't report it */
+  volume: number | null;
+}
+
+export interface PriceTick {
+  /** Observation time, unix seconds */
+  time: number;
+  price: number;
+  /** Volume traded since the previous tick, if known */
+  volume?: number | null;
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.hasOwn(CANDLE_INTERVALS, value);
+}
+
+/** Start of the bucket containing `time` */
+export function bucketStart(time: number, interval: CandleInterval): number {
+  const seconds = CANDLE_INTERVALS[interval];
+  return Math.floor(time / seconds) * seconds;
+}
+
+function sumVolume(a: number | null, b: number | null | undefined): number | null {
+  if (b == null) return a;
+  return (a ?? 0) + b;
+}
+
+/**
+ * Aggregate raw price observations into OHLCV candles
+ *
+ * @param ticks - Observations in any order
+ * @returns Candles sorted by time, one per non-empty bucket
+ */
+export function ticksToCandles(ticks: PriceTick[], interval: CandleInterval): Candle[] {
+  const buckets = new Map<number, Candle>();
+  const sorted = [...ticks].sort((a, b) => a.time - b.time);
+
+  for (const tick of sorted) {
+    const time = bucketStart(tick.time, interval);
+    const candle = buckets.get(time);
+    if (!candle) {
+      buckets.set(time, {
+        time,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: tick.volume ?? null,
+      });
+    } else {
+      candle.high = Math.max(candle.high, tick.price);
+      candle.low = Math.min(candle.low, tick.price);
+      candle.close = tick.price;
+      candle.volume = sumVolume(candle.volume, tick.volume);
+    }
   }
-  
-  return data;
-}
-
-// Generate longer historical data for detail view
-export function generateHistoricalData(token: Token, days: number = 30): { time: string; value: number }[] {
-  const now = Date.now();
-  const data: { time: string; value: number }[] = [];
-  
-  const basePrice = token.price;
-  const change = token.priceChange24h / 100;
-  const volatility = Math.abs(change) * 0.5;
-  
-  for (let i = 0; i < days; i++) {
-    const time = new Date(now - (days - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    
-    const progress = i / days;
-    const trendEffect = basePrice * change * progress;
-    const randomWalk = (Math.random() - 0.5) * basePrice * volatility;
-    const value = basePrice - trendEffect + randomWalk;
-    
-    data.push({
-      time,
-      value: Math.max(value, basePrice * 0.5),
-    });
+
+  return [...buckets.values()];
+}
+
+/**
+ * Merge candles into a coarser interval
+ *
+ * Candles already at or above the target interval pass through unchanged,
+ * so requesting 1m bars from an hourly source returns hourly bars.
+ */
+export function resampleCandles(candles: Candle[], interval: CandleInterval): Candle[] {
+  const buckets = new Map<number, Candle>();
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+
+  for (const c of sorted) {
+    const time = bucketStart(c.time, interval);
+    const candle = buckets.get(time);
+    if (!candle) {
+      buckets.set(time, { ...c, time });
+    } else {
+      candle.high = Math.max(candle.high, c.high);
+      candle.low = Math.min(candle.low, c.low);
+      candle.close = c.close;
+      candle.volume = sumVolume(candle.volume, c.volume);
+    }
   }
-  
-  return data;
+
+  return [...buckets.values()];
+}
+
+/** Keep candles whose bucket starts within [from, to] */
+export function sliceCandles(candles: Candle[], from: number, to: number): Candle[] {
+  return candles.filter((c) => c.time >= from && c.time <= to);
+}
+
+/** Close prices as line/area series points */
+export function candlesToLineData(candles: Candle[]): { time: number; value: number }[] {
+  return candles.map((c) => ({ time: c.time, value: c.close }));
 }
@@ -0,0 +1,47 @@
+import { Token } from '@/store/tokensSlice';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Process-wide record of when each token was first listed
+ *
+ * Listings are re-normalized on every request, which would stamp
+ * `firstSeenAt` with the request time; this keeps the earliest sighting so
+ * tokens without an on-chain creation time still age consistently across
+ * refreshes and clients. Oldest entries are dropped past `maxEntries`.
+ */
+export interface FirstSeenRegistry {
+  readonly size: number;
+  /** Tokens with `firstSeenAt` replaced by the earliest recorded sighting */
+  apply(tokens: Token[]): Token[];
+}
+
+export function createFirstSeenRegistry(maxEntries = 10_000): FirstSeenRegistry {
+  const firstSeen = new Map<string, number>();
+
+  return {
+    get size() {
+      return firstSeen.size;
+    },
+
+    apply(tokens) {
+      const result = tokens.map((token) => {
+        const seen = firstSeen.get(token.id);
+        if (seen !== undefined && seen <= token.firstSeenAt) return { ...token, firstSeenAt: seen };
+        firstSeen.set(token.id, token.firstSeenAt);
+        return token;
+      });
+
+      // Map iteration is insertion order, so the first keys are the oldest sightings
+      for (const id of firstSeen.keys()) {
+        if (firstSeen.size <= maxEntries) break;
+        firstSeen.delete(id);
+      }
+      return result;
+    },
+  };
+}
+
+/** One registry per server process */
+export function getFirstSeenRegistry(): FirstSeenRegistry {
+  return globalSingleton('firstSeenRegistry', () => createFirstSeenRegistry());
+}
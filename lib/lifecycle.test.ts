@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GRADUATION_MARKET_CAP_USD } from '@/lib/bonding-curve';
+import { normalizeToken, RawToken } from '@/lib/normalize';
+import { TokenUpdate } from '@/store/tokensSlice';
+import { canTransition, createLifecycleTracker } from './lifecycle';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const ID = `solana:${BONK}`;
+const T0 = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function token(overrides: Partial<RawToken> = {}) {
+  return normalizeToken({ chain: 'solana', address: BONK, source: 'test', observedAt: T0, ...overrides });
+}
+
+function update(fields: Partial<TokenUpdate>): TokenUpdate {
+  return { id: ID, price: 0.00001, source: 'test', updatedAt: T0, ...fields };
+}
+
+/** Market cap at which the estimated curve progress is `percent` */
+const capAt = (percent: number) => (GRADUATION_MARKET_CAP_USD * percent) / 100;
+
+describe('createLifecycleTracker', () => {
+  it('starts tokens in their listed category without reporting a change', () => {
+    const tracker = createLifecycleTracker();
+    assert.deepEqual(tracker.observeTokens([token({ marketCap: capAt(80) })], T0), []);
+    assert.equal(tracker.get(ID), 'final-stretch');
+  });
+
+  it('holds Final Stretch within the hysteresis band', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ marketCap: capAt(40) })], T0);
+
+    const [up] = tracker.observeUpdates([update({ marketCap: capAt(75) })], T0);
+    assert.deepEqual([up.from, up.to], ['new', 'final-stretch']);
+
+    assert.deepEqual(tracker.observeUpdates([update({ marketCap: capAt(65) })], T0), []);
+    assert.equal(tracker.get(ID), 'final-stretch');
+
+    const [down] = tracker.observeUpdates([update({ marketCap: capAt(55) })], T0);
+    assert.deepEqual([down.from, down.to], ['final-stretch', 'new']);
+  });
+
+  it('only moves reported progress on a new snapshot, not on market cap updates', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ bondingCurveProgress: 20, marketCap: capAt(20) })], T0);
+    assert.deepEqual(tracker.observeUpdates([update({ marketCap: capAt(90) })], T0), []);
+
+    const [change] = tracker.observeTokens([token({ bondingCurveProgress: 90 })], T0);
+    assert.equal(change.to, 'final-stretch');
+  });
+
+  it('migrates on a completed curve and never returns to it', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ marketCap: capAt(90) })], T0);
+
+    const change = tracker.observeMigration({ id: ID, chain: 'solana', migratedAt: T0 + 1_000 });
+    assert.deepEqual(change && [change.from, change.to, change.changedAt], ['final-stretch', 'migrated', T0 + 1_000]);
+
+    assert.deepEqual(tracker.observeUpdates([update({ marketCap: capAt(10) })], T0), []);
+    assert.equal(tracker.get(ID), 'migrated');
+  });
+
+  it('marks a liquidity collapse as a terminal rug', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ marketCap: capAt(30), liquidity: 50_000 })], T0);
+
+    const [change] = tracker.observeUpdates([update({ liquidity: 4_000 })], T0);
+    assert.equal(change.to, 'rugged');
+
+    assert.deepEqual(tracker.observeUpdates([update({ liquidity: 60_000, marketCap: capAt(80) })], T0), []);
+    assert.equal(tracker.get(ID), 'rugged');
+  });
+
+  it('ignores a collapse from a peak too small to be a rug', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ liquidity: 500 })], T0);
+    assert.deepEqual(tracker.observeUpdates([update({ liquidity: 10 })], T0), []);
+  });
+
+  it('marks untraded tokens older than a day dead and revives them on trading', () => {
+    const tracker = createLifecycleTracker();
+    tracker.observeTokens([token({ volume24h: 1_000 })], T0);
+
+    assert.deepEqual(tracker.observeUpdates([update({ volume24h: 0 })], T0 + DAY / 2), []);
+    const [dead] = tracker.observeUpdates([update({ volume24h: 0 })], T0 + 2 * DAY);
+    assert.equal(dead.to, 'dead');
+
+    const [revived] = tracker.observeUpdates([update({ volume24h: 250 })], T0 + 2 * DAY);
+    assert.deepEqual([revived.from, revived.to], ['dead', 'new']);
+  });
+
+  it('ignores updates and migrations for untracked tokens', () => {
+    const tracker = createLifecycleTracker();
+    assert.deepEqual(tracker.observeUpdates([update({ liquidity: 0 })], T0), []);
+    assert.equal(tracker.observeMigration({ id: ID, chain: 'solana', migratedAt: T0 }), null);
+    assert.equal(tracker.size, 0);
+  });
+
+  it('drops the oldest tokens past its capacity', () => {
+    const tracker = createLifecycleTracker(1);
+    tracker.observeTokens([token(), token({ address: '0x0000000000000000000000000000000000000001', chain: 'base' })], T0);
+    assert.equal(tracker.size, 1);
+    assert.equal(tracker.get(ID), undefined);
+  });
+});
+
+describe('canTransition', () => {
+  it('follows the lifecycle graph', () => {
+    assert.equal(canTransition('new', 'final-stretch'), true);
+    assert.equal(canTransition('migrated', 'new'), false);
+    assert.equal(canTransition('dead', 'new'), true);
+    assert.equal(canTransition('rugged', 'new'), false);
+  });
+});
@@ -0,0 +1,210 @@
+import { categorize, CurveCategory, estimateCurveProgress, FINAL_STRETCH_PROGRESS } from '@/lib/bonding-curve';
+import { Token, TokenMigration, TokenUpdate } from '@/store/tokensSlice';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Token lifecycle state machine
+ *
+ *   new ⇄ final-stretch → migrated
+ *
+ * driven by bonding-curve progress, plus two off-board states:
+ *
+ *   dead    no 24h volume on a token older than a day; revives on trading
+ *   rugged  liquidity collapsed from its peak; terminal
+ *
+ * The tracker keeps the last known market data per token, re-evaluates it
+ * on every listing, update and migration, and reports transitions so
+ * publishers can broadcast `token.category_changed`.
+ */
+
+export type LifecycleState = CurveCategory | 'dead' | 'rugged';
+
+/** Payload of `token.category_changed` */
+export interface CategoryChange {
+  id: string;
+  from: LifecycleState;
+  to: LifecycleState;
+  reason: string;
+  /** Unix milliseconds */
+  changedAt: number;
+}
+
+const TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+  new: ['final-stretch', 'migrated', 'dead', 'rugged'],
+  'final-stretch': ['new', 'migrated', 'dead', 'rugged'],
+  migrated: ['dead', 'rugged'],
+  dead: ['new', 'final-stretch', 'migrated', 'rugged'],
+  rugged: [],
+};
+
+/** Progress must fall this far below the Final Stretch line to drop back to New (no flapping) */
+const FINAL_STRETCH_HYSTERESIS = 10;
+
+/** Peak liquidity below which a collapse is noise rather than a rug */
+const RUG_MIN_PEAK_LIQUIDITY_USD = 1_000;
+
+/** Share of peak liquidity that, once pulled, marks a rug */
+const RUG_LIQUIDITY_DROP = 0.9;
+
+/** Age after which a token with no 24h volume is dead */
+const DEAD_AFTER_MS = 24 * 60 * 60 * 1000;
+
+interface TokenState {
+  state: LifecycleState;
+  /** Set once a curve completion or 100% progress was seen; the curve cannot be re-entered */
+  migrated: boolean;
+  progress: number | null;
+  /** Progress derived from market cap, so market cap updates move it */
+  progressEstimated: boolean;
+  liquidity: number | null;
+  peakLiquidity: number;
+  volume24h: number | null;
+  startedAt: number;
+}
+
+export function canTransition(from: LifecycleState, to: LifecycleState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** The state the market data calls for, given the current one */
+function evaluate(current: TokenState, now: number): { state: LifecycleState; reason: string } {
+  const { liquidity, peakLiquidity, progress } = current;
+
+  if (
+    liquidity !== null &&
+    peakLiquidity >= RUG_MIN_PEAK_LIQUIDITY_USD &&
+    liquidity <= peakLiquidity * (1 - RUG_LIQUIDITY_DROP)
+  ) {
+    return { state: 'rugged', reason: `liquidity fell ${Math.round(RUG_LIQUIDITY_DROP * 100)}%+ from its peak` };
+  }
+  if (current.volume24h === 0 && now - current.startedAt > DEAD_AFTER_MS) {
+    return { state: 'dead', reason: 'no trading in 24h' };
+  }
+  if (current.migrated) {
+    return { state: 'migrated', reason: 'bonding curve completed' };
+  }
+
+  const category = categorize(progress);
+  if (
+    current.state === 'final-stretch' &&
+    category === 'new' &&
+    progress !== null &&
+    progress >= FINAL_STRETCH_PROGRESS - FINAL_STRETCH_HYSTERESIS
+  ) {
+    return { state: 'final-stretch', reason: 'within hysteresis band' };
+  }
+  return { state: category, reason: progress === null ? 'no curve progress' : `curve at ${progress.toFixed(1)}%` };
+}
+
+export interface LifecycleTracker {
+  readonly size: number;
+  /** Current state of a tracked token */
+  get(id: string): LifecycleState | undefined;
+  /**
+   * Full snapshots (listings, token.created). A token seen for the first
+   * time starts in its listed category and reports no change.
+   */
+  observeTokens(tokens: Token[], now?: number): CategoryChange[];
+  /** Partial market data for tracked tokens; unknown ids are ignored */
+  observeUpdates(updates: TokenUpdate[], now?: number): CategoryChange[];
+  observeMigration(migration: TokenMigration): CategoryChange | null;
+}
+
+export function createLifecycleTracker(maxEntries = 10_000): LifecycleTracker {
+  const tokens = new Map<string, TokenState>();
+
+  function transition(id: string, current: TokenState, now: number): CategoryChange | null {
+    const next = evaluate(current, now);
+    if (next.state === current.state || !canTransition(current.state, next.state)) return null;
+
+    const change = { id, from: current.state, to: next.state, reason: next.reason, changedAt: now };
+    current.state = next.state;
+    return change;
+  }
+
+  function evictOldest() {
+    // Map iteration is insertion order, so the first keys are the oldest tokens
+    for (const id of tokens.keys()) {
+      if (tokens.size <= maxEntries) break;
+      tokens.delete(id);
+    }
+  }
+
+  return {
+    get size() {
+      return tokens.size;
+    },
+
+    get(id) {
+      return tokens.get(id)?.state;
+    },
+
+    observeTokens(list, now = Date.now()) {
+      const changes: CategoryChange[] = [];
+      for (const token of list) {
+        const progressEstimated = token.provenance.bondingCurveProgress?.source === 'estimate';
+        const existing = tokens.get(token.id);
+        if (!existing) {
+          tokens.set(token.id, {
+            state: token.category ?? categorize(token.bondingCurveProgress),
+            migrated: token.category === 'migrated' || token.bondingCurveProgress === 100,
+            progress: token.bondingCurveProgress,
+            progressEstimated,
+            liquidity: token.liquidity,
+            peakLiquidity: token.liquidity ?? 0,
+            volume24h: token.volume24h,
+            startedAt: token.createdAt ?? token.firstSeenAt,
+          });
+          continue;
+        }
+
+        existing.progress = token.bondingCurveProgress;
+        existing.progressEstimated = progressEstimated;
+        existing.migrated ||= token.bondingCurveProgress === 100;
+        existing.liquidity = token.liquidity;
+        existing.peakLiquidity = Math.max(existing.peakLiquidity, token.liquidity ?? 0);
+        existing.volume24h = token.volume24h;
+        const change = transition(token.id, existing, now);
+        if (change) changes.push(change);
+      }
+      evictOldest();
+      return changes;
+    },
+
+    observeUpdates(updates, now = Date.now()) {
+      const changes: CategoryChange[] = [];
+      for (const update of updates) {
+        const existing = tokens.get(update.id);
+        if (!existing) continue;
+
+        if (update.marketCap !== undefined && existing.progressEstimated) {
+          existing.progress = estimateCurveProgress(update.marketCap);
+          existing.migrated ||= existing.progress === 100;
+        }
+        if (update.liquidity !== undefined) {
+          existing.liquidity = update.liquidity;
+          existing.peakLiquidity = Math.max(existing.peakLiquidity, update.liquidity);
+        }
+        if (update.volume24h !== undefined) existing.volume24h = update.volume24h;
+
+        const change = transition(update.id, existing, now);
+        if (change) changes.push(change);
+      }
+      return changes;
+    },
+
+    observeMigration(migration) {
+      const existing = tokens.get(migration.id);
+      if (!existing) return null;
+
+      existing.migrated = true;
+      existing.progress = 100;
+      return transition(migration.id, existing, migration.migratedAt);
+    },
+  };
+}
+
+/** The Next server's tracker, the only one that publishes transitions (see lib/realtime/server) */
+export function getLifecycleTracker(): LifecycleTracker {
+  return globalSingleton('lifecycleTracker', () => createLifecycleTracker());
+}
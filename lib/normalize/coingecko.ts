@@ -0,0 +1,106 @@
+import { ChainId } from '@/lib/chains';
+import { Token } from '@/store/tokensSlice';
+import { normalizeMetadata, TokenDetail } from './metadata';
+import { normalizeToken } from './token';
+
+// Subset of a CoinGecko /coins/markets entry
+export type CoinGeckoCoin = {
+  id: string;
+  symbol?: string;
+  name?: string;
+  current_price?: number | null;
+  price_change_percentage_24h?: number | null;
+  total_volume?: number | null;
+  market_cap?: number | null;
+  image?: string;
+};
+
+/**
+ * One coin, keyed by the listing's chain and address
+ *
+ * CoinGecko reports no pool liquidity or holder counts, so both are null.
+ */
+export function fromCoinGeckoCoin(coin: CoinGeckoCoin, listing: { chain: ChainId; address: string }): Token {
+  return normalizeToken({
+    chain: listing.chain,
+    address: listing.address,
+    symbol: coin.symbol,
+    name: coin.name,
+    price: coin.current_price,
+    priceChange24h: coin.price_change_percentage_24h,
+    volume24h: coin.total_volume,
+    marketCap: coin.market_cap,
+    logo: coin.image,
+    source: 'coingecko',
+  });
+}
+
+// Subset of a CoinGecko /coins/{id} document
+export type CoinGeckoCoinDetail = {
+  id: string;
+  symbol?: string;
+  name?: string;
+  description?: { en?: string };
+  image?: { small?: string };
+  links?: {
+    homepage?: string[];
+    twitter_screen_name?: string | null;
+    telegram_channel_identifier?: string | null;
+    subreddit_url?: string | null;
+  };
+  /** YYYY-MM-DD */
+  genesis_date?: string | null;
+  /** Keyed by CoinGecko platform id */
+  detail_platforms?: Record<string, { decimal_place?: number | null; contract_address?: string }>;
+  market_data?: {
+    current_price?: { usd?: number | null };
+    price_change_percentage_24h?: number | null;
+    total_volume?: { usd?: number | null };
+    market_cap?: { usd?: number | null };
+    total_supply?: number | null;
+    circulating_supply?: number | null;
+  };
+};
+
+/**
+ * One coin with its project metadata, keyed by the listing's chain and address
+ *
+ * `platform` is the chain's CoinGecko platform id, for the contract's decimals.
+ */
+export function fromCoinGeckoCoinDetail(
+  coin: CoinGeckoCoinDetail,
+  listing: { chain: ChainId; address: string },
+  platform: string
+): TokenDetail {
+  const market = coin.market_data;
+  const links = coin.links;
+  return {
+    token: normalizeToken({
+      chain: listing.chain,
+      address: listing.address,
+      symbol: coin.symbol,
+      name: coin.name,
+      price: market?.current_price?.usd,
+      priceChange24h: market?.price_change_percentage_24h,
+      volume24h: market?.total_volume?.usd,
+      marketCap: market?.market_cap?.usd,
+      createdAt: coin.genesis_date ? Date.parse(coin.genesis_date) : undefined,
+      logo: coin.image?.small,
+      source: 'coingecko',
+    }),
+    metadata: normalizeMetadata({
+      tokenAddress: listing.address,
+      totalSupply: market?.total_supply,
+      circulatingSupply: market?.circulating_supply,
+      decimals: coin.detail_platforms?.[platform]?.decimal_place,
+      description: coin.description?.en,
+      links: [
+        ...(links?.homepage ?? []).map((url) => ({ type: 'website', url })),
+        { type: 'twitter', url: links?.twitter_screen_name && `https://x.com/${links.twitter_screen_name}` },
+        { type: 'telegram', url: links?.telegram_channel_identifier && `https://t.me/${links.telegram_channel_identifier}` },
+        { type: 'reddit', url: links?.subreddit_url },
+      ],
+      source: 'coingecko',
+    }),
+  };
+}
@@ -0,0 +1,67 @@
+import { LAUNCHPAD_DEX_IDS } from '@/lib/bonding-curve';
+import { ChainId } from '@/lib/chains';
+import { Token } from '@/store/tokensSlice';
+import { normalizeMetadata, TokenDetail } from './metadata';
+import { normalizeToken } from './token';
+
+// Subset of a DEXScreener pair object (API responses and pair webhooks)
+export type DexScreenerPair = {
+  chainId?: string;
+  dexId?: string;
+  pairAddress: string;
+  baseToken?: { address?: string; name?: string; symbol?: string };
+  /** Decimal string */
+  priceUsd?: string;
+  priceChange?: { h24?: number };
+  volume?: { h24?: number };
+  liquidity?: { usd?: number };
+  fdv?: number;
+  marketCap?: number;
+  pairCreatedAt?: number;
+  info?: {
+    imageUrl?: string;
+    websites?: { label?: string; url?: string }[];
+    socials?: { type?: string; url?: string }[];
+  };
+};
+
+/**
+ * One pair on `chain`; the token is keyed by its pair address
+ *
+ * Pairs on a non-launchpad dex trade on an AMM, i.e. past any bonding curve.
+ */
+export function fromDexScreenerPair(pair: DexScreenerPair, chain: ChainId): Token {
+  return normalizeToken({
+    chain,
+    address: pair.pairAddress,
+    symbol: pair.baseToken?.symbol,
+    name: pair.baseToken?.name,
+    price: pair.priceUsd,
+    priceChange24h: pair.priceChange?.h24,
+    volume24h: pair.volume?.h24,
+    // Circulating market cap when reported, else fully diluted value
+    marketCap: pair.marketCap ?? pair.fdv,
+    liquidity: pair.liquidity?.usd,
+    bondingCurveProgress: pair.dexId && !LAUNCHPAD_DEX_IDS.has(pair.dexId) ? 100 : undefined,
+    createdAt: pair.pairCreatedAt,
+    logo: pair.info?.imageUrl,
+    source: 'dexscreener',
+  });
+}
+
+/** One pair with its token's links; DEXScreener reports no supply or creator */
+export function fromDexScreenerPairDetail(pair: DexScreenerPair, chain: ChainId): TokenDetail {
+  return {
+    token: fromDexScreenerPair(pair, chain),
+    metadata: normalizeMetadata({
+      tokenAddress: pair.baseToken?.address,
+      pairAddress: pair.pairAddress,
+      dex: pair.dexId,
+      links: [
+        ...(pair.info?.websites ?? []).map((site) => ({ type: 'website', url: site.url })),
+        ...(pair.info?.socials ?? []),
+      ],
+      source: 'dexscreener',
+    }),
+  };
+}
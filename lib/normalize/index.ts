@@ -0,0 +1,5 @@
+export * from './token';
+export * from './metadata';
+export * from './coingecko';
+export * from './dexscreener';
+export * from './mobula';
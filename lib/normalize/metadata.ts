@@ -0,0 +1,86 @@
+import { Token } from '@/store/tokensSlice';
+import { toAmount, toCount, toUrl } from './token';
+
+/**
+ * Token metadata for the detail endpoint
+ *
+ * Slow-changing facts about a token (supply, decimals, links...) that the
+ * listing does not carry. As with market fields, anything a source does not
+ * report is `null`, never guessed.
+ */
+
+export interface TokenLink {
+  /** "website", "twitter", "telegram", "discord", or the source's own label */
+  type: string;
+  url: string;
+}
+
+export interface TokenMetadata {
+  /** Mint / contract of the traded token; differs from Token.address for DEX pairs */
+  tokenAddress: string | null;
+  /** Pool the market data comes from, when the token is listed by pair */
+  pairAddress: string | null;
+  /** DEX the pair trades on, e.g. "raydium", "pumpfun" */
+  dex: string | null;
+  totalSupply: number | null;
+  circulatingSupply: number | null;
+  decimals: number | null;
+  /** Deployer / creator wallet */
+  creator: string | null;
+  description: string | null;
+  links: TokenLink[];
+  /** Provider the metadata came from */
+  source: string;
+}
+
+/** GET /api/tokens/:chain/:address; creation time is `token.createdAt` */
+export interface TokenDetail {
+  token: Token;
+  metadata: TokenMetadata;
+}
+
+export interface RawTokenMetadata {
+  tokenAddress?: string | null;
+  pairAddress?: string | null;
+  dex?: string | null;
+  totalSupply?: unknown;
+  circulatingSupply?: unknown;
+  decimals?: unknown;
+  creator?: string | null;
+  /** Plain text or HTML; tags are stripped */
+  description?: string | null;
+  links?: { type?: string | null; url?: string | null }[];
+  source: string;
+}
+
+function toText(value: string | null | undefined): string | null {
+  const text = value?.trim();
+  return text ? text : null;
+}
+
+/** Largest decimals value in use (some EVM tokens go past 18) */
+const MAX_DECIMALS = 36;
+
+export function normalizeMetadata(raw: RawTokenMetadata): TokenMetadata {
+  const decimals = toCount(raw.decimals);
+  const links: TokenLink[] = [];
+  for (const link of raw.links ?? []) {
+    const url = toUrl(link.url);
+    if (url && !links.some((l) => l.url === url)) {
+      links.push({ type: toText(link.type)?.toLowerCase() ?? 'website', url });
+    }
+  }
+
+  return {
+    tokenAddress: toText(raw.tokenAddress),
+    pairAddress: toText(raw.pairAddress),
+    dex: toText(raw.dex),
+    totalSupply: toAmount(raw.totalSupply),
+    circulatingSupply: toAmount(raw.circulatingSupply),
+    decimals: decimals !== null && decimals <= MAX_DECIMALS ? decimals : null,
+    creator: toText(raw.creator),
+    description: toText(raw.description?.replace(/<[^>]*>/g, '')),
+    links,
+    source: raw.source,
+  };
+}
@@ -0,0 +1,101 @@
+import { ChainId } from '@/lib/chains';
+import { Token } from '@/store/tokensSlice';
+import { normalizeMetadata, TokenDetail } from './metadata';
+import { normalizeToken } from './token';
+
+// Subset of a Mobula market query asset
+export type MobulaAsset = {
+  id?: number | string;
+  name?: string;
+  symbol?: string;
+  logo?: string;
+  price?: number;
+  price_change_24h?: number;
+  volume?: number;
+  market_cap?: number;
+  liquidity?: number;
+  holders_count?: number;
+  contracts?: { address: string; blockchain: string }[];
+};
+
+// Subset of a Mobula /metadata document; numbers may be numeric strings
+export type MobulaMetadata = MobulaAsset & {
+  description?: string | null;
+  website?: string | null;
+  twitter?: string | null;
+  telegram?: string | null;
+  discord?: string | null;
+  total_supply?: number | string;
+  circulating_supply?: number | string;
+  decimals?: number | string;
+};
+
+/** Validated `pool_created` webhook data */
+export type MobulaPoolCreated = {
+  blockchain: ChainId;
+  pair: string;
+  token: { symbol: string; name: string; logo?: string };
+  priceUSD?: number;
+  liquidityUSD?: number;
+  marketCapUSD?: number;
+  bondingPercentage?: number;
+  /** Unix milliseconds */
+  timestamp?: number;
+};
+
+/** One market asset, keyed by its contract `address` on `chain` */
+export function fromMobulaAsset(asset: MobulaAsset, chain: ChainId, address: string): Token {
+  return normalizeToken({
+    chain,
+    address,
+    symbol: asset.symbol,
+    name: asset.name,
+    price: asset.price,
+    priceChange24h: asset.price_change_24h,
+    volume24h: asset.volume,
+    marketCap: asset.market_cap,
+    liquidity: asset.liquidity,
+    holders: asset.holders_count,
+    logo: asset.logo,
+    source: 'mobula',
+  });
+}
+
+/** A freshly created pool, keyed by its pair address; no trading history yet */
+export function fromMobulaPoolCreated(data: MobulaPoolCreated): Token {
+  return normalizeToken({
+    chain: data.blockchain,
+    address: data.pair,
+    symbol: data.token.symbol,
+    name: data.token.name,
+    price: data.priceUSD,
+    marketCap: data.marketCapUSD,
+    liquidity: data.liquidityUSD,
+    bondingCurveProgress: data.bondingPercentage,
+    createdAt: data.timestamp,
+    logo: data.token.logo,
+    source: 'mobula',
+    observedAt: data.timestamp,
+  });
+}
+
+/** One asset with its project metadata, keyed by its contract `address` on `chain` */
+export function fromMobulaMetadata(data: MobulaMetadata, chain: ChainId, address: string): TokenDetail {
+  return {
+    token: fromMobulaAsset(data, chain, address),
+    metadata: normalizeMetadata({
+      tokenAddress: address,
+      totalSupply: data.total_supply,
+      circulatingSupply: data.circulating_supply,
+      decimals: data.decimals,
+      description: data.description,
+      links: [
+        { type: 'website', url: data.website },
+        { type: 'twitter', url: data.twitter },
+        { type: 'telegram', url: data.telegram },
+        { type: 'discord', url: data.discord },
+      ],
+      source: 'mobula',
+    }),
+  };
+}
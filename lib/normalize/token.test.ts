@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeToken, RawToken } from './token';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function raw(overrides: Partial<RawToken> = {}): RawToken {
+  return { chain: 'solana', address: BONK, source: 'test', observedAt: 1_700_000_000_000, ...overrides };
+}
+
+describe('normalizeToken', () => {
+  it('keys tokens by chain and address', () => {
+    const token = normalizeToken(raw({ address: `  ${BONK} ` }));
+    assert.equal(token.id, `solana:${BONK}`);
+    assert.equal(token.address, BONK);
+
+    const evm = normalizeToken(raw({ chain: 'base', address: '0xABCDEF0000000000000000000000000000000001' }));
+    assert.equal(evm.id, 'base:0xabcdef0000000000000000000000000000000001');
+  });
+
+  it('leaves unreported fields null instead of making them up', () => {
+    const token = normalizeToken(raw());
+    assert.equal(token.price, null);
+    assert.equal(token.priceChange24h, null);
+    assert.equal(token.volume24h, null);
+    assert.equal(token.marketCap, null);
+    assert.equal(token.liquidity, null);
+    assert.equal(token.holders, null);
+    assert.equal(token.createdAt, null);
+    assert.equal(token.logo, null);
+    assert.deepEqual(token.provenance, {});
+  });
+
+  it('coerces numeric strings and rejects unusable values', () => {
+    const token = normalizeToken(raw({
+      price: '0.000013',
+      priceChange24h: '-4.5',
+      volume24h: -10,
+      marketCap: 'n/a',
+      liquidity: '40730000',
+      holders: 25000.7,
+    }));
+    assert.equal(token.price, 0.000013);
+    assert.equal(token.priceChange24h, -4.5);
+    assert.equal(token.volume24h, null);
+    assert.equal(token.marketCap, null);
+    assert.equal(token.liquidity, 40730000);
+    assert.equal(token.holders, 25000);
+  });
+
+  it('treats a zero price as no quote', () => {
+    assert.equal(normalizeToken(raw({ price: 0 })).price, null);
+  });
+
+  it('reads creation times in seconds or milliseconds', () => {
+    assert.equal(normalizeToken(raw({ createdAt: 1_700_000_000 })).createdAt, 1_700_000_000_000);
+    assert.equal(normalizeToken(raw({ createdAt: 1_700_000_000_123 })).createdAt, 1_700_000_000_123);
+  });
+
+  it('only accepts http(s) logos', () => {
+    assert.equal(normalizeToken(raw({ logo: 'javascript:alert(1)' })).logo, null);
+    assert.equal(normalizeToken(raw({ logo: 'https://example.com/bonk.png' })).logo, 'https://example.com/bonk.png');
+  });
+
+  it('stamps provenance on reported fields only', () => {
+    const token = normalizeToken(raw({ price: 1, source: 'dexscreener' }));
+    assert.deepEqual(token.provenance.price, { source: 'dexscreener', updatedAt: 1_700_000_000_000 });
+    assert.equal(token.provenance.volume24h, undefined);
+  });
+
+  it('marks curve progress derived from market cap as an estimate', () => {
+    const estimated = normalizeToken(raw({ marketCap: 1_000 }));
+    assert.equal(estimated.provenance.bondingCurveProgress?.source, 'estimate');
+
+    const reported = normalizeToken(raw({ bondingCurveProgress: 150 }));
+    assert.equal(reported.bondingCurveProgress, 100);
+    assert.equal(reported.provenance.bondingCurveProgress?.source, 'test');
+  });
+});
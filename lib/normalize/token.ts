@@ -0,0 +1,121 @@
+import { ChainId, tokenKey } from '@/lib/chains';
+import { categorize, estimateCurveProgress } from '@/lib/bonding-curve';
+import { stampProvenance, TRACKED_FIELDS } from '@/lib/provenance';
+import { Token } from '@/store/tokensSlice';
+
+/**
+ * Canonical Token construction
+ *
+ * Provider listings, webhooks and the poller all build tokens through
+ * normalizeToken, so a token looks the same whichever path delivered it.
+ * Values a source does not report, or reports in an unusable form, become
+ * `null`; nothing is estimated from other fields or made up.
+ */
+
+/** Source values before coercion; numbers may arrive as numeric strings */
+export interface RawToken {
+  chain: ChainId;
+  address: string;
+  symbol?: string | null;
+  name?: string | null;
+  price?: unknown;
+  priceChange24h?: unknown;
+  volume24h?: unknown;
+  marketCap?: unknown;
+  liquidity?: unknown;
+  holders?: unknown;
+  /** Percent, 0-100; estimated from market cap when absent */
+  bondingCurveProgress?: unknown;
+  /** Pair/pool creation time; unix seconds or milliseconds */
+  createdAt?: unknown;
+  logo?: string | null;
+  source: string;
+  /** When the source reported these values, unix milliseconds (default now) */
+  observedAt?: number;
+}
+
+/** Finite number from a number or numeric string, else null */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'string' && value.trim() !== '') value = Number(value);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Non-negative USD amount (volume, market cap, liquidity), else null */
+export function toAmount(value: unknown): number | null {
+  const n = toNumber(value);
+  return n !== null && n >= 0 ? n : null;
+}
+
+/** Positive price; a zero price means "no quote" and becomes null */
+export function toPrice(value: unknown): number | null {
+  const n = toNumber(value);
+  return n !== null && n > 0 ? n : null;
+}
+
+/** Non-negative whole count (holders), else null */
+export function toCount(value: unknown): number | null {
+  const n = toNumber(value);
+  return n !== null && n >= 0 ? Math.floor(n) : null;
+}
+
+/** Percentage in 0-100 (slight overshoot is capped), else null */
+export function toProgress(value: unknown): number | null {
+  const n = toNumber(value);
+  return n !== null && n >= 0 ? Math.min(n, 100) : null;
+}
+
+/**
+ * Unix milliseconds from a seconds or milliseconds timestamp, else null
+ *
+ * Values below 1e12 are taken as seconds (1e12 ms is September 2001).
+ */
+export function toTimestamp(value: unknown): number | null {
+  const n = toNumber(value);
+  if (n === null || n <= 0) return null;
+  return Math.floor(n < 1e12 ? n * 1000 : n);
+}
+
+/** http(s) URL, else null */
+export function toUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeToken(raw: RawToken): Token {
+  const address = raw.address.trim();
+  const observedAt = raw.observedAt ?? Date.now();
+  const marketCap = toAmount(raw.marketCap);
+  const reportedProgress = toProgress(raw.bondingCurveProgress);
+  const bondingCurveProgress = reportedProgress ?? estimateCurveProgress(marketCap);
+  const token: Omit<Token, 'provenance'> = {
+    id: tokenKey(raw.chain, address),
+    address,
+    symbol: raw.symbol?.trim().toUpperCase() ?? '',
+    name: raw.name?.trim() ?? '',
+    price: toPrice(raw.price),
+    priceChange24h: toNumber(raw.priceChange24h),
+    volume24h: toAmount(raw.volume24h),
+    marketCap,
+    liquidity: toAmount(raw.liquidity),
+    holders: toCount(raw.holders),
+    bondingCurveProgress,
+    chain: raw.chain,
+    logo: toUrl(raw.logo),
+    category: categorize(bondingCurveProgress),
+    source: raw.source,
+    createdAt: toTimestamp(raw.createdAt),
+    firstSeenAt: observedAt,
+  };
+  // Only fields the source actually reported carry its provenance
+  const reported = TRACKED_FIELDS.filter((field) => token[field] !== null);
+  const provenance = stampProvenance(reported, raw.source, observedAt);
+  if (reportedProgress === null && bondingCurveProgress !== null) {
+    provenance.bondingCurveProgress = { source: 'estimate', updatedAt: observedAt };
+  }
+  return { ...token, provenance };
+}
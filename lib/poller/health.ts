@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SourceHealth } from '@/lib/providers/types';
+
+/**
+ * Poller health snapshot
+ *
+ * The poller runs as its own process, so after every cycle it writes its
+ * per-source rate-limit / circuit state to a JSON file that the Next
+ * server's /api/health endpoint reads back.
+ */
+
+export interface PollerHealth {
+  /** Unix ms of the snapshot */
+  updatedAt: number;
+  pid: number;
+  pollIntervalMs: number;
+  lastPoll: {
+    at: number;
+    ok: boolean;
+    tokens: number;
+    error: string | null;
+  } | null;
+  sources: SourceHealth[];
+}
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+function healthFile(): string {
+  return path.resolve(process.env.POLLER_STATE_DIR ?? '.data/poller', 'health.json');
+}
+
+export async function writePollerHealth(health: PollerHealth): Promise<void> {
+  const file = healthFile();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(health, null, 2));
+  await fs.rename(tmp, file);
+}
+
+/** Latest snapshot, or null when the poller has never run here */
+export async function readPollerHealth(): Promise<PollerHealth | null> {
+  try {
+    return JSON.parse(await fs.readFile(healthFile(), 'utf8')) as PollerHealth;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * down      no snapshot for three poll intervals, or every source is open
+ * degraded  some circuit is not closed, or the last poll failed
+ */
+export function pollerStatus(health: PollerHealth, now = Date.now()): HealthStatus {
+  if (now - health.updatedAt > 3 * health.pollIntervalMs) return 'down';
+
+  const remote = health.sources;
+  if (remote.length > 0 && remote.every((s) => s.circuit === 'open')) return 'down';
+  if (remote.some((s) => s.circuit !== 'closed') || health.lastPoll?.ok === false) return 'degraded';
+  return 'ok';
+}
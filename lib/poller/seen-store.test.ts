@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createSeenTokenStore } from './seen-store';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = 1_700_000_000_000;
+
+describe('createSeenTokenStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'seen-'));
+    file = path.join(dir, 'seen-tokens.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports new ids once and refreshes their last sighting', () => {
+    const store = createSeenTokenStore({ file });
+    assert.equal(store.markSeen('solana:a', 'mobula', T0), true);
+    assert.equal(store.markSeen('solana:a', 'dexscreener', T0 + HOUR), false);
+    assert.deepEqual(store.get('solana:a'), { firstSeen: T0, lastSeen: T0 + HOUR, source: 'mobula' });
+  });
+
+  it('evicts entries not seen within the TTL, counting from the last sighting', () => {
+    const store = createSeenTokenStore({ file, ttlMs: 24 * HOUR });
+    store.markSeen('solana:stale', 'mobula', T0);
+    store.markSeen('solana:active', 'mobula', T0);
+    store.markSeen('solana:active', 'mobula', T0 + 20 * HOUR);
+
+    assert.equal(store.evictExpired(T0 + 24 * HOUR), 0);
+    assert.equal(store.evictExpired(T0 + 25 * HOUR), 1);
+    assert.equal(store.get('solana:stale'), undefined);
+    assert.ok(store.get('solana:active'));
+
+    // Once evicted, a token that reappears is announced again
+    assert.equal(store.markSeen('solana:stale', 'mobula', T0 + 26 * HOUR), true);
+  });
+
+  it('persists entries across restarts', async () => {
+    const first = createSeenTokenStore({ file });
+    assert.equal(await first.load(), false);
+    first.markSeen('solana:a', 'mobula', T0);
+    await first.save();
+
+    const second = createSeenTokenStore({ file });
+    assert.equal(await second.load(), true);
+    assert.equal(second.size, 1);
+    assert.equal(second.markSeen('solana:a', 'mobula', T0 + HOUR), false);
+  });
+});
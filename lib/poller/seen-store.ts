@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Persistent set of token ids the poller has already announced
+ *
+ * Kept as one JSON file so restarts neither rebroadcast old pairs nor
+ * swallow pairs created while the poller was down. Entries expire `ttlMs`
+ * after they were last seen in a poll, so tokens that drop out of the
+ * feed are eventually forgotten.
+ */
+
+export interface SeenEntry {
+  /** Unix milliseconds of the first poll that returned this token */
+  firstSeen: number;
+  /** Unix milliseconds of the latest poll that returned this token */
+  lastSeen: number;
+  /** Provider that first reported it */
+  source: string;
+}
+
+interface SeenFile {
+  version: 1;
+  entries: Record<string, SeenEntry>;
+}
+
+export const DEFAULT_SEEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SeenTokenStoreOptions {
+  file?: string;
+  ttlMs?: number;
+}
+
+export interface SeenTokenStore {
+  readonly file: string;
+  readonly size: number;
+  /** Read persisted state; resolves false when there was none (first run) */
+  load(): Promise<boolean>;
+  get(id: string): SeenEntry | undefined;
+  /** Record a sighting; returns true when the id was not known yet */
+  markSeen(id: string, source: string, now?: number): boolean;
+  /** Drop entries not seen for longer than the TTL; returns how many */
+  evictExpired(now?: number): number;
+  /** Write to disk if anything changed since the last save */
+  save(): Promise<void>;
+}
+
+export function createSeenTokenStore({
+  file,
+  ttlMs = DEFAULT_SEEN_TTL_MS,
+}: SeenTokenStoreOptions = {}): SeenTokenStore {
+  const target = path.resolve(
+    file ?? path.join(process.env.POLLER_STATE_DIR ?? '.data/poller', 'seen-tokens.json')
+  );
+  const entries = new Map<string, SeenEntry>();
+  let dirty = false;
+
+  return {
+    file: target,
+
+    get size() {
+      return entries.size;
+    },
+
+    async load() {
+      let text: string;
+      try {
+        text = await fs.readFile(target, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
+      }
+
+      const data = JSON.parse(text) as SeenFile;
+      if (data.version !== 1) {
+        throw new Error(`Unsupported seen-token file version ${String(data.version)} in ${target}`);
+      }
+      entries.clear();
+      for (const [id, entry] of Object.entries(data.entries)) {
+        entries.set(id, entry);
+      }
+      return true;
+    },
+
+    get(id) {
+      return entries.get(id);
+    },
+
+    markSeen(id, source, now = Date.now()) {
+      dirty = true;
+      const existing = entries.get(id);
+      if (existing) {
+        existing.lastSeen = now;
+        return false;
+      }
+      entries.set(id, { firstSeen: now, lastSeen: now, source });
+      return true;
+    },
+
+    evictExpired(now = Date.now()) {
+      let evicted = 0;
+      for (const [id, entry] of entries) {
+        if (now - entry.lastSeen > ttlMs) {
+          entries.delete(id);
+          evicted++;
+        }
+      }
+      if (evicted > 0) dirty = true;
+      return evicted;
+    },
+
+    async save() {
+      if (!dirty) return;
+
+      const data: SeenFile = { version: 1, entries: Object.fromEntries(entries) };
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a torn file
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(data));
+      await fs.rename(tmp, target);
+      dirty = false;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-field data provenance
+ *
+ * Every market field on a Token records which source last set it and when,
+ * so the UI can say where a number came from and how old it is instead of
+ * guessing. Values older than STALE_AFTER_MS are shown dimmed.
+ */
+
+/** Token fields whose source and age are tracked */
+export type TrackedField =
+  | 'price'
+  | 'priceChange24h'
+  | 'volume24h'
+  | 'marketCap'
+  | 'liquidity'
+  | 'holders'
+  | 'bondingCurveProgress';
+
+export const TRACKED_FIELDS: TrackedField[] = [
+  'price',
+  'priceChange24h',
+  'volume24h',
+  'marketCap',
+  'liquidity',
+  'holders',
+  'bondingCurveProgress',
+];
+
+export interface FieldProvenance {
+  /** Provider or pipeline that last set the field (e.g. "dexscreener", "mobula") */
+  source: string;
+  /** When the source reported the value, unix milliseconds */
+  updatedAt: number;
+}
+
+/** Fields never reported by any source have no entry */
+export type TokenProvenance = Partial<Record<TrackedField, FieldProvenance>>;
+
+/** Age past which a value is considered stale; NEXT_PUBLIC_STALE_AFTER_SECONDS (default 60) */
+export const STALE_AFTER_MS = (Number(process.env.NEXT_PUBLIC_STALE_AFTER_SECONDS) || 60) * 1000;
+
+const SOURCE_LABELS: Record<string, string> = {
+  coingecko: 'CoinGecko',
+  dexscreener: 'DEXScreener',
+  mobula: 'Mobula',
+  fixture: 'Fixture data',
+  recorder: 'Tick store',
+  simulation: 'Demo simulation',
+  webhook: 'Webhook',
+  estimate: 'Estimated from market cap',
+  migration: 'Curve completion event',
+};
+
+export function sourceLabel(source: string): string {
+  return SOURCE_LABELS[source] ?? source;
+}
+
+/** The same provenance for each of `fields` */
+export function stampProvenance(fields: TrackedField[], source: string, updatedAt = Date.now()): TokenProvenance {
+  return Object.fromEntries(fields.map((field) => [field, { source, updatedAt }]));
+}
+
+/** Most recent update across all tracked fields, or null if none */
+export function lastUpdatedAt(provenance: TokenProvenance): number | null {
+  const times = Object.values(provenance).map((p) => p.updatedAt);
+  return times.length > 0 ? Math.max(...times) : null;
+}
+
+export function isStale(provenance: Pick<FieldProvenance, 'updatedAt'> | undefined, now = Date.now(), staleAfterMs = STALE_AFTER_MS): boolean {
+  return provenance !== undefined && now - provenance.updatedAt > staleAfterMs;
+}
+
+/** Compact age: "12s", "4m", "3h", "2d" */
+export function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+/** Tooltip text, e.g. "DEXScreener · 12s ago" */
+export function describeProvenance(provenance: FieldProvenance | undefined, now = Date.now()): string {
+  if (!provenance) return 'No source has reported this value';
+  const age = `${sourceLabel(provenance.source)} · ${formatAge(now - provenance.updatedAt)} ago`;
+  return isStale(provenance, now) ? `${age} (stale)` : age;
+}
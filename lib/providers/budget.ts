@@ -0,0 +1,39 @@
+import { createTokenBucket, TokenBucket } from './token-bucket';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Upstream request budget shared by every route and provider in a process
+ *
+ * Per-source limits (createResilientProvider) protect each API; this caps
+ * the total, so a burst of cache misses across routes cannot fan out into
+ * unbounded upstream traffic. fetchJson takes from it before every request
+ * and fails fast when it is empty, letting cached routes serve stale data.
+ */
+
+/** UPSTREAM_BUDGET_PER_MINUTE, default 120; also the burst size */
+export const UPSTREAM_BUDGET_PER_MINUTE = Number(process.env.UPSTREAM_BUDGET_PER_MINUTE) || 120;
+
+export interface UpstreamBudget {
+  readonly perMinute: number;
+  /** Take one request from the budget; false when exhausted */
+  tryTake(): boolean;
+  /** Milliseconds until the next request is allowed */
+  waitMs(): number;
+  /** Requests available right now */
+  available(): number;
+}
+
+export function createUpstreamBudget(perMinute = UPSTREAM_BUDGET_PER_MINUTE): UpstreamBudget {
+  const bucket: TokenBucket = createTokenBucket({ capacity: perMinute, refillPerSecond: perMinute / 60 });
+  return {
+    perMinute,
+    tryTake: () => bucket.tryTake(),
+    waitMs: () => bucket.waitMs(),
+    available: () => Math.floor(bucket.available()),
+  };
+}
+
+/** One budget per process */
+export function getUpstreamBudget(): UpstreamBudget {
+  return globalSingleton('upstreamBudget', () => createUpstreamBudget());
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '@/lib/chart-data';
+import { createCandleProvider } from './candles';
+import { FetchCandlesOptions, MarketDataProvider, ProviderError } from './types';
+
+const HOUR = 3600;
+const RANGE: FetchCandlesOptions = { interval: '1h', from: 10 * HOUR, to: 20 * HOUR, chain: 'solana' };
+
+const bar = (hour: number, volume: number | null): Candle => ({
+  time: hour * HOUR, open: 1, high: 1, low: 1, close: 1, volume,
+});
+const hours = (first: number, last: number, volume: number | null) =>
+  Array.from({ length: last - first + 1 }, (_, i) => bar(first + i, volume));
+
+function source(name: string, candles: Candle[] | Error): MarketDataProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async fetchTokens() {
+      return [];
+    },
+    async fetchCandles() {
+      this.calls++;
+      if (candles instanceof Error) throw candles;
+      return candles;
+    },
+    async fetchTokenDetail() {
+      return null;
+    },
+  };
+}
+
+describe('createCandleProvider', () => {
+  it('serves recorded bars alone when they cover the range', async () => {
+    const upstream = source('coingecko', hours(10, 20, 5));
+    const provider = createCandleProvider(source('recorder', hours(10, 20, null)), upstream);
+
+    const candles = await provider.fetchCandles('addr', RANGE);
+    assert.equal(candles.length, 11);
+    assert.equal(upstream.calls, 0);
+  });
+
+  it('appends the recorded tail to upstream history', async () => {
+    const provider = createCandleProvider(source('recorder', hours(17, 20, null)), source('coingecko', hours(10, 18, 5)));
+
+    const candles = await provider.fetchCandles('addr', RANGE);
+    assert.deepEqual(candles.map((c) => c.time / HOUR), [10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    // Upstream bars keep their volume where both sources have one
+    assert.equal(candles.find((c) => c.time === 17 * HOUR)?.volume, 5);
+    assert.equal(candles.at(-1)?.volume, null);
+  });
+
+  it('falls back to recorded bars when upstream has none or fails', async () => {
+    const recorded = hours(18, 20, null);
+    const empty = createCandleProvider(source('recorder', recorded), source('coingecko', []));
+    assert.deepEqual(await empty.fetchCandles('addr', RANGE), recorded);
+
+    const failing = createCandleProvider(source('recorder', recorded), source('coingecko', new ProviderError('coingecko', 'down')));
+    assert.deepEqual(await failing.fetchCandles('addr', RANGE), recorded);
+  });
+
+  it('reports the upstream error when nothing was recorded', async () => {
+    const provider = createCandleProvider(source('recorder', []), source('coingecko', new ProviderError('coingecko', 'down')));
+    await assert.rejects(provider.fetchCandles('addr', RANGE), ProviderError);
+  });
+});
@@ -0,0 +1,50 @@
+import { Candle, CANDLE_INTERVALS } from '@/lib/chart-data';
+import { FetchCandlesOptions, MarketDataProvider } from './types';
+
+/**
+ * Upstream history followed by the bars recorded after it
+ *
+ * Upstream bars win where both have data: they carry per-bar volume, which
+ * recorded bars never do.
+ */
+export function mergeCandles(upstream: Candle[], recorded: Candle[]): Candle[] {
+  if (upstream.length === 0) return recorded;
+  const last = upstream[upstream.length - 1].time;
+  return [...upstream, ...recorded.filter((bar) => bar.time > last)];
+}
+
+/** Recorded bars reach back to the start of the requested range */
+export function coversRange(recorded: Candle[], { interval, from }: FetchCandlesOptions): boolean {
+  return recorded.length > 0 && recorded[0].time < from + CANDLE_INTERVALS[interval];
+}
+
+/**
+ * Candle source combining our recorded observations with upstream history
+ *
+ * The recorder only has bars since this app started watching a token, so it
+ * answers alone only when it covers the whole range. Otherwise upstream is
+ * asked too and the recorded tail is appended to its history; tokens no
+ * upstream source has history for (most Pulse pairs) still get their
+ * recorded bars. Listings and details come from `upstream`.
+ */
+export function createCandleProvider(
+  recorder: MarketDataProvider,
+  upstream: MarketDataProvider
+): MarketDataProvider {
+  return {
+    ...upstream,
+    name: `${recorder.name}+${upstream.name}`,
+    async fetchCandles(address, options) {
+      const recorded = await recorder.fetchCandles(address, options);
+      if (coversRange(recorded, options)) return recorded;
+
+      try {
+        return mergeCandles(await upstream.fetchCandles(address, options), recorded);
+      } catch (error) {
+        if (recorded.length === 0) throw error;
+        console.warn(`⚠️ ${upstream.name} candles failed, serving recorded bars only:`, error);
+        return recorded;
+      }
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCircuitBreaker } from './circuit-breaker';
+
+const T0 = 1_700_000_000_000;
+
+describe('createCircuitBreaker', () => {
+  it('opens after the failure threshold and fails fast until the cooldown ends', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 1_000 });
+    breaker.recordFailure(T0);
+    assert.equal(breaker.state, 'closed');
+    breaker.recordFailure(T0);
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.retryAt, T0 + 1_000);
+    assert.equal(breaker.allowRequest(T0 + 999), false);
+  });
+
+  it('lets one probe through when half-open and closes on its success', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1_000 });
+    breaker.recordFailure(T0);
+
+    assert.equal(breaker.allowRequest(T0 + 1_000), true);
+    assert.equal(breaker.state, 'half-open');
+    assert.equal(breaker.allowRequest(T0 + 1_000), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.state, 'closed');
+    assert.equal(breaker.consecutiveFailures, 0);
+    assert.equal(breaker.retryAt, null);
+  });
+
+  it('doubles the cooldown on a failed probe, up to the maximum', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1_000, maxCooldownMs: 3_000 });
+    breaker.recordFailure(T0);
+
+    breaker.allowRequest(T0 + 1_000);
+    breaker.recordFailure(T0 + 1_000);
+    assert.equal(breaker.retryAt, T0 + 3_000);
+
+    breaker.allowRequest(T0 + 3_000);
+    breaker.recordFailure(T0 + 3_000);
+    assert.equal(breaker.retryAt, T0 + 6_000);
+  });
+
+  it('frees the probe slot on a neutral outcome without changing state', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1_000 });
+    breaker.recordFailure(T0);
+    breaker.allowRequest(T0 + 1_000);
+
+    breaker.recordNeutral();
+    assert.equal(breaker.state, 'half-open');
+    assert.equal(breaker.allowRequest(T0 + 1_000), true);
+  });
+
+  it('opens until an explicit time and never shortens an existing wait', () => {
+    const changes: string[] = [];
+    const breaker = createCircuitBreaker({ onStateChange: (state) => changes.push(state) });
+
+    breaker.openUntil(T0 + 60_000);
+    assert.equal(breaker.state, 'open');
+    breaker.openUntil(T0 + 10_000);
+    assert.equal(breaker.retryAt, T0 + 60_000);
+    assert.deepEqual(changes, ['open', 'open']);
+  });
+});
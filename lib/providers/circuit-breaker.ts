@@ -0,0 +1,115 @@
+import { CircuitState } from './types';
+
+/**
+ * Circuit breaker for one upstream source
+ *
+ * closed     requests flow; consecutive failures are counted
+ * open       requests fail fast until the cooldown elapses
+ * half-open  one probe request is let through; success closes the
+ *            circuit, failure re-opens it with a doubled cooldown
+ */
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** First open period, ms */
+  cooldownMs?: number;
+  /** Upper bound for the doubling cooldown, ms */
+  maxCooldownMs?: number;
+  /** Called on every state transition (for logging) */
+  onStateChange?: (state: CircuitState, retryAt: number | null) => void;
+}
+
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  readonly consecutiveFailures: number;
+  /** Unix ms when an open circuit admits the next probe */
+  readonly retryAt: number | null;
+  /** Whether a request may go out now (moves open -> half-open when due) */
+  allowRequest(now?: number): boolean;
+  recordSuccess(): void;
+  recordFailure(now?: number): void;
+  /** A request ended without telling us anything about the source's health */
+  recordNeutral(): void;
+  /** Open immediately until at least `until` (e.g. a long Retry-After) */
+  openUntil(until: number): void;
+}
+
+export function createCircuitBreaker({
+  failureThreshold = 3,
+  cooldownMs = 30000,
+  maxCooldownMs = 10 * 60 * 1000,
+  onStateChange,
+}: CircuitBreakerOptions = {}): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let retryAt: number | null = null;
+  let currentCooldown = cooldownMs;
+  let probeInFlight = false;
+
+  function transition(next: CircuitState) {
+    if (next === state) return;
+    state = next;
+    onStateChange?.(state, retryAt);
+  }
+
+  function open(until: number) {
+    retryAt = until;
+    probeInFlight = false;
+    // Re-announce even if already open so logs show the new retry time
+    if (state === 'open') onStateChange?.(state, retryAt);
+    transition('open');
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+    get consecutiveFailures() {
+      return failures;
+    },
+    get retryAt() {
+      return retryAt;
+    },
+
+    allowRequest(now = Date.now()) {
+      if (state === 'closed') return true;
+      if (state === 'open') {
+        if (retryAt !== null && now < retryAt) return false;
+        transition('half-open');
+      }
+      // Half-open: exactly one probe at a time
+      if (probeInFlight) return false;
+      probeInFlight = true;
+      return true;
+    },
+
+    recordSuccess() {
+      failures = 0;
+      retryAt = null;
+      probeInFlight = false;
+      currentCooldown = cooldownMs;
+      transition('closed');
+    },
+
+    recordFailure(now = Date.now()) {
+      failures++;
+      if (state === 'half-open') {
+        currentCooldown = Math.min(currentCooldown * 2, maxCooldownMs);
+        open(now + currentCooldown);
+      } else if (state === 'closed' && failures >= failureThreshold) {
+        open(now + currentCooldown);
+      }
+    },
+
+    recordNeutral() {
+      // Free the half-open probe slot so the next request can probe
+      probeInFlight = false;
+    },
+
+    openUntil(until) {
+      failures++;
+      open(Math.max(until, retryAt ?? 0));
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, sliceCandles, ticksToCandles } from '@/lib/chart-data';
+import { ChainId, CHAINS, normalizeAddress, tokenKey } from '@/lib/chains';
+import { CoinGeckoCoin, CoinGeckoCoinDetail, fromCoinGeckoCoin, fromCoinGeckoCoinDetail, TokenDetail } from '@/lib/normalize';
+import { fetchJson } from './http';
+import { FetchCandlesOptions, FetchTokenDetailOptions, FetchTokensOptions, MarketDataProvider, ProviderError } from './types';
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+
+export interface CoinGeckoListing {
+  /** CoinGecko coin id */
+  id: string;
+  chain: ChainId;
+  /** Mint / contract address on `chain` */
+  address: string;
+}
+
+/**
+ * Default watchlist, mostly Solana ecosystem coins
+ *
+ * CoinGecko's market endpoint returns no contract addresses, so every coin
+ * is listed with the chain and address it is keyed by.
+ */
+export const DEFAULT_COINGECKO_LISTINGS: CoinGeckoListing[] = [
+  { id: 'solana', chain: 'solana', address: 'So11111111111111111111111111111111111111112' },
+  { id: 'bonk', chain: 'solana', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' },
+  { id: 'jupiter-exchange-solana', chain: 'solana', address: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN' },
+  { id: 'dogwifcoin', chain: 'solana', address: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm' },
+  { id: 'pyth-network', chain: 'solana', address: 'HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3' },
+  { id: 'marinade-staked-sol', chain: 'solana', address: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So' },
+  { id: 'orca', chain: 'solana', address: 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE' },
+  { id: 'serum', chain: 'solana', address: 'SRMuApVNdxXokk5GT7XD5cUUgXMBCoAz2LHeuAoKWRt' },
+  { id: 'raydium', chain: 'solana', address: '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R' },
+  { id: 'step-finance', chain: 'solana', address: 'StepAsQRSkLHxAXJbbrnAAzeQX3xvN8EtgMnWRhp4ob' },
+  { id: 'saber', chain: 'solana', address: 'Saber2gLauYim4Mvftnrasomsv6NvAuncvMEZwcLpD1' },
+  { id: 'marinade', chain: 'solana', address: 'MNDEFzGvMt87ueuHvVU9VcTqsAP5b3fTGPsHuuPA5ey' },
+  { id: 'solend', chain: 'solana', address: 'SLNDpmoWTVADgEdndyvWzroNL7zSi1dF9PC3xHGtPwp' },
+  { id: 'star-atlas', chain: 'solana', address: 'ATLASXmbPQxBUYbxPsV97usA3fPQYEqzQBUHgiFCUsXx' },
+  { id: 'bonfida', chain: 'solana', address: 'EchesyfXePKdLtoiZSL8pBe8Myagyy8ZRqsACNCFGnvp' },
+  { id: 'samoyedcoin', chain: 'solana', address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU' },
+  { id: 'the-graph', chain: 'ethereum', address: '0xc944e90c64b2c07662a292be6244bdf05cda44a7' },
+];
+
+// /coins/{id}/market_chart/range returns [timestampMs, value] pairs
+type CoinGeckoMarketChart = {
+  prices?: [number, number][];
+};
+
+export function createCoinGeckoProvider(
+  listings: CoinGeckoListing[] = DEFAULT_COINGECKO_LISTINGS
+): MarketDataProvider {
+  function findListing(chain: ChainId, address: string): CoinGeckoListing | undefined {
+    return listings.find(
+      (l) => l.chain === chain && normalizeAddress(chain, l.address) === normalizeAddress(chain, address)
+    );
+  }
+
+  return {
+    name: 'coingecko',
+    async fetchTokens({ chain = 'solana', limit = 50 }: FetchTokensOptions = {}): Promise<Token[]> {
+      const byId = new Map(listings.filter((l) => l.chain === chain).map((l) => [l.id, l]));
+      if (byId.size === 0) return [];
+
+      const url = `${COINGECKO_API_BASE}/coins/markets?vs_currency=usd&ids=${[...byId.keys()].join(',')}&order=market_cap_desc&per_page=${limit}&page=1&sparkline=false&price_change_percentage=24h`;
+
+      const coins = await fetchJson<CoinGeckoCoin[]>('coingecko', url);
+
+      return coins.flatMap((coin) => {
+        const listing = byId.get(coin.id);
+        return listing ? [fromCoinGeckoCoin(coin, listing)] : [];
+      });
+    },
+
+    async fetchCandles(address: string, { interval, from, to, chain }: FetchCandlesOptions): Promise<Candle[]> {
+      const listing = findListing(chain, address);
+      if (!listing) {
+        throw new ProviderError('coingecko', `No CoinGecko listing for ${tokenKey(chain, address)}`, 404);
+      }
+
+      // CoinGecko has no OHLCV endpoint on the free tier, so bucket the raw
+      // price series (5m points for ranges under a day, hourly above that).
+      // Its volumes are rolling 24h totals, not per-bar, so volume is null.
+      const url = `${COINGECKO_API_BASE}/coins/${encodeURIComponent(listing.id)}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`;
+
+      const chart = await fetchJson<CoinGeckoMarketChart>('coingecko', url);
+
+      const ticks = (chart.prices ?? []).map(([ms, price]) => ({
+        time: Math.floor(ms / 1000),
+        price,
+      }));
+
+      return sliceCandles(ticksToCandles(ticks, interval), from, to);
+    },
+
+    async fetchTokenDetail(address: string, { chain }: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+      const listing = findListing(chain, address);
+      if (!listing) return null;
+
+      const url = `${COINGECKO_API_BASE}/coins/${encodeURIComponent(listing.id)}?localization=false&tickers=false&community_data=false&developer_data=false&sparkline=false`;
+
+      const coin = await fetchJson<CoinGeckoCoinDetail>('coingecko', url);
+
+      return fromCoinGeckoCoinDetail(coin, listing, CHAINS[chain].sourceIds.coingecko);
+    },
+  };
+}
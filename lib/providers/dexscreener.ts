@@ -0,0 +1,78 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, CandleInterval, sliceCandles } from '@/lib/chart-data';
+import { CHAINS, isValidAddress, resolveChain } from '@/lib/chains';
+import { DexScreenerPair, fromDexScreenerPair, fromDexScreenerPairDetail, TokenDetail } from '@/lib/normalize';
+import { fetchJson } from './http';
+import { FetchCandlesOptions, FetchTokenDetailOptions, FetchTokensOptions, MarketDataProvider, ProviderError } from './types';
+
+const DEXSCREENER_API_BASE = 'https://api.dexscreener.com/latest/dex';
+
+// DEXScreener has no public OHLCV API; pool candles come from GeckoTerminal,
+// which is keyed by the same pair address
+const GECKOTERMINAL_API_BASE = 'https://api.geckoterminal.com/api/v2';
+
+/** Candle interval -> GeckoTerminal timeframe and aggregate */
+const GECKOTERMINAL_TIMEFRAMES: Record<CandleInterval, [string, number]> = {
+  '1m': ['minute', 1],
+  '5m': ['minute', 5],
+  '15m': ['minute', 15],
+  '1h': ['hour', 1],
+  '4h': ['hour', 4],
+  '1d': ['day', 1],
+};
+
+// GeckoTerminal OHLCV rows are [timestamp, open, high, low, close, volumeUsd], newest first
+type GeckoTerminalOhlcv = {
+  data?: { attributes?: { ohlcv_list?: [number, number, number, number, number, number][] } };
+};
+
+export function createDexScreenerProvider(): MarketDataProvider {
+  return {
+    name: 'dexscreener',
+    async fetchTokens({ chain = 'solana', limit = 20 }: FetchTokensOptions = {}): Promise<Token[]> {
+      // Search endpoint returns recently active pairs for the query; it
+      // matches on names too, so keep only pairs actually on this chain
+      const url = `${DEXSCREENER_API_BASE}/search/?q=${encodeURIComponent(CHAINS[chain].sourceIds.dexscreener)}`;
+
+      const data = await fetchJson<{ pairs?: DexScreenerPair[] }>('dexscreener', url, {
+        headers: { 'User-Agent': 'Mozilla/5.0' },
+      });
+
+      const pairs = (data.pairs ?? []).filter(
+        (pair) => resolveChain(pair.chainId) === chain && isValidAddress(chain, pair.pairAddress)
+      );
+
+      return pairs.slice(0, limit).map((pair) => fromDexScreenerPair(pair, chain));
+    },
+
+    async fetchCandles(pairAddress: string, { interval, from, to, chain }: FetchCandlesOptions): Promise<Candle[]> {
+      if (!pairAddress) {
+        throw new ProviderError('dexscreener', 'Pair address is required for candles', 400);
+      }
+
+      const network = CHAINS[chain].sourceIds.geckoterminal;
+      const [timeframe, aggregate] = GECKOTERMINAL_TIMEFRAMES[interval];
+      const url = `${GECKOTERMINAL_API_BASE}/networks/${network}/pools/${encodeURIComponent(pairAddress)}/ohlcv/${timeframe}?aggregate=${aggregate}&before_timestamp=${to}&limit=1000&currency=usd`;
+
+      const data = await fetchJson<GeckoTerminalOhlcv>('dexscreener', url);
+
+      const candles = (data.data?.attributes?.ohlcv_list ?? [])
+        .map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }))
+        .sort((a, b) => a.time - b.time);
+
+      return sliceCandles(candles, from, to);
+    },
+
+    async fetchTokenDetail(pairAddress: string, { chain }: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+      const url = `${DEXSCREENER_API_BASE}/pairs/${CHAINS[chain].sourceIds.dexscreener}/${encodeURIComponent(pairAddress)}`;
+
+      const data = await fetchJson<{ pairs?: DexScreenerPair[] | null; pair?: DexScreenerPair | null }>('dexscreener', url, {
+        headers: { 'User-Agent': 'Mozilla/5.0' },
+      });
+
+      // Tokens are keyed by pair address, so only an exact pair match is this token
+      const pair = data.pairs?.[0] ?? data.pair;
+      return pair && resolveChain(pair.chainId) === chain ? fromDexScreenerPairDetail(pair, chain) : null;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, CANDLE_INTERVALS, resampleCandles, sliceCandles } from '@/lib/chart-data';
+import { ChainId, tokenKey } from '@/lib/chains';
+import { normalizeMetadata, normalizeToken, TokenDetail } from '@/lib/normalize';
+import fixtureTokens from './fixtures/tokens.json';
+import fixtureCandles from './fixtures/candles.json';
+import { FetchCandlesOptions, FetchTokenDetailOptions, FetchTokensOptions, MarketDataProvider } from './types';
+
+// Keyed by token id (chain:address)
+const RECORDED_CANDLES = fixtureCandles.candles as Record<string, Candle[]>;
+const RECORDED_INTERVAL = CANDLE_INTERVALS[fixtureCandles.interval as keyof typeof CANDLE_INTERVALS];
+
+/**
+ * Offline provider backed by a checked-in snapshot
+ *
+ * Has no I/O, so it is safe to use in the browser as a last resort and
+ * lets the whole app run without network access.
+ */
+export function createFixtureProvider(
+  tokens: Token[] = fixtureTokens.map((t) => normalizeToken({ ...t, chain: t.chain as ChainId, source: 'fixture' })),
+  candles: Record<string, Candle[]> = RECORDED_CANDLES
+): MarketDataProvider {
+  return {
+    name: 'fixture',
+    async fetchTokens({ chain = 'solana', limit }: FetchTokensOptions = {}): Promise<Token[]> {
+      const result = tokens.filter((t) => t.chain === chain);
+      return result.slice(0, limit);
+    },
+
+    async fetchCandles(address: string, { interval, from, to, chain }: FetchCandlesOptions): Promise<Candle[]> {
+      const recorded = candles[tokenKey(chain, address)];
+      if (!recorded || recorded.length === 0) return [];
+
+      // Shift the recording so its last bar lands on the bucket containing `to`
+      const last = recorded[recorded.length - 1].time;
+      const offset = Math.floor(to / RECORDED_INTERVAL) * RECORDED_INTERVAL - last;
+      const shifted = recorded.map((c) => ({ ...c, time: c.time + offset }));
+
+      return sliceCandles(resampleCandles(shifted, interval), from, to);
+    },
+
+    // The snapshot has market data only, so every metadata field is unknown
+    async fetchTokenDetail(address: string, { chain }: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+      const id = tokenKey(chain, address);
+      const token = tokens.find((t) => t.id === id);
+      return token ? { token, metadata: normalizeMetadata({ tokenAddress: token.address, source: 'fixture' }) } : null;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchJson } from './http';
+import { ProviderError, ProviderNetworkError } from './types';
+
+const realFetch = globalThis.fetch;
+
+/** Answer every request with `status` and the given headers */
+function stubFetch(status: number, headers: Record<string, string> = {}) {
+  globalThis.fetch = async () => Response.json({ ok: status < 400 }, { status, headers });
+}
+
+/** The ProviderError a failed fetchJson call rejects with */
+async function failure(): Promise<ProviderError> {
+  try {
+    await fetchJson('stub', 'https://example.test/');
+  } catch (error) {
+    assert.ok(error instanceof ProviderError);
+    return error;
+  }
+  assert.fail('fetchJson resolved');
+}
+
+describe('fetchJson', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('reads Retry-After given in seconds', async () => {
+    stubFetch(429, { 'Retry-After': '120' });
+    const error = await failure();
+    assert.equal(error.status, 429);
+    assert.equal(error.retryAfterMs, 120_000);
+  });
+
+  it('reads Retry-After given as an HTTP date', async () => {
+    stubFetch(503, { 'Retry-After': new Date(Date.now() + 60_000).toUTCString() });
+    const { retryAfterMs } = await failure();
+    assert.ok(retryAfterMs !== undefined && retryAfterMs > 55_000 && retryAfterMs <= 60_000, `retryAfterMs ${retryAfterMs}`);
+  });
+
+  it('ignores a missing or malformed Retry-After', async () => {
+    stubFetch(503);
+    assert.equal((await failure()).retryAfterMs, undefined);
+    stubFetch(503, { 'Retry-After': 'soon' });
+    assert.equal((await failure()).retryAfterMs, undefined);
+  });
+
+  it('wraps connection failures as network errors', async () => {
+    globalThis.fetch = async () => {
+      throw new TypeError('fetch failed');
+    };
+    await assert.rejects(fetchJson('stub', 'https://example.test/'), ProviderNetworkError);
+  });
+});
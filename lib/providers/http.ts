@@ -0,0 +1,49 @@
+import { getUpstreamBudget } from './budget';
+import { ProviderError, ProviderNetworkError, UpstreamBudgetError } from './types';
+
+/** Retry-After is either delay-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Fetch a JSON document from an upstream API, raising ProviderError on
+ * network failures and non-2xx responses
+ *
+ * Every call draws on the shared upstream budget; an exhausted budget
+ * throws UpstreamBudgetError so callers fall back or serve cached data.
+ */
+export async function fetchJson<T>(provider: string, url: string, init?: RequestInit): Promise<T> {
+  const budget = getUpstreamBudget();
+  if (!budget.tryTake()) {
+    throw new UpstreamBudgetError(provider, budget.waitMs());
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        'Accept': 'application/json',
+        ...init?.headers,
+      },
+    });
+  } catch (error) {
+    throw new ProviderNetworkError(provider, `Request failed: ${String(error)}`);
+  }
+
+  if (!response.ok) {
+    throw new ProviderError(
+      provider,
+      `API error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  return (await response.json()) as T;
+}
@@ -0,0 +1,197 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle } from '@/lib/chart-data';
+import { ChainId, DEFAULT_CHAINS, parseChainList } from '@/lib/chains';
+import { TokenDetail } from '@/lib/normalize';
+import { createCandleProvider } from './candles';
+import { createCoinGeckoProvider } from './coingecko';
+import { createDexScreenerProvider } from './dexscreener';
+import { createFixtureProvider } from './fixture';
+import { createMobulaProvider } from './mobula';
+import { createRecorderProvider } from './recorder';
+import { createResilientProvider } from './resilient';
+import { FetchCandlesOptions, FetchTokenDetailOptions, FetchTokensOptions, MarketDataProvider, ProviderName } from './types';
+
+export * from './types';
+export {
+  createCandleProvider,
+  createCoinGeckoProvider,
+  createDexScreenerProvider,
+  createFixtureProvider,
+  createMobulaProvider,
+  createRecorderProvider,
+  createResilientProvider,
+};
+
+const PROVIDER_FACTORIES: Record<ProviderName, () => MarketDataProvider> = {
+  coingecko: () => createCoinGeckoProvider(),
+  dexscreener: () => createDexScreenerProvider(),
+  mobula: () => createMobulaProvider(),
+  fixture: () => createFixtureProvider(),
+  recorder: () => createRecorderProvider(),
+};
+
+/**
+ * Default chain used when MARKET_DATA_PROVIDERS is not set
+ *
+ * No fixture fallback: when CoinGecko fails, routes serve their cached
+ * data marked STALE rather than snapshot prices that look live.
+ */
+export const DEFAULT_PROVIDER_CHAIN = 'coingecko';
+
+/**
+ * Candle sources: recorded observations plus the listing chain's history
+ * (see createCandleProvider); `recorder` in the spec is implied
+ */
+export function getCandleProvider(
+  spec = process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDER_CHAIN
+): MarketDataProvider {
+  const upstream = spec
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((name) => name && name !== 'recorder');
+  const recorder = createRecorderProvider();
+  if (upstream.length === 0) return recorder;
+  return createCandleProvider(recorder, getMarketDataProvider(upstream.join(',')));
+}
+
+/** Chains listed by /api/tokens and re-quoted by the price worker (MARKET_DATA_CHAINS) */
+export function getMarketDataChains(
+  spec = process.env.MARKET_DATA_CHAINS || DEFAULT_CHAINS.join(',')
+): ChainId[] {
+  return parseChainList(spec);
+}
+
+/** Sources served from local data; never rate-limited or circuit-broken */
+const LOCAL_PROVIDERS = new Set<ProviderName>(['fixture', 'recorder']);
+
+export function isProviderName(value: string): value is ProviderName {
+  return Object.hasOwn(PROVIDER_FACTORIES, value);
+}
+
+/**
+ * Compose providers into a fallback chain
+ *
+ * Providers are tried in order; a provider that throws or returns no
+ * results hands over to the next one. The last error is rethrown when
+ * every provider fails. A token detail no provider knows is null.
+ */
+export function createFallbackProvider(providers: MarketDataProvider[]): MarketDataProvider {
+  if (providers.length === 1) return providers[0];
+
+  async function firstNonEmpty<T>(call: (provider: MarketDataProvider) => Promise<T[]>): Promise<T[]> {
+    let lastError: unknown = null;
+
+    for (const provider of providers) {
+      try {
+        const result = await call(provider);
+        if (result.length > 0) return result;
+        console.warn(`⚠️ ${provider.name} returned no results, trying next provider...`);
+      } catch (error) {
+        console.warn(`⚠️ ${provider.name} failed, trying next provider:`, error);
+        lastError = error;
+      }
+    }
+
+    if (lastError) throw lastError;
+    return [];
+  }
+
+  async function firstFound(address: string, options: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+    let lastError: unknown = null;
+
+    for (const provider of providers) {
+      try {
+        const detail = await provider.fetchTokenDetail(address, options);
+        if (detail) return detail;
+      } catch (error) {
+        console.warn(`⚠️ ${provider.name} failed, trying next provider:`, error);
+        lastError = error;
+      }
+    }
+
+    if (lastError) throw lastError;
+    return null;
+  }
+
+  return {
+    name: providers.map((p) => p.name).join('>'),
+    fetchTokens(options?: FetchTokensOptions): Promise<Token[]> {
+      return firstNonEmpty((p) => p.fetchTokens(options));
+    },
+    fetchCandles(address: string, options: FetchCandlesOptions): Promise<Candle[]> {
+      return firstNonEmpty((p) => p.fetchCandles(address, options));
+    },
+    fetchTokenDetail(address: string, options: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+      return firstFound(address, options);
+    },
+    health() {
+      return providers.flatMap((p) => p.health?.() ?? []);
+    },
+  };
+}
+
+export interface GetProviderOptions {
+  /** Wrap remote sources with rate limits, retries and circuit breakers */
+  resilient?: boolean;
+}
+
+/**
+ * Build a provider from a comma-separated spec such as "dexscreener,coingecko"
+ *
+ * @param spec - Provider names in fallback order (defaults to MARKET_DATA_PROVIDERS)
+ * @param options - `resilient` wraps each remote source (see createResilientProvider)
+ */
+export function getMarketDataProvider(
+  spec = process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDER_CHAIN,
+  { resilient = false }: GetProviderOptions = {}
+): MarketDataProvider {
+  const names = spec
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = names.filter((n) => !isProviderName(n));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown market data provider(s): ${unknown.join(', ')}`);
+  }
+  if (names.length === 0) {
+    throw new Error('No market data providers configured');
+  }
+
+  return createFallbackProvider(
+    (names as ProviderName[]).map((n) => {
+      const provider = PROVIDER_FACTORIES[n]();
+      return resilient && !LOCAL_PROVIDERS.has(n) ? createResilientProvider(provider) : provider;
+    })
+  );
+}
+
+/**
+ * Fetch tokens for several chains from one provider
+ *
+ * Chains are fetched concurrently. A chain that fails is logged and left
+ * out; the first error is rethrown only when every chain failed.
+ */
+export async function fetchTokensForChains(
+  provider: MarketDataProvider,
+  chains: ChainId[],
+  options: Omit<FetchTokensOptions, 'chain'> = {}
+): Promise<Token[]> {
+  const results = await Promise.allSettled(
+    chains.map((chain) => provider.fetchTokens({ ...options, chain }))
+  );
+
+  const tokens: Token[] = [];
+  const errors: unknown[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      tokens.push(...result.value);
+    } else {
+      console.warn(`⚠️ ${provider.name} failed for ${chains[i]}:`, result.reason);
+      errors.push(result.reason);
+    }
+  });
+
+  if (errors.length === chains.length && errors.length > 0) throw errors[0];
+  return tokens;
+}
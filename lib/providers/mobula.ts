@@ -0,0 +1,86 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, resampleCandles, sliceCandles } from '@/lib/chart-data';
+import { CHAINS, isValidAddress, resolveChain } from '@/lib/chains';
+import { fromMobulaAsset, fromMobulaMetadata, MobulaAsset, MobulaMetadata, TokenDetail } from '@/lib/normalize';
+import { fetchJson } from './http';
+import { FetchCandlesOptions, FetchTokenDetailOptions, FetchTokensOptions, MarketDataProvider, ProviderError } from './types';
+
+const MOBULA_API_BASE = 'https://api.mobula.io/api/1';
+
+// Mobula pair history bar, time in milliseconds
+type MobulaOhlcv = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+export function createMobulaProvider(apiKey = process.env.MOBULA_API_KEY): MarketDataProvider {
+  function requireApiKey(): string {
+    if (!apiKey) {
+      throw new ProviderError('mobula', 'MOBULA_API_KEY is not set');
+    }
+    return apiKey;
+  }
+
+  return {
+    name: 'mobula',
+    async fetchTokens({ chain = 'solana', limit = 20 }: FetchTokensOptions = {}): Promise<Token[]> {
+      const key = requireApiKey();
+      const blockchain = CHAINS[chain].sourceIds.mobula;
+      const url = `${MOBULA_API_BASE}/market/query?sortBy=volume&sortOrder=desc&blockchain=${encodeURIComponent(blockchain)}&limit=${limit}`;
+
+      const data = await fetchJson<MobulaAsset[] | { data?: MobulaAsset[] }>('mobula', url, {
+        headers: { Authorization: key },
+      });
+      const assets = Array.isArray(data) ? data : data.data ?? [];
+
+      // Assets without a contract on this chain have no token identity here
+      return assets.slice(0, limit).flatMap((asset) => {
+        const contract = asset.contracts?.find(
+          (c) => resolveChain(c.blockchain) === chain && isValidAddress(chain, c.address)
+        );
+        return contract ? [fromMobulaAsset(asset, chain, contract.address)] : [];
+      });
+    },
+
+    async fetchCandles(address: string, { interval, from, to, chain }: FetchCandlesOptions): Promise<Candle[]> {
+      const key = requireApiKey();
+      // Mobula's history periods match our interval names
+      const url = `${MOBULA_API_BASE}/market/history/pair?asset=${encodeURIComponent(address)}&blockchain=${encodeURIComponent(CHAINS[chain].sourceIds.mobula)}&period=${interval}&from=${from * 1000}&to=${to * 1000}`;
+
+      const data = await fetchJson<{ data?: MobulaOhlcv[] }>('mobula', url, {
+        headers: { Authorization: key },
+      });
+
+      const candles = (data.data ?? []).map((bar) => ({
+        time: Math.floor(bar.time / 1000),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume ?? null,
+      }));
+
+      return sliceCandles(resampleCandles(candles, interval), from, to);
+    },
+
+    async fetchTokenDetail(address: string, { chain }: FetchTokenDetailOptions): Promise<TokenDetail | null> {
+      const key = requireApiKey();
+      const url = `${MOBULA_API_BASE}/metadata?asset=${encodeURIComponent(address)}&blockchain=${encodeURIComponent(CHAINS[chain].sourceIds.mobula)}`;
+
+      try {
+        const data = await fetchJson<{ data?: MobulaMetadata }>('mobula', url, {
+          headers: { Authorization: key },
+        });
+        return data.data ? fromMobulaMetadata(data.data, chain, address) : null;
+      } catch (error) {
+        // Unknown assets are a 404, not an outage
+        if (error instanceof ProviderError && error.status === 404) return null;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle } from '@/lib/chart-data';
+import { tokenKey } from '@/lib/chains';
+import { getTickStore } from '@/lib/timeseries/tick-store';
+import { TokenDetail } from '@/lib/normalize';
+import { FetchCandlesOptions, MarketDataProvider, ProviderError } from './types';
+
+/**
+ * Candles built from our own recorded observations
+ *
+ * Covers tokens that upstream sources have no history for (e.g. fresh
+ * pairs seen by the poller). Has no token listing of its own.
+ */
+export function createRecorderProvider(): MarketDataProvider {
+  return {
+    name: 'recorder',
+    async fetchTokens(): Promise<Token[]> {
+      throw new ProviderError('recorder', 'Token listing is not supported');
+    },
+
+    async fetchCandles(address: string, { interval, from, to, chain }: FetchCandlesOptions): Promise<Candle[]> {
+      // Observations are stored under the token id (chain:address)
+      return getTickStore().candles(tokenKey(chain, address), interval, { from, to, chain });
+    },
+
+    async fetchTokenDetail(): Promise<TokenDetail | null> {
+      throw new ProviderError('recorder', 'Token detail is not supported');
+    },
+  };
+}
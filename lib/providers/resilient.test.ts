@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Token } from '@/store/tokensSlice';
+import { createResilientProvider, ResiliencePolicy } from './resilient';
+import { MarketDataProvider, ProviderError, ProviderNetworkError, UpstreamBudgetError } from './types';
+
+/** Fast policy: no rate limiting to speak of, millisecond backoff */
+const POLICY: Partial<ResiliencePolicy> = {
+  rateLimit: { capacity: 100, refillPerSecond: 100 },
+  retries: 2,
+  baseDelayMs: 1,
+  maxRetryDelayMs: 50,
+  failureThreshold: 2,
+  cooldownMs: 60_000,
+};
+
+/** A source that throws each queued error in turn, then succeeds */
+function flakySource(errors: Error[]): MarketDataProvider & { calls: number } {
+  return {
+    name: 'flaky',
+    calls: 0,
+    async fetchTokens() {
+      const error = errors[this.calls++];
+      if (error) throw error;
+      return [] as Token[];
+    },
+    async fetchCandles() {
+      return [];
+    },
+    async fetchTokenDetail() {
+      return null;
+    },
+  };
+}
+
+const circuit = (provider: MarketDataProvider) => provider.health?.()[0].circuit;
+
+describe('createResilientProvider', () => {
+  it('retries network errors, 429s and 5xx responses', async () => {
+    const source = flakySource([
+      new ProviderNetworkError('flaky', 'ECONNRESET'),
+      new ProviderError('flaky', 'API error: 503', 503),
+    ]);
+    const provider = createResilientProvider(source, POLICY);
+
+    assert.deepEqual(await provider.fetchTokens(), []);
+    assert.equal(source.calls, 3);
+    assert.equal(circuit(provider), 'closed');
+  });
+
+  it('throws other errors at once without counting them', async () => {
+    const source = flakySource([new ProviderError('flaky', 'API error: 404', 404)]);
+    const provider = createResilientProvider(source, POLICY);
+
+    await assert.rejects(provider.fetchTokens(), /404/);
+    assert.equal(source.calls, 1);
+    assert.equal(provider.health?.()[0].consecutiveFailures, 0);
+  });
+
+  it('does not blame the source for an exhausted upstream budget', async () => {
+    const exhausted = () => new UpstreamBudgetError('flaky', 1_000);
+    const source = flakySource([exhausted(), exhausted(), exhausted(), exhausted()]);
+    const provider = createResilientProvider(source, POLICY);
+
+    for (let i = 0; i < 4; i++) {
+      await assert.rejects(provider.fetchTokens(), UpstreamBudgetError);
+    }
+    assert.equal(source.calls, 4);
+    assert.equal(circuit(provider), 'closed');
+    assert.equal(provider.health?.()[0].lastError, null);
+  });
+
+  it('opens the circuit after repeated failures and fails fast while open', async () => {
+    const down = () => new ProviderError('flaky', 'API error: 500', 500);
+    const source = flakySource(Array.from({ length: 6 }, down));
+    const provider = createResilientProvider(source, POLICY);
+
+    await assert.rejects(provider.fetchTokens(), /500/);
+    await assert.rejects(provider.fetchTokens(), /500/);
+    assert.equal(circuit(provider), 'open');
+
+    const calls = source.calls;
+    await assert.rejects(provider.fetchTokens(), /Circuit open/);
+    assert.equal(source.calls, calls);
+  });
+
+  it('opens the circuit for a Retry-After longer than it will wait', async () => {
+    const source = flakySource([new ProviderError('flaky', 'API error: 429', 429, 120_000)]);
+    const provider = createResilientProvider(source, POLICY);
+
+    await assert.rejects(provider.fetchTokens(), /429/);
+    assert.equal(source.calls, 1);
+    assert.equal(circuit(provider), 'open');
+    const retryAt = provider.health?.()[0].retryAt ?? 0;
+    assert.ok(retryAt - Date.now() > 100_000);
+  });
+});
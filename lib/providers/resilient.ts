@@ -0,0 +1,144 @@
+import { createCircuitBreaker } from './circuit-breaker';
+import { createTokenBucket, TokenBucketOptions } from './token-bucket';
+import { MarketDataProvider, ProviderError, ProviderNetworkError, SourceHealth, UpstreamBudgetError } from './types';
+
+/**
+ * Rate limiting, retries and circuit breaking around one provider
+ *
+ * Every upstream call first takes a token from the source's bucket.
+ * Retryable failures (network errors, 429, 5xx) are retried with
+ * exponential backoff and jitter, or after the server's Retry-After when
+ * it sent one. A Retry-After longer than `maxRetryDelayMs` opens the
+ * circuit until then instead of blocking the caller. Repeated retryable
+ * failures open the circuit so a fallback chain skips the source without
+ * waiting. Other errors (404s, unlisted tokens, bad requests, our own
+ * exhausted upstream budget) say nothing about the source's health: they
+ * are thrown at once and not counted.
+ */
+
+export interface ResiliencePolicy {
+  rateLimit: TokenBucketOptions;
+  /** Retries after the first attempt */
+  retries: number;
+  baseDelayMs: number;
+  maxRetryDelayMs: number;
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const DEFAULT_POLICY: ResiliencePolicy = {
+  rateLimit: { capacity: 5, refillPerSecond: 1 },
+  retries: 2,
+  baseDelayMs: 1000,
+  maxRetryDelayMs: 15000,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+};
+
+/** Per-source budgets, from each API's published free-tier limits */
+export const SOURCE_POLICIES: Record<string, Partial<ResiliencePolicy>> = {
+  // 300 req/min on search; GeckoTerminal candles allow ~30/min
+  dexscreener: { rateLimit: { capacity: 5, refillPerSecond: 0.5 } },
+  // Public API: roughly 30 calls/min and quick to 429
+  coingecko: { rateLimit: { capacity: 3, refillPerSecond: 0.5 }, cooldownMs: 60000 },
+  mobula: { rateLimit: { capacity: 5, refillPerSecond: 1 } },
+};
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderNetworkError) return true;
+  // The request never left this process
+  if (error instanceof UpstreamBudgetError) return false;
+  if (!(error instanceof ProviderError) || error.status === undefined) return false;
+  return error.status === 429 || error.status >= 500;
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createResilientProvider(
+  provider: MarketDataProvider,
+  overrides: Partial<ResiliencePolicy> = SOURCE_POLICIES[provider.name] ?? {}
+): MarketDataProvider {
+  const policy: ResiliencePolicy = { ...DEFAULT_POLICY, ...overrides };
+  const bucket = createTokenBucket(policy.rateLimit);
+  const breaker = createCircuitBreaker({
+    failureThreshold: policy.failureThreshold,
+    cooldownMs: policy.cooldownMs,
+    onStateChange(state, retryAt) {
+      if (state === 'open') {
+        const seconds = retryAt ? Math.ceil((retryAt - Date.now()) / 1000) : 0;
+        console.warn(`🔌 [${provider.name}] circuit open, next probe in ${seconds}s`);
+      } else if (state === 'half-open') {
+        console.log(`🔌 [${provider.name}] circuit half-open, probing...`);
+      } else {
+        console.log(`🔌 [${provider.name}] circuit closed`);
+      }
+    },
+  });
+
+  let lastError: string | null = null;
+  let lastSuccessAt: number | null = null;
+  let lastFailureAt: number | null = null;
+
+  async function call<T>(request: () => Promise<T>): Promise<T> {
+    if (!breaker.allowRequest()) {
+      const retryIn = breaker.retryAt ? Math.ceil((breaker.retryAt - Date.now()) / 1000) : 0;
+      throw new ProviderError(provider.name, `Circuit open, retry in ${retryIn}s`);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+      try {
+        const result = await request();
+        breaker.recordSuccess();
+        lastSuccessAt = Date.now();
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          breaker.recordNeutral();
+          throw error;
+        }
+        lastError = describe(error);
+        lastFailureAt = Date.now();
+
+        const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryDelayMs) {
+          // Server asked for a long pause: honour it without holding the caller
+          breaker.openUntil(Date.now() + retryAfterMs);
+          throw error;
+        }
+        if (attempt >= policy.retries) {
+          breaker.recordFailure();
+          throw error;
+        }
+
+        const backoff = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxRetryDelayMs);
+        const delay = retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+        console.warn(`⏳ [${provider.name}] ${lastError}; retry ${attempt + 1}/${policy.retries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    name: provider.name,
+    fetchTokens: (options) => call(() => provider.fetchTokens(options)),
+    fetchCandles: (address, options) => call(() => provider.fetchCandles(address, options)),
+    fetchTokenDetail: (address, options) => call(() => provider.fetchTokenDetail(address, options)),
+    health(): SourceHealth[] {
+      return [{
+        source: provider.name,
+        circuit: breaker.state,
+        consecutiveFailures: breaker.consecutiveFailures,
+        retryAt: breaker.state === 'closed' ? null : breaker.retryAt,
+        lastError,
+        lastSuccessAt,
+        lastFailureAt,
+        tokensAvailable: Math.floor(bucket.available()),
+      }];
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTokenBucket } from './token-bucket';
+
+describe('createTokenBucket', () => {
+  it('allows a burst up to capacity, then reports the wait for the next token', () => {
+    const bucket = createTokenBucket({ capacity: 2, refillPerSecond: 1 });
+    assert.equal(bucket.tryTake(), true);
+    assert.equal(bucket.tryTake(), true);
+    assert.equal(bucket.tryTake(), false);
+
+    const wait = bucket.waitMs();
+    assert.ok(wait > 900 && wait <= 1_000, `waitMs ${wait}`);
+  });
+
+  it('makes take() wait for the refill and serves waiters in order', async () => {
+    const bucket = createTokenBucket({ capacity: 1, refillPerSecond: 20 });
+    const order: number[] = [];
+    const started = Date.now();
+
+    await Promise.all([1, 2, 3].map((n) => bucket.take().then(() => order.push(n))));
+
+    assert.deepEqual(order, [1, 2, 3]);
+    // Two refills at 50ms each; allow for timer granularity
+    assert.ok(Date.now() - started >= 90, `took ${Date.now() - started}ms`);
+  });
+
+  it('never refills beyond capacity', async () => {
+    const bucket = createTokenBucket({ capacity: 2, refillPerSecond: 1_000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(bucket.available(), 2);
+  });
+});
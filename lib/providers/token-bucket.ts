@@ -0,0 +1,71 @@
+/**
+ * Token-bucket rate limiter
+ *
+ * Holds up to `capacity` request tokens and refills `refillPerSecond` of
+ * them continuously, so short bursts are allowed while the long-run rate
+ * stays at the refill rate.
+ */
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucket {
+  /** Wait until a token is available, then consume it */
+  take(): Promise<void>;
+  /** Consume a token if one is available now; never waits */
+  tryTake(): boolean;
+  /** Milliseconds until a token is available (0 if one is) */
+  waitMs(): number;
+  /** Tokens available right now (fractional while refilling) */
+  available(): number;
+}
+
+export function createTokenBucket({ capacity, refillPerSecond }: TokenBucketOptions): TokenBucket {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  // Serializes waiters so they are served in arrival order
+  let queue: Promise<void> = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * refillPerSecond);
+    updatedAt = now;
+  }
+
+  function waitMs() {
+    refill();
+    return tokens >= 1 ? 0 : ((1 - tokens) / refillPerSecond) * 1000;
+  }
+
+  async function acquire() {
+    const wait = waitMs();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      refill();
+    }
+    tokens -= 1;
+  }
+
+  return {
+    take() {
+      const next = queue.then(acquire);
+      queue = next.catch(() => {});
+      return next;
+    },
+
+    tryTake() {
+      if (waitMs() > 0) return false;
+      tokens -= 1;
+      return true;
+    },
+
+    waitMs,
+
+    available() {
+      refill();
+      return tokens;
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { Token } from '@/store/tokensSlice';
+import { Candle, CandleInterval } from '@/lib/chart-data';
+import { ChainId } from '@/lib/chains';
+import { TokenDetail } from '@/lib/normalize';
+
+/**
+ * Market data provider contracts
+ *
+ * Every source (CoinGecko, DEXScreener, Mobula, local fixtures, our own tick
+ * recorder) implements MarketDataProvider so the API routes and the poller
+ * can swap or chain sources without knowing which one served the data.
+ */
+
+export type ProviderName = 'coingecko' | 'dexscreener' | 'mobula' | 'fixture' | 'recorder';
+
+export interface FetchTokensOptions {
+  /** Chain to query (default solana); tokens from other chains are dropped */
+  chain?: ChainId;
+  /** Maximum number of tokens to return */
+  limit?: number;
+}
+
+export interface FetchCandlesOptions {
+  interval: CandleInterval;
+  /** Range start, unix seconds */
+  from: number;
+  /** Range end, unix seconds */
+  to: number;
+  /** Chain the token lives on */
+  chain: ChainId;
+}
+
+export interface FetchTokenDetailOptions {
+  /** Chain the token lives on */
+  chain: ChainId;
+}
+
+export interface MarketDataProvider {
+  /** Provider name, or "a>b" for a fallback chain */
+  readonly name: string;
+  fetchTokens(options?: FetchTokensOptions): Promise<Token[]>;
+  /**
+   * OHLCV bars for one token (by its address on `options.chain`), sorted by time
+   *
+   * Providers without candle data throw ProviderError so a fallback chain
+   * moves on to the next source.
+   */
+  fetchCandles(address: string, options: FetchCandlesOptions): Promise<Candle[]>;
+  /**
+   * One token (by its address on `options.chain`) with its metadata, or null
+   * when the source does not know it
+   */
+  fetchTokenDetail(address: string, options: FetchTokenDetailOptions): Promise<TokenDetail | null>;
+  /** Rate-limit and circuit-breaker state, for providers wrapped by createResilientProvider */
+  health?(): SourceHealth[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface SourceHealth {
+  source: string;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  /** Unix ms when an open circuit lets the next probe through */
+  retryAt: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  /** Requests currently available in the rate-limit bucket */
+  tokensAvailable: number;
+}
+
+/**
+ * Raised when an upstream source fails or returns an unusable response
+ */
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number,
+    /** Server-requested wait before retrying (Retry-After), in ms */
+    public readonly retryAfterMs?: number
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Raised when a request to the source never got a response (DNS, refused
+ * connection, timeout); worth retrying, unlike most errors without a status
+ */
+export class ProviderNetworkError extends ProviderError {
+  constructor(provider: string, message: string) {
+    super(provider, message);
+    this.name = 'ProviderNetworkError';
+  }
+}
+
+/**
+ * Raised before any request is sent when this process's shared upstream
+ * budget (lib/providers/budget) is used up; says nothing about the source's
+ * health, so circuit breakers ignore it
+ */
+export class UpstreamBudgetError extends ProviderError {
+  constructor(provider: string, retryAfterMs: number) {
+    super(provider, 'Upstream request budget exhausted', 429, retryAfterMs);
+    this.name = 'UpstreamBudgetError';
+  }
+}
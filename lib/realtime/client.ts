@@ -0,0 +1,11 @@
+import { createPusherClient } from './pusher-client';
+import { createSseClient } from './sse-client';
+import { getTransportName, RealtimeClient } from './types';
+
+export { PULSE_CHANNEL } from './types';
+export type { ConnectionState, RealtimeChannel, RealtimeClient } from './types';
+
+/** Browser connection selected by NEXT_PUBLIC_REALTIME_TRANSPORT (default: local SSE) */
+export function createRealtimeClient(): RealtimeClient {
+  return getTransportName() === 'pusher' ? createPusherClient() : createSseClient();
+}
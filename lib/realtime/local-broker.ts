@@ -0,0 +1,64 @@
+import { RealtimeEvent } from './types';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * In-memory pub/sub broker backing the local transport
+ *
+ * Lives in the Next server process: /api/realtime/stream registers one
+ * listener per connected browser and publishers (API routes directly,
+ * scripts via /api/realtime/publish) fan events out to them.
+ */
+
+export type BrokerListener = (event: RealtimeEvent) => void;
+
+export interface LocalBroker {
+  subscribe(channel: string, listener: BrokerListener): () => void;
+  publish(channel: string, events: RealtimeEvent[]): void;
+  /** Connected listeners on a channel */
+  listenerCount(channel: string): number;
+}
+
+export function createLocalBroker(): LocalBroker {
+  const channels = new Map<string, Set<BrokerListener>>();
+
+  return {
+    subscribe(channel, listener) {
+      let listeners = channels.get(channel);
+      if (!listeners) {
+        listeners = new Set();
+        channels.set(channel, listeners);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) channels.delete(channel);
+      };
+    },
+
+    publish(channel, events) {
+      const listeners = channels.get(channel);
+      if (!listeners) return;
+
+      for (const event of events) {
+        for (const listener of listeners) {
+          try {
+            listener(event);
+          } catch (error) {
+            // One broken stream must not stop delivery to the others
+            console.error('⚠️ Realtime listener failed:', error);
+          }
+        }
+      }
+    },
+
+    listenerCount(channel) {
+      return channels.get(channel)?.size ?? 0;
+    },
+  };
+}
+
+/** The server's broker; the stream and publish routes must share it */
+export function getLocalBroker(): LocalBroker {
+  return globalSingleton('realtimeBroker', () => createLocalBroker());
+}
@@ -0,0 +1,18 @@
+import { getLocalBroker } from './local-broker';
+import { RealtimeTransport } from './types';
+
+/**
+ * Publisher for the self-hosted SSE broker, inside the Next server
+ *
+ * Events go straight to the in-memory broker; scripts reach it through
+ * the relay transport (see relay-transport.ts).
+ */
+export function createLocalTransport(): RealtimeTransport {
+  return {
+    name: 'local',
+    async publish(channel, events) {
+      if (events.length === 0) return;
+      getLocalBroker().publish(channel, events);
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { Token, TokenUpdate } from '@/store/tokensSlice';
+
+interface PriceDifferOptions {
+  /** Relative price move below which a quote is not re-published (default 0: any change) */
+  minRelativeChange?: number;
+}
+
+export interface PriceDiffer {
+  /** Remember quotes without producing updates (e.g. tokens just announced via token.created) */
+  seed(tokens: Token[]): void;
+  /**
+   * Compare fresh quotes to the last published ones
+   *
+   * @returns Updates for known tokens whose market data changed; tokens seen
+   *          for the first time are only remembered
+   */
+  diff(tokens: Token[]): TokenUpdate[];
+}
+
+/** Unreported fields are left out of the update rather than cleared */
+function toUpdate(token: Token & { price: number }): TokenUpdate {
+  return {
+    id: token.id,
+    price: token.price,
+    priceChange24h: token.priceChange24h ?? undefined,
+    volume24h: token.volume24h ?? undefined,
+    marketCap: token.marketCap ?? undefined,
+    liquidity: token.liquidity ?? undefined,
+    source: token.provenance.price?.source ?? token.source ?? 'unknown',
+    updatedAt: token.provenance.price?.updatedAt ?? Date.now(),
+  };
+}
+
+function hasPrice(token: Token): token is Token & { price: number } {
+  return token.price !== null;
+}
+
+export function createPriceDiffer({ minRelativeChange = 0 }: PriceDifferOptions = {}): PriceDiffer {
+  const last = new Map<string, TokenUpdate>();
+
+  function changed(prev: TokenUpdate, next: TokenUpdate): boolean {
+    const priceMove = prev.price === 0
+      ? (next.price === 0 ? 0 : Infinity)
+      : Math.abs(next.price - prev.price) / prev.price;
+    return (
+      priceMove > minRelativeChange ||
+      next.volume24h !== prev.volume24h ||
+      next.marketCap !== prev.marketCap ||
+      next.liquidity !== prev.liquidity
+    );
+  }
+
+  return {
+    seed(tokens) {
+      for (const token of tokens.filter(hasPrice)) {
+        last.set(token.id, toUpdate(token));
+      }
+    },
+
+    diff(tokens) {
+      const updates: TokenUpdate[] = [];
+      // Tokens without a quote have nothing to publish yet
+      for (const token of tokens.filter(hasPrice)) {
+        const next = toUpdate(token);
+        const prev = last.get(token.id);
+        if (prev && !changed(prev, next)) continue;
+
+        last.set(token.id, next);
+        if (prev) updates.push(next);
+      }
+      return updates;
+    },
+  };
+}
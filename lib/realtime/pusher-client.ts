@@ -0,0 +1,77 @@
+import Pusher from 'pusher-js';
+import { ConnectionState, RealtimeClient } from './types';
+
+// Enable Pusher logging in development
+if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
+  Pusher.logToConsole = true;
+}
+
+const STATE_MAP: Record<string, ConnectionState> = {
+  initialized: 'connecting',
+  connecting: 'connecting',
+  connected: 'connected',
+  unavailable: 'disconnected',
+  disconnected: 'disconnected',
+  failed: 'failed',
+};
+
+/**
+ * Browser client for hosted Pusher Channels
+ * Requires NEXT_PUBLIC_PUSHER_KEY and NEXT_PUBLIC_PUSHER_CLUSTER.
+ */
+export function createPusherClient(): RealtimeClient {
+  const key = process.env.NEXT_PUBLIC_PUSHER_KEY;
+  const cluster = process.env.NEXT_PUBLIC_PUSHER_CLUSTER;
+  if (!key || !cluster) {
+    throw new Error('NEXT_PUBLIC_PUSHER_KEY and NEXT_PUBLIC_PUSHER_CLUSTER must be set for the pusher transport');
+  }
+
+  const pusher = new Pusher(key, {
+    cluster,
+    forceTLS: true,
+    enabledTransports: ['ws', 'wss'],
+    disabledTransports: ['sockjs', 'xhr_polling', 'xhr_streaming'],
+    // Add these important options for better connection stability
+    activityTimeout: 120000, // 2 minutes
+    pongTimeout: 30000, // 30 seconds
+    unavailableTimeout: 10000, // 10 seconds
+  });
+
+  pusher.connection.bind('error', (err: Error) => {
+    console.error('❌ Pusher error:', err);
+  });
+
+  return {
+    name: 'pusher',
+
+    subscribe(channelName) {
+      const channel = pusher.channel(channelName) ?? pusher.subscribe(channelName);
+      return {
+        bind: (event, handler) => {
+          channel.bind(event, handler);
+        },
+        unbind: (event, handler) => {
+          channel.unbind(event, handler);
+        },
+      };
+    },
+
+    unsubscribe(channelName) {
+      pusher.unsubscribe(channelName);
+    },
+
+    onStateChange(listener) {
+      const handler = ({ current }: { previous: string; current: string }) => {
+        listener(STATE_MAP[current] ?? 'disconnected');
+      };
+      pusher.connection.bind('state_change', handler);
+      return () => {
+        pusher.connection.unbind('state_change', handler);
+      };
+    },
+
+    disconnect() {
+      pusher.disconnect();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import Pusher from 'pusher';
+import { RealtimeTransport } from './types';
+import { globalSingleton } from '@/lib/singleton';
+
+/** Pusher accepts at most 10 events per batch trigger */
+const MAX_BATCH_SIZE = 10;
+
+/**
+ * Shared server-side Pusher client (scripts relay through the Next server)
+ */
+export function getPusherServer(): Pusher {
+  return globalSingleton('pusherServer', () => new Pusher({
+    appId: process.env.PUSHER_APP_ID!,
+    key: process.env.PUSHER_KEY!,
+    secret: process.env.PUSHER_SECRET!,
+    cluster: process.env.PUSHER_CLUSTER!,
+    useTLS: true,
+  }));
+}
+
+/**
+ * Publisher for hosted Pusher Channels, batched to keep the number of
+ * Pusher API calls down
+ */
+export function createPusherTransport(): RealtimeTransport {
+  return {
+    name: 'pusher',
+    async publish(channel, events) {
+      for (let i = 0; i < events.length; i += MAX_BATCH_SIZE) {
+        const batch = events.slice(i, i + MAX_BATCH_SIZE).map(({ name, data }) => ({
+          channel,
+          name,
+          data,
+        }));
+        await getPusherServer().triggerBatch(batch);
+      }
+    },
+  };
+}
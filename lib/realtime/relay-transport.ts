@@ -0,0 +1,36 @@
+import { getTransportName, RealtimeTransport } from './types';
+
+/** Default Next server for scripts publishing from outside it */
+const DEFAULT_BROKER_URL = 'http://localhost:3000';
+
+/**
+ * Publisher for standalone scripts (poller, price worker)
+ *
+ * Scripts POST their events to /api/realtime/publish on REALTIME_BROKER_URL.
+ * The Next server validates them, adds the lifecycle transitions they cause
+ * (it owns the only lifecycle tracker, see lib/lifecycle) and publishes
+ * through its own transport, so `name` is the server's transport.
+ */
+export function createRelayTransport(): RealtimeTransport {
+  return {
+    name: getTransportName(),
+    async publish(channel, events) {
+      if (events.length === 0) return;
+
+      const baseUrl = process.env.REALTIME_BROKER_URL ?? DEFAULT_BROKER_URL;
+      const secret = process.env.REALTIME_PUBLISH_SECRET;
+      const response = await fetch(`${baseUrl}/api/realtime/publish`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+        },
+        body: JSON.stringify({ channel, events }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Realtime publish rejected: HTTP ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
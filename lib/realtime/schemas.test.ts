@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeToken } from '@/lib/normalize';
+import { Token } from '@/store/tokensSlice';
+import { MAX_PUBLISH_BATCH, parsePublishBody } from './schemas';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const ID = `solana:${BONK}`;
+
+const token = normalizeToken({
+  chain: 'solana',
+  address: BONK,
+  symbol: 'bonk',
+  name: 'Bonk',
+  price: 0.000013,
+  marketCap: 20_000,
+  source: 'mobula',
+  observedAt: 1_700_000_000_000,
+});
+
+const update = { id: ID, price: 0.000014, source: 'coingecko', updatedAt: 1_700_000_060_000 };
+
+describe('parsePublishBody', () => {
+  it('accepts known events on the pulse channel', () => {
+    const result = parsePublishBody({ events: [{ name: 'token.updated', data: update }] });
+    assert.ok(result.ok);
+    assert.equal(result.channel, 'pulse');
+    assert.deepEqual(result.events, [{ name: 'token.updated', data: update }]);
+  });
+
+  it('rebuilds created tokens instead of trusting derived fields', () => {
+    const forged = { ...token, id: 'solana:other', category: 'migrated', logo: 'javascript:alert(1)' };
+    const result = parsePublishBody({ events: [{ name: 'token.created', data: forged }] });
+    assert.ok(result.ok);
+
+    const published = result.events[0].data as Token;
+    assert.equal(published.id, ID);
+    assert.equal(published.category, token.category);
+    assert.equal(published.logo, null);
+    assert.deepEqual(published.provenance, token.provenance);
+    assert.equal(published.firstSeenAt, token.firstSeenAt);
+  });
+
+  it('rejects other channels and unknown event names', () => {
+    const channel = parsePublishBody({ channel: 'private-admin', events: [{ name: 'token.updated', data: update }] });
+    assert.equal(channel.ok, false);
+
+    const name = parsePublishBody({ events: [{ name: 'system.reload', data: {} }] });
+    assert.equal(name.ok, false);
+  });
+
+  it('leaves lifecycle transitions to the server', () => {
+    const change = { id: ID, from: 'new', to: 'rugged', reason: 'forged', changedAt: 1_700_000_000_000 };
+    assert.equal(parsePublishBody({ events: [{ name: 'token.category_changed', data: change }] }).ok, false);
+  });
+
+  it('rejects the whole request when any payload is invalid', () => {
+    const result = parsePublishBody({
+      events: [
+        { name: 'token.updated', data: update },
+        { name: 'token.updated', data: { ...update, id: 'solana:not-an-address', price: -1 } },
+      ],
+    });
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.deepEqual(result.errors.map((error) => error.path).sort(), ['events.1.data.id', 'events.1.data.price']);
+  });
+
+  it('rejects empty and oversized batches', () => {
+    assert.equal(parsePublishBody({ events: [] }).ok, false);
+    const events = Array.from({ length: MAX_PUBLISH_BATCH + 1 }, () => ({ name: 'token.updated', data: update }));
+    assert.equal(parsePublishBody({ events }).ok, false);
+  });
+});
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { CHAIN_IDS, ChainId, isValidAddress, parseTokenKey } from '@/lib/chains';
+import { normalizeToken } from '@/lib/normalize';
+import { lastUpdatedAt, TRACKED_FIELDS, TrackedField } from '@/lib/provenance';
+import { Token } from '@/store/tokensSlice';
+import { PULSE_CHANNEL, RealtimeEvent, RealtimeEventName } from './types';
+
+/**
+ * Schemas for events scripts publish through /api/realtime/publish
+ *
+ * Whatever reaches the broker is fanned out to every client as-is, so the
+ * publish route accepts only the pulse channel, known event names and
+ * payloads shaped like the ones lib/realtime/server builds. Created tokens
+ * are rebuilt through normalizeToken, the same as provider listings.
+ * `token.category_changed` is not accepted: the server decides transitions.
+ */
+
+/** Channels scripts may publish to */
+export const PUBLISH_CHANNELS = [PULSE_CHANNEL];
+
+/** Largest number of events accepted in one request */
+export const MAX_PUBLISH_BATCH = 500;
+
+export interface PublishIssue {
+  /** Dotted path into the body, e.g. "events.3.data.price" */
+  path: string;
+  message: string;
+}
+
+export type PublishParseResult =
+  | { ok: true; channel: string; events: RealtimeEvent[] }
+  | { ok: false; errors: PublishIssue[] };
+
+const nonEmpty = z.string().trim().min(1);
+const usd = z.number().nonnegative();
+/** Unix milliseconds */
+const timestamp = z.number().int().positive();
+
+/** `chain:address` of a known chain with a well-formed address */
+const tokenId = z.string().refine((id) => {
+  const key = parseTokenKey(id);
+  return key !== null && isValidAddress(key.chain, key.address);
+}, 'Expected chain:address');
+
+const chain = z.enum(CHAIN_IDS as [ChainId, ...ChainId[]]);
+
+const fieldProvenance = z.object({ source: nonEmpty, updatedAt: timestamp });
+
+const token = z.object({
+  chain,
+  address: nonEmpty,
+  symbol: z.string(),
+  name: z.string(),
+  price: z.number().positive().nullable(),
+  priceChange24h: z.number().nullable(),
+  volume24h: usd.nullable(),
+  marketCap: usd.nullable(),
+  liquidity: usd.nullable(),
+  holders: z.number().int().nonnegative().nullable(),
+  bondingCurveProgress: z.number().min(0).max(100).nullable(),
+  logo: z.string().nullable(),
+  source: nonEmpty.optional(),
+  provenance: z.partialRecord(z.enum(TRACKED_FIELDS as [TrackedField, ...TrackedField[]]), fieldProvenance),
+  createdAt: timestamp.nullable(),
+  firstSeenAt: timestamp,
+}).superRefine((data, ctx) => {
+  if (!isValidAddress(data.chain, data.address.trim())) {
+    ctx.addIssue({ code: 'custom', path: ['address'], message: `Not a valid ${data.chain} address` });
+  }
+});
+
+/** Rebuild a published token the way providers build them; category and id are derived, not trusted */
+function toToken(data: z.infer<typeof token>): Token {
+  const estimated = data.provenance.bondingCurveProgress?.source === 'estimate';
+  const normalized = normalizeToken({
+    ...data,
+    bondingCurveProgress: estimated ? undefined : data.bondingCurveProgress,
+    source: data.source ?? 'unknown',
+    observedAt: lastUpdatedAt(data.provenance) ?? data.firstSeenAt,
+  });
+  return { ...normalized, firstSeenAt: data.firstSeenAt };
+}
+
+const tokenUpdate = z.object({
+  id: tokenId,
+  price: z.number().positive(),
+  priceChange24h: z.number().optional(),
+  volume24h: usd.optional(),
+  marketCap: usd.optional(),
+  liquidity: usd.optional(),
+  source: nonEmpty,
+  updatedAt: timestamp,
+});
+
+const tokenTrade = z.object({
+  id: tokenId,
+  chain,
+  side: z.enum(['buy', 'sell']),
+  priceUsd: z.number().positive(),
+  amountUsd: usd,
+  txHash: nonEmpty,
+  time: timestamp,
+});
+
+const tokenMigration = z.object({
+  id: tokenId,
+  chain,
+  pairAddress: nonEmpty.optional(),
+  dex: nonEmpty.optional(),
+  migratedAt: timestamp,
+});
+
+type PublishableEventName = Exclude<RealtimeEventName, 'token.category_changed'>;
+
+const EVENT_DATA: Record<PublishableEventName, z.ZodType<unknown>> = {
+  'token.created': token.transform(toToken),
+  'token.updated': tokenUpdate,
+  'token.traded': tokenTrade,
+  'token.migrated': tokenMigration,
+};
+
+/** Event names scripts may publish */
+export const PUBLISHABLE_EVENTS = Object.keys(EVENT_DATA) as PublishableEventName[];
+
+const publishBody = z.object({
+  channel: z.enum(PUBLISH_CHANNELS as [string, ...string[]]).default(PULSE_CHANNEL),
+  events: z
+    .array(z.object({ name: z.enum(PUBLISHABLE_EVENTS as [PublishableEventName, ...PublishableEventName[]]), data: z.unknown() }))
+    .min(1)
+    .max(MAX_PUBLISH_BATCH),
+});
+
+function toIssues(error: z.ZodError, prefix: (string | number)[] = []): PublishIssue[] {
+  return error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].map(String).join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validate a publish request body: { channel?, events: [{ name, data }] }
+ *
+ * Either every event is valid and returned in its normalized form, or the
+ * request is rejected as a whole with one issue per invalid field.
+ */
+export function parsePublishBody(body: unknown): PublishParseResult {
+  const envelope = publishBody.safeParse(body);
+  if (!envelope.success) return { ok: false, errors: toIssues(envelope.error) };
+
+  const events: RealtimeEvent[] = [];
+  const errors: PublishIssue[] = [];
+  for (const [index, event] of envelope.data.events.entries()) {
+    const data = EVENT_DATA[event.name].safeParse(event.data);
+    if (data.success) {
+      events.push({ name: event.name, data: data.data });
+    } else {
+      errors.push(...toIssues(data.error, ['events', index, 'data']));
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, channel: envelope.data.channel, events };
+}
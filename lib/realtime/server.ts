@@ -0,0 +1,83 @@
+import { Token, TokenMigration, TokenUpdate } from '@/store/tokensSlice';
+import { CategoryChange, getLifecycleTracker, LifecycleTracker } from '@/lib/lifecycle';
+import { createLocalTransport } from './local-transport';
+import { createPusherTransport } from './pusher-server';
+import { createRelayTransport } from './relay-transport';
+import { getTransportName, PULSE_CHANNEL, RealtimeEvent, RealtimeTransport } from './types';
+import { globalSingleton } from '@/lib/singleton';
+
+export { PULSE_CHANNEL } from './types';
+export type { RealtimeEvent, RealtimeTransport } from './types';
+
+/**
+ * Publisher selected by NEXT_PUBLIC_REALTIME_TRANSPORT (default: local)
+ *
+ * Outside the Next server (scripts) events are relayed through it instead,
+ * so lifecycle transitions are decided in one process.
+ */
+export function getRealtimeTransport(): RealtimeTransport {
+  return globalSingleton('realtimeTransport', () => {
+    if (!process.env.NEXT_RUNTIME) return createRelayTransport();
+    return getTransportName() === 'pusher' ? createPusherTransport() : createLocalTransport();
+  });
+}
+
+/**
+ * Publish a mixed list of events on the pulse channel, in order
+ *
+ * In the Next server the events first go through its lifecycle tracker
+ * (see withLifecycleChanges); scripts relay them there unchanged.
+ */
+export async function publishEvents(events: RealtimeEvent[]): Promise<void> {
+  const tracked = process.env.NEXT_RUNTIME ? withLifecycleChanges(events) : events;
+  await getRealtimeTransport().publish(PULSE_CHANNEL, tracked);
+}
+
+export async function publishTokenCreated(token: Token): Promise<void> {
+  await publishEvents([{ name: 'token.created', data: token }]);
+}
+
+/** Publish one `token.updated` event per update */
+export async function publishTokenUpdates(updates: TokenUpdate[]): Promise<void> {
+  await publishEvents(updates.map((data) => ({ name: 'token.updated', data })));
+}
+
+/** One `token.category_changed` event per lifecycle transition */
+export function categoryChangedEvents(changes: CategoryChange[]): RealtimeEvent[] {
+  return changes.map((data) => ({ name: 'token.category_changed', data }));
+}
+
+/**
+ * Run events through the lifecycle tracker, inserting a
+ * `token.category_changed` after each event that moved a token
+ *
+ * Only the Next server does this (publishEvents), so scripts and routes
+ * never publish conflicting transitions for the same token.
+ */
+export function withLifecycleChanges(
+  events: RealtimeEvent[],
+  tracker: LifecycleTracker = getLifecycleTracker()
+): RealtimeEvent[] {
+  return events.flatMap((event) => {
+    let changes: CategoryChange[] = [];
+    if (event.name === 'token.created') {
+      changes = tracker.observeTokens([event.data as Token]);
+    } else if (event.name === 'token.updated') {
+      changes = tracker.observeUpdates([event.data as TokenUpdate]);
+    } else if (event.name === 'token.migrated') {
+      const change = tracker.observeMigration(event.data as TokenMigration);
+      if (change) changes = [change];
+    }
+    return [event, ...categoryChangedEvents(changes)];
+  });
+}
+
+/** Env vars the selected transport still needs (empty when ready) */
+export function missingRealtimeConfig(): string[] {
+  if (!process.env.NEXT_RUNTIME) {
+    // Scripts relay through the server's /api/realtime/publish, which requires the secret
+    return process.env.REALTIME_PUBLISH_SECRET ? [] : ['REALTIME_PUBLISH_SECRET'];
+  }
+  if (getTransportName() !== 'pusher') return [];
+  return ['PUSHER_APP_ID', 'PUSHER_KEY', 'PUSHER_SECRET', 'PUSHER_CLUSTER'].filter((key) => !process.env[key]);
+}
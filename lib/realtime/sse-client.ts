@@ -0,0 +1,86 @@
+import { ConnectionState, RealtimeChannel, RealtimeClient } from './types';
+
+type Handler = (data: unknown) => void;
+type Listener = (event: MessageEvent) => void;
+
+/**
+ * Browser client for the local broker, over Server-Sent Events
+ *
+ * One EventSource per channel on /api/realtime/stream. EventSource handles
+ * reconnection itself; events published while disconnected are not replayed.
+ */
+export function createSseClient(baseUrl = ''): RealtimeClient {
+  const sources = new Map<string, EventSource>();
+  const stateListeners = new Set<(state: ConnectionState) => void>();
+
+  const emit = (state: ConnectionState) => {
+    stateListeners.forEach((listener) => listener(state));
+  };
+
+  function open(channelName: string): EventSource {
+    const source = new EventSource(`${baseUrl}/api/realtime/stream?channel=${encodeURIComponent(channelName)}`);
+    emit('connecting');
+    source.onopen = () => emit('connected');
+    source.onerror = () => {
+      // CONNECTING means the browser is already retrying
+      emit(source.readyState === EventSource.CLOSED ? 'failed' : 'connecting');
+    };
+    return source;
+  }
+
+  return {
+    name: 'local',
+
+    subscribe(channelName) {
+      let source = sources.get(channelName);
+      if (!source) {
+        source = open(channelName);
+        sources.set(channelName, source);
+      }
+      const stream = source;
+
+      // Remember each handler's MessageEvent wrapper so unbind can find it
+      const wrappers = new Map<string, Map<Handler, Listener>>();
+
+      const channel: RealtimeChannel = {
+        bind(event, handler) {
+          const listener: Listener = (message) => {
+            try {
+              (handler as Handler)(JSON.parse(message.data));
+            } catch (error) {
+              console.error(`❌ Bad ${event} payload from realtime stream:`, error);
+            }
+          };
+          if (!wrappers.has(event)) wrappers.set(event, new Map());
+          wrappers.get(event)!.set(handler as Handler, listener);
+          stream.addEventListener(event, listener);
+        },
+        unbind(event, handler) {
+          const listener = wrappers.get(event)?.get(handler as Handler);
+          if (!listener) return;
+          stream.removeEventListener(event, listener);
+          wrappers.get(event)!.delete(handler as Handler);
+        },
+      };
+      return channel;
+    },
+
+    unsubscribe(channelName) {
+      sources.get(channelName)?.close();
+      sources.delete(channelName);
+    },
+
+    onStateChange(listener) {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    },
+
+    disconnect() {
+      sources.forEach((source) => source.close());
+      sources.clear();
+      emit('disconnected');
+    },
+  };
+}
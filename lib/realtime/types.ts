@@ -0,0 +1,56 @@
+/**
+ * Transport-agnostic realtime contracts
+ *
+ * Server code publishes through a RealtimeTransport and browser code
+ * subscribes through a RealtimeClient. Both sides pick an implementation
+ * from NEXT_PUBLIC_REALTIME_TRANSPORT:
+ *
+ *   local   SSE broker inside the Next server (default, no account needed)
+ *   pusher  hosted Pusher Channels
+ */
+
+/** Public channel every Pulse/table client subscribes to */
+export const PULSE_CHANNEL = 'pulse';
+
+export type RealtimeTransportName = 'local' | 'pusher';
+
+export type RealtimeEventName =
+  | 'token.created'
+  | 'token.updated'
+  | 'token.traded'
+  | 'token.migrated'
+  | 'token.category_changed';
+
+/** A named event on a channel */
+export interface RealtimeEvent {
+  name: RealtimeEventName;
+  data: unknown;
+}
+
+/** Server-side publisher */
+export interface RealtimeTransport {
+  readonly name: RealtimeTransportName;
+  /** Publish events to a channel, preserving their order */
+  publish(channel: string, events: RealtimeEvent[]): Promise<void>;
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'failed';
+
+/** Browser-side subscription to one channel */
+export interface RealtimeChannel {
+  bind<T>(event: RealtimeEventName, handler: (data: T) => void): void;
+  unbind<T>(event: RealtimeEventName, handler: (data: T) => void): void;
+}
+
+/** Browser-side connection */
+export interface RealtimeClient {
+  readonly name: RealtimeTransportName;
+  subscribe(channel: string): RealtimeChannel;
+  unsubscribe(channel: string): void;
+  onStateChange(listener: (state: ConnectionState) => void): () => void;
+  disconnect(): void;
+}
+
+export function getTransportName(): RealtimeTransportName {
+  return process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === 'pusher' ? 'pusher' : 'local';
+}
@@ -0,0 +1,48 @@
+/**
+ * Fixed-capacity ring buffer as a plain object
+ *
+ * Plain data rather than a class so it can live in the Redux store: the
+ * helpers mutate in place, which inside a reducer means an Immer draft.
+ * Once full, each push overwrites the oldest item.
+ */
+
+export interface RingBuffer<T> {
+  capacity: number;
+  items: T[];
+  /** Index of the oldest item once the buffer is full */
+  start: number;
+}
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  return { capacity, items: [], start: 0 };
+}
+
+export function pushRing<T>(buffer: RingBuffer<T>, item: T) {
+  if (buffer.items.length < buffer.capacity) {
+    buffer.items.push(item);
+  } else {
+    buffer.items[buffer.start] = item;
+    buffer.start = (buffer.start + 1) % buffer.capacity;
+  }
+}
+
+/** The newest item, or undefined when empty */
+export function lastOfRing<T>(buffer: RingBuffer<T>): T | undefined {
+  if (buffer.items.length === 0) return undefined;
+  const index = (buffer.start + buffer.items.length - 1) % buffer.items.length;
+  return buffer.items[index];
+}
+
+/** Overwrite the newest item; a push when empty */
+export function replaceLastOfRing<T>(buffer: RingBuffer<T>, item: T) {
+  if (buffer.items.length === 0) {
+    pushRing(buffer, item);
+    return;
+  }
+  buffer.items[(buffer.start + buffer.items.length - 1) % buffer.items.length] = item;
+}
+
+/** Items oldest first */
+export function ringToArray<T>(buffer: RingBuffer<T>): T[] {
+  return [...buffer.items.slice(buffer.start), ...buffer.items.slice(0, buffer.start)];
+}
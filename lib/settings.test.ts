@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPersistedValue } from './browser-storage';
+import { DEFAULT_SETTINGS, parseSettings, refetchIntervalMs, Settings, SETTINGS_MIGRATIONS, SETTINGS_VERSION } from './settings';
+
+/** A window whose localStorage is a plain Map */
+function stubWindow() {
+  const items = new Map<string, string>();
+  const localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+  Object.assign(globalThis, { window: { localStorage } });
+  return items;
+}
+
+describe('parseSettings', () => {
+  it('keeps valid fields and resets invalid ones to their defaults', () => {
+    const stored = { ...DEFAULT_SETTINGS, quickBuyAmount: 2, chartInterval: '1m', refreshIntervalSeconds: 7 };
+    assert.deepEqual(parseSettings(stored), { ...DEFAULT_SETTINGS, quickBuyAmount: 2 });
+  });
+
+  it('fills settings added since the value was stored', () => {
+    assert.deepEqual(parseSettings({ numberNotation: 'full' }), { ...DEFAULT_SETTINGS, numberNotation: 'full' });
+  });
+
+  it('rejects values that are not settings objects', () => {
+    assert.equal(parseSettings(null), null);
+    assert.equal(parseSettings([DEFAULT_SETTINGS]), null);
+    assert.equal(parseSettings('compact'), null);
+  });
+
+  it('turns a zero refresh interval into no polling', () => {
+    assert.equal(refetchIntervalMs({ ...DEFAULT_SETTINGS, refreshIntervalSeconds: 0 }), false);
+    assert.equal(refetchIntervalMs({ ...DEFAULT_SETTINGS, refreshIntervalSeconds: 15 }), 15_000);
+  });
+});
+
+describe('persisted settings', () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = stubWindow();
+  });
+
+  afterEach(() => {
+    delete (globalThis as { window?: unknown }).window;
+  });
+
+  it('has a migration step for every version before the current one', () => {
+    for (let version = 1; version < SETTINGS_VERSION; version++) {
+      assert.equal(typeof SETTINGS_MIGRATIONS[version], 'function', `missing migration from v${version}`);
+    }
+  });
+
+  it('round-trips the current version', () => {
+    const storage = createPersistedValue({ key: 'settings', version: SETTINGS_VERSION, parse: parseSettings, migrations: SETTINGS_MIGRATIONS });
+    const settings: Settings = { ...DEFAULT_SETTINGS, priceDecimals: 4 };
+    storage.save(settings);
+    assert.deepEqual(storage.load(), settings);
+  });
+
+  it('upgrades older stored values one version at a time', () => {
+    items.set('settings', JSON.stringify({ version: 1, value: { buyAmount: 3 } }));
+    const storage = createPersistedValue({
+      key: 'settings',
+      version: 3,
+      parse: parseSettings,
+      migrations: {
+        1: (value) => ({ quickBuy: (value as { buyAmount: number }).buyAmount }),
+        2: (value) => ({ quickBuyAmount: (value as { quickBuy: number }).quickBuy }),
+      },
+    });
+    assert.deepEqual(storage.load(), { ...DEFAULT_SETTINGS, quickBuyAmount: 3 });
+  });
+
+  it('reads newer versions and versions without a migration path as absent', () => {
+    const storage = createPersistedValue({ key: 'settings', version: 2, parse: parseSettings, migrations: {} });
+
+    items.set('settings', JSON.stringify({ version: 3, value: DEFAULT_SETTINGS }));
+    assert.equal(storage.load(), null);
+    items.set('settings', JSON.stringify({ version: 1, value: DEFAULT_SETTINGS }));
+    assert.equal(storage.load(), null);
+  });
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { CandleInterval } from '@/lib/chart-data';
+import { NumberFormat } from '@/lib/utils';
+
+/**
+ * Trader preferences: what they are, their defaults and how stored copies
+ * are read back
+ *
+ * Stored settings are checked field by field: a missing or invalid field
+ * falls back to its default and the rest are kept, so adding a setting
+ * needs no migration. Renaming or reshaping one does: bump
+ * SETTINGS_VERSION and add a step to SETTINGS_MIGRATIONS.
+ */
+
+export const TABLE_TABS = ['trending', 'surge', 'dex', 'pump'] as const;
+
+export type TableTab = (typeof TABLE_TABS)[number];
+
+/** Intervals offered by the token chart */
+export const CHART_INTERVALS: CandleInterval[] = ['15m', '1h', '4h', '1d'];
+
+/** Listing refresh choices, seconds; 0 turns polling off */
+export const REFRESH_INTERVALS = [10, 15, 30, 60, 0] as const;
+
+export const PRICE_DECIMALS = ['auto', 2, 4, 6, 8] as const;
+
+export interface Settings {
+  /** Spent by one-click buys, in the chain's native asset (SOL on Solana) */
+  quickBuyAmount: number;
+  /** "$1.23M" or "$1,234,567" */
+  numberNotation: NumberFormat['notation'];
+  priceDecimals: NumberFormat['priceDecimals'];
+  /** Table tab selected on load */
+  defaultTableTab: TableTab;
+  /** How often listings are refetched, seconds; 0 for never */
+  refreshIntervalSeconds: (typeof REFRESH_INTERVALS)[number];
+  /** Candle interval the token chart opens with */
+  chartInterval: CandleInterval;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  quickBuyAmount: 0.5,
+  numberNotation: 'compact',
+  priceDecimals: 'auto',
+  defaultTableTab: 'trending',
+  refreshIntervalSeconds: 30,
+  chartInterval: '1h',
+};
+
+export const SETTINGS_VERSION = 1;
+
+/**
+ * Steps from each older stored version to the next, keyed by the version
+ * they upgrade from, e.g. `1: (v) => ({ ...v, renamed: v.old })`
+ */
+export const SETTINGS_MIGRATIONS: Record<number, (value: unknown) => unknown> = {};
+
+const settingsSchema = z.object({
+  quickBuyAmount: z.number().positive().max(1_000).catch(DEFAULT_SETTINGS.quickBuyAmount),
+  numberNotation: z.enum(['compact', 'full']).catch(DEFAULT_SETTINGS.numberNotation),
+  priceDecimals: z.literal(PRICE_DECIMALS).catch(DEFAULT_SETTINGS.priceDecimals),
+  defaultTableTab: z.enum(TABLE_TABS).catch(DEFAULT_SETTINGS.defaultTableTab),
+  refreshIntervalSeconds: z.literal(REFRESH_INTERVALS).catch(DEFAULT_SETTINGS.refreshIntervalSeconds),
+  chartInterval: z.enum(CHART_INTERVALS as [CandleInterval, ...CandleInterval[]]).catch(DEFAULT_SETTINGS.chartInterval),
+});
+
+/** Stored settings with invalid fields reset to defaults; null if not an object */
+export function parseSettings(value: unknown): Settings | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const parsed = settingsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Listing refetch interval for TanStack Query; false turns polling off */
+export function refetchIntervalMs(settings: Settings): number | false {
+  return settings.refreshIntervalSeconds === 0 ? false : settings.refreshIntervalSeconds * 1000;
+}
@@ -0,0 +1,17 @@
+/**
+ * Process-wide singletons
+ *
+ * Next may load each route in its own module graph (and re-evaluates
+ * modules on hot reload), so a module-level variable can exist several
+ * times in one server. Shared state hangs off globalThis instead, keyed by
+ * name; in scripts this behaves like a plain module-level singleton.
+ */
+
+const globalForSingletons = globalThis as typeof globalThis & { __singletons?: Map<string, unknown> };
+
+/** The value registered under `key`, created by `create` on first use */
+export function globalSingleton<T>(key: string, create: () => T): T {
+  const singletons = (globalForSingletons.__singletons ??= new Map());
+  if (!singletons.has(key)) singletons.set(key, create());
+  return singletons.get(key) as T;
+}
@@ -0,0 +1,46 @@
+import { Token } from '@/store/tokensSlice';
+import { getTickStore, Observation } from './tick-store';
+
+/** Sources whose values are never persisted as market history */
+const UNRECORDED_SOURCES = new Set(['fixture', 'simulation']);
+
+export function tokensToObservations(
+  tokens: Token[],
+  defaultSource: string,
+  time = Math.floor(Date.now() / 1000)
+): Observation[] {
+  return tokens
+    .filter((token): token is Token & { price: number } => token.price !== null)
+    .map((token) => ({
+      id: token.id,
+      chain: token.chain,
+      time,
+      price: token.price,
+      volume24h: token.volume24h,
+      liquidity: token.liquidity,
+      marketCap: token.marketCap,
+      source: token.source ?? defaultSource,
+    }))
+    .filter((o) => o.id && !UNRECORDED_SOURCES.has(o.source));
+}
+
+/**
+ * Persist a batch of token snapshots to the tick store
+ *
+ * Never throws: recording is best-effort and must not break the request or
+ * poll cycle that produced the data. Disable with TICK_RECORDER=off.
+ */
+export async function recordTokens(tokens: Token[], defaultSource: string): Promise<void> {
+  await recordObservations(tokensToObservations(tokens, defaultSource));
+}
+
+/** Persist raw observations (e.g. individual swap prices); same rules as recordTokens */
+export async function recordObservations(observations: Observation[]): Promise<void> {
+  if (process.env.TICK_RECORDER === 'off') return;
+
+  try {
+    await getTickStore().record(observations.filter((o) => !UNRECORDED_SOURCES.has(o.source)));
+  } catch (error) {
+    console.error('⚠️ Failed to record ticks:', error);
+  }
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTickStore, Observation } from './tick-store';
+
+const DAY = 24 * 60 * 60;
+const NOW = Math.floor(Date.now() / 1000);
+
+/** Ten minutes past the hour, `days` ago: a few minutes either side stay in the same hour and day */
+const hourAgo = (days: number) => Math.floor((NOW - days * DAY) / 3600) * 3600 + 600;
+const dayOf = (time: number) => new Date(time * 1000).toISOString().slice(0, 10);
+
+const tick = (time: number, price: number): Observation => ({ id: 'bonk', chain: 'solana', time, price, source: 'test' });
+
+const exists = (file: string) => fs.stat(file).then(() => true, () => false);
+
+describe('createTickStore compaction', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ticks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('rolls old raw days into minute bars and keeps them queryable', async () => {
+    const store = createTickStore({ dir });
+    const start = hourAgo(5);
+    await store.record([tick(start + 10, 1), tick(start + 40, 3), tick(start + 70, 2), tick(NOW, 5)]);
+    await store.compact();
+
+    assert.equal(await exists(path.join(dir, 'raw', `${dayOf(start)}.ndjson`)), false);
+    assert.equal(await exists(path.join(dir, 'raw', `${dayOf(NOW)}.ndjson`)), true);
+
+    const bars = await store.query('bonk', { from: start, to: NOW });
+    assert.deepEqual(
+      bars.map(({ time, open, high, low, close, count }) => ({ time, open, high, low, close, count })),
+      [
+        { time: start, open: 1, high: 3, low: 1, close: 3, count: 2 },
+        { time: start + 60, open: 2, high: 2, low: 2, close: 2, count: 1 },
+        { time: NOW, open: 5, high: 5, low: 5, close: 5, count: 1 },
+      ]
+    );
+  });
+
+  it('rolls minute bars into hours and drops hours past retention', async () => {
+    const store = createTickStore({ dir, retention: { rawDays: 0, minuteDays: 1, hourDays: 3 } });
+    const kept = hourAgo(2);
+    const expired = hourAgo(5);
+    await store.record([tick(expired, 1), tick(kept, 1), tick(kept + 120, 4)]);
+    await store.compact();
+
+    const bars = await store.query('bonk', { from: expired - DAY, to: NOW });
+    assert.equal(bars.length, 1);
+    assert.deepEqual(
+      { time: bars[0].time, high: bars[0].high, close: bars[0].close, count: bars[0].count },
+      { time: kept - 600, high: 4, close: 4, count: 2 }
+    );
+  });
+
+  it('skips while another process holds the lock and breaks a stale one', async () => {
+    const store = createTickStore({ dir });
+    const old = hourAgo(5);
+    const lock = path.join(dir, 'compaction.lock');
+    const rawFile = path.join(dir, 'raw', `${dayOf(old)}.ndjson`);
+
+    await fs.writeFile(lock, '{}');
+    await store.record([tick(old, 1)]);
+    await store.compact();
+    assert.equal(await exists(rawFile), true);
+    assert.equal(await exists(lock), true);
+
+    const stale = new Date(Date.now() - 60 * 60 * 1000);
+    await fs.utimes(lock, stale, stale);
+    await store.compact();
+    assert.equal(await exists(rawFile), false);
+    assert.equal(await exists(lock), false);
+  });
+
+  it('finishes days a crashed compaction had claimed', async () => {
+    const store = createTickStore({ dir });
+    const old = hourAgo(5);
+    const rawFile = path.join(dir, 'raw', `${dayOf(old)}.ndjson`);
+
+    // A crash after the rename, with later appends starting a fresh file for the same day
+    await fs.mkdir(path.dirname(rawFile), { recursive: true });
+    await fs.writeFile(`${rawFile}.compacting`, JSON.stringify(tick(old, 1)) + '\n');
+    await fs.writeFile(rawFile, JSON.stringify(tick(old + 5, 2)) + '\n');
+    await store.compact();
+
+    assert.equal(await exists(`${rawFile}.compacting`), false);
+    assert.equal(await exists(rawFile), false);
+    const bars = await store.query('bonk', { from: old - 600, to: NOW });
+    assert.equal(bars.reduce((sum, bar) => sum + bar.count, 0), 2);
+    assert.deepEqual([Math.min(...bars.map((b) => b.low)), Math.max(...bars.map((b) => b.high))], [1, 2]);
+  });
+});
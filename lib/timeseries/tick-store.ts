@@ -0,0 +1,397 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Candle, CandleInterval, resampleCandles } from '@/lib/chart-data';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Embedded time-series store for market observations
+ *
+ * Observations are appended to one NDJSON file per UTC day, so the Next
+ * server, the poller and scripts can all write to the same directory.
+ * Older days are compacted into coarser tiers:
+ *
+ *   raw/  every observation            kept `rawDays`
+ *   1m/   one bar per token per minute kept `minuteDays`
+ *   1h/   one bar per token per hour   kept `hourDays`
+ *
+ * Queries read all three tiers and merge them into one bar series. Parsed
+ * day files are cached per process and only the bytes appended since the
+ * last read are parsed again.
+ *
+ * Compaction may be triggered by any of those processes, so it takes a
+ * lock file (only one runs at a time; the others skip) and renames each day
+ * file before reading it, so observations appended meanwhile start a new
+ * file for the next compaction instead of being lost with the old one.
+ */
+
+export interface Observation {
+  id: string;
+  chain: string;
+  /** Observation time, unix seconds */
+  time: number;
+  price: number;
+  volume24h?: number | null;
+  liquidity?: number | null;
+  marketCap?: number | null;
+  /** Provider or pipeline that produced the value */
+  source: string;
+}
+
+/** Downsampled observations for one token over one bucket */
+export interface Bar {
+  id: string;
+  chain: string;
+  /** Bucket start, unix seconds */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Last values seen in the bucket */
+  volume24h: number | null;
+  liquidity: number | null;
+  marketCap: number | null;
+  /** Observations folded into this bar */
+  count: number;
+}
+
+export interface RetentionPolicy {
+  /** Days of raw observations before compaction to 1m bars */
+  rawDays: number;
+  /** Days of 1m bars before compaction to 1h bars */
+  minuteDays: number;
+  /** Days of 1h bars before deletion */
+  hourDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  rawDays: 2,
+  minuteDays: 14,
+  hourDays: 365,
+};
+
+type Tier = 'raw' | '1m' | '1h';
+
+const TIER_SECONDS: Record<Exclude<Tier, 'raw'>, number> = {
+  '1m': 60,
+  '1h': 60 * 60,
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Minimum time between automatic compactions */
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+/** A lock older than this belongs to a crashed compaction and is broken */
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/** Parsed day files kept in memory; a default candle range spans about four */
+const MAX_CACHED_FILES = 16;
+
+/** Suffix of a day file claimed by a running (or crashed) compaction */
+const CLAIMED_SUFFIX = '.compacting';
+
+export interface TickStoreOptions {
+  dir?: string;
+  retention?: Partial<RetentionPolicy>;
+}
+
+export interface QueryOptions {
+  /** Range start, unix seconds */
+  from: number;
+  /** Range end, unix seconds */
+  to: number;
+  chain?: string;
+}
+
+export interface TickStore {
+  readonly dir: string;
+  record(observations: Observation[]): Promise<void>;
+  query(id: string, options: QueryOptions): Promise<Bar[]>;
+  candles(id: string, interval: CandleInterval, options: QueryOptions): Promise<Candle[]>;
+  /** Apply retention policies; started in the background at most hourly by record() */
+  compact(now?: number): Promise<void>;
+}
+
+function dayKey(time: number): string {
+  return new Date(time * 1000).toISOString().slice(0, 10);
+}
+
+function dayStart(key: string): number {
+  return Date.parse(`${key}T00:00:00Z`) / 1000;
+}
+
+function observationToBar(o: Observation): Bar {
+  return {
+    id: o.id,
+    chain: o.chain,
+    time: o.time,
+    open: o.price,
+    high: o.price,
+    low: o.price,
+    close: o.price,
+    volume24h: o.volume24h ?? null,
+    liquidity: o.liquidity ?? null,
+    marketCap: o.marketCap ?? null,
+    count: 1,
+  };
+}
+
+/** Fold bars into `seconds`-wide buckets per token */
+function downsample(bars: Bar[], seconds: number): Bar[] {
+  const buckets = new Map<string, Bar>();
+  const sorted = [...bars].sort((a, b) => a.time - b.time);
+
+  for (const bar of sorted) {
+    const time = Math.floor(bar.time / seconds) * seconds;
+    const key = `${bar.chain}:${bar.id}:${time}`;
+    const existing = buckets.get(key);
+    if (!existing) {
+      buckets.set(key, { ...bar, time });
+    } else {
+      existing.high = Math.max(existing.high, bar.high);
+      existing.low = Math.min(existing.low, bar.low);
+      existing.close = bar.close;
+      existing.volume24h = bar.volume24h ?? existing.volume24h;
+      existing.liquidity = bar.liquidity ?? existing.liquidity;
+      existing.marketCap = bar.marketCap ?? existing.marketCap;
+      existing.count += bar.count;
+    }
+  }
+
+  return [...buckets.values()];
+}
+
+function parseLines<T>(text: string): T[] {
+  const rows: T[] = [];
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    try {
+      rows.push(JSON.parse(line) as T);
+    } catch {
+      // Skip a torn line from an interrupted append
+    }
+  }
+  return rows;
+}
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/** A day file's bars by token id, and how far into the file they reach */
+interface CachedDay {
+  ino: number;
+  /** Bytes parsed, up to the last complete line */
+  offset: number;
+  byId: Map<string, Bar[]>;
+}
+
+export function createTickStore({ dir, retention }: TickStoreOptions = {}): TickStore {
+  const root = path.resolve(dir ?? process.env.TICK_STORE_DIR ?? '.data/ticks');
+  const policy: RetentionPolicy = { ...DEFAULT_RETENTION, ...retention };
+  let lastCompaction = 0;
+  let compacting: Promise<void> | null = null;
+  // Insertion order doubles as LRU order
+  const dayCache = new Map<string, CachedDay>();
+
+  const tierFile = (tier: Tier, day: string) => path.join(root, tier, `${day}.ndjson`);
+  const lockFile = path.join(root, 'compaction.lock');
+
+  async function readLines<T>(file: string): Promise<T[]> {
+    try {
+      return parseLines<T>(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * One tier's bars for a day, grouped by token, from the cache
+   *
+   * Day files are append-only until compaction replaces them (a new inode),
+   * so a grown file only needs its new bytes parsed.
+   */
+  async function readDayIndex(tier: Tier, day: string): Promise<Map<string, Bar[]>> {
+    const file = tierFile(tier, day);
+    let handle;
+    try {
+      handle = await fs.open(file, 'r');
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+      dayCache.delete(file);
+      return new Map();
+    }
+
+    try {
+      const { ino, size } = await handle.stat();
+      let cached = dayCache.get(file);
+      if (!cached || cached.ino !== ino || size < cached.offset) {
+        cached = { ino, offset: 0, byId: new Map() };
+      }
+      dayCache.delete(file);
+      dayCache.set(file, cached);
+      if (dayCache.size > MAX_CACHED_FILES) dayCache.delete(dayCache.keys().next().value!);
+
+      if (size > cached.offset) {
+        const buffer = Buffer.alloc(size - cached.offset);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, cached.offset);
+        // Leave a trailing partial line for the next read, once its append completes
+        const end = buffer.lastIndexOf(0x0a, bytesRead - 1) + 1;
+        const rows = parseLines<Observation | Bar>(buffer.subarray(0, end).toString('utf8'));
+        for (const row of rows) {
+          const bar = tier === 'raw' ? observationToBar(row as Observation) : (row as Bar);
+          const bars = cached.byId.get(bar.id);
+          if (bars) bars.push(bar);
+          else cached.byId.set(bar.id, [bar]);
+        }
+        cached.offset += end;
+      }
+      return cached.byId;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async function appendLines(file: string, rows: unknown[]): Promise<void> {
+    if (rows.length === 0) return;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, rows.map((r) => JSON.stringify(r)).join('\n') + '\n');
+  }
+
+  /** Days with a file in the tier; pass the claimed suffix for files a compaction left */
+  async function listDays(tier: Tier, suffix = '.ndjson'): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(root, tier));
+      return files.filter((f) => f.endsWith(suffix)).map((f) => f.slice(0, -suffix.length)).sort();
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+
+  /** Fold a claimed day file into the next tier, then delete it */
+  async function rollUpClaimed(from: Tier, to: Exclude<Tier, 'raw'>, day: string) {
+    const claimed = tierFile(from, day) + CLAIMED_SUFFIX;
+    const rows = await readLines<Observation | Bar>(claimed);
+    const bars = from === 'raw' ? (rows as Observation[]).map(observationToBar) : (rows as Bar[]);
+    // Write before unlinking: a crash in between duplicates bars rather than losing them
+    await appendLines(tierFile(to, day), downsample(bars, TIER_SECONDS[to]));
+    await fs.unlink(claimed);
+  }
+
+  /** Move whole days older than `maxDays` from one tier into the next */
+  async function rollUp(from: Tier, to: Exclude<Tier, 'raw'>, maxDays: number, now: number) {
+    // Finish days a crashed compaction had claimed
+    for (const day of await listDays(from, `.ndjson${CLAIMED_SUFFIX}`)) {
+      await rollUpClaimed(from, to, day);
+    }
+
+    const cutoff = dayKey(now - maxDays * DAY_SECONDS);
+    for (const day of await listDays(from)) {
+      if (day >= cutoff) break;
+      // Claim the file first: appends from other processes now start a new one
+      await fs.rename(tierFile(from, day), tierFile(from, day) + CLAIMED_SUFFIX);
+      await rollUpClaimed(from, to, day);
+    }
+  }
+
+  /** Take the cross-process compaction lock; false when another process holds it */
+  async function acquireLock(): Promise<boolean> {
+    await fs.mkdir(root, { recursive: true });
+    try {
+      await fs.writeFile(lockFile, JSON.stringify({ pid: process.pid, at: Date.now() }), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const { mtimeMs } = await fs.stat(lockFile).catch(() => ({ mtimeMs: 0 }));
+    if (Date.now() - mtimeMs < STALE_LOCK_MS) return false;
+    console.warn(`⚠️ Breaking stale tick store lock ${lockFile}`);
+    await fs.rm(lockFile, { force: true });
+    return acquireLock();
+  }
+
+  async function runCompaction(now: number) {
+    if (!(await acquireLock())) return;
+    try {
+      await rollUp('raw', '1m', policy.rawDays, now);
+      await rollUp('1m', '1h', policy.minuteDays, now);
+
+      const cutoff = dayKey(now - policy.hourDays * DAY_SECONDS);
+      for (const day of await listDays('1h')) {
+        if (day >= cutoff) break;
+        await fs.unlink(tierFile('1h', day));
+      }
+    } finally {
+      await fs.rm(lockFile, { force: true });
+    }
+  }
+
+  const store: TickStore = {
+    dir: root,
+
+    async record(observations) {
+      const byDay = new Map<string, Observation[]>();
+      for (const o of observations) {
+        if (!Number.isFinite(o.price)) continue;
+        const day = dayKey(o.time);
+        const rows = byDay.get(day);
+        if (rows) rows.push(o);
+        else byDay.set(day, [o]);
+      }
+
+      for (const [day, rows] of byDay) {
+        await appendLines(tierFile('raw', day), rows);
+      }
+
+      // In the background: callers (the /api/tokens request path) only wait for the append
+      if (Date.now() - lastCompaction > COMPACTION_INTERVAL_MS) {
+        void store.compact().catch((error) => {
+          console.error('⚠️ Tick store compaction failed:', error);
+        });
+      }
+    },
+
+    async query(id, { from, to, chain }) {
+      const bars: Bar[] = [];
+      for (let t = dayStart(dayKey(from)); t <= to; t += DAY_SECONDS) {
+        const day = dayKey(t);
+        for (const tier of ['1h', '1m', 'raw'] as const) {
+          for (const bar of (await readDayIndex(tier, day)).get(id) ?? []) {
+            if (chain && bar.chain !== chain) continue;
+            if (bar.time < from || bar.time > to) continue;
+            bars.push(bar);
+          }
+        }
+      }
+      return bars.sort((a, b) => a.time - b.time);
+    },
+
+    async candles(id, interval, options) {
+      const bars = await store.query(id, options);
+      // Observed volume is a rolling 24h figure, not per-bucket volume
+      return resampleCandles(
+        bars.map(({ time, open, high, low, close }) => ({ time, open, high, low, close, volume: null })),
+        interval
+      );
+    },
+
+    async compact(now = Math.floor(Date.now() / 1000)) {
+      lastCompaction = Date.now();
+      if (!compacting) {
+        compacting = runCompaction(now).finally(() => {
+          compacting = null;
+        });
+      }
+      return compacting;
+    },
+  };
+
+  return store;
+}
+
+/** Process-wide store rooted at TICK_STORE_DIR (default .data/ticks) */
+export function getTickStore(): TickStore {
+  return globalSingleton('tickStore', () => createTickStore());
+}
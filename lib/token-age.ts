@@ -0,0 +1,33 @@
+import { Token } from '@/store/tokensSlice';
+
+/**
+ * Token age
+ *
+ * A token's age counts from its on-chain pair creation when a source
+ * reported it (DEXScreener pairCreatedAt, Mobula pool_created), else from
+ * when this app first saw it.
+ */
+
+type AgedToken = Pick<Token, 'createdAt' | 'firstSeenAt'>;
+
+/** Start of the token's age, unix milliseconds */
+export function tokenStartedAt(token: AgedToken): number {
+  return token.createdAt ?? token.firstSeenAt;
+}
+
+/** Age presets for the New Pairs filter; null means no limit */
+export const AGE_FILTERS: { label: string; maxAgeMs: number | null }[] = [
+  { label: 'All', maxAgeMs: null },
+  { label: '5m', maxAgeMs: 5 * 60 * 1000 },
+  { label: '1h', maxAgeMs: 60 * 60 * 1000 },
+  { label: '24h', maxAgeMs: 24 * 60 * 60 * 1000 },
+];
+
+export function isWithinAge(token: AgedToken, maxAgeMs: number | null, now = Date.now()): boolean {
+  return maxAgeMs === null || now - tokenStartedAt(token) <= maxAgeMs;
+}
+
+/** Newest first */
+export function compareByAge(a: AgedToken, b: AgedToken): number {
+  return tokenStartedAt(b) - tokenStartedAt(a);
+}
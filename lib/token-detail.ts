@@ -0,0 +1,27 @@
+import { ChainId, tokenKey } from '@/lib/chains';
+import { TokenDetail } from '@/lib/normalize';
+import { getMarketDataProvider } from '@/lib/providers';
+import { CacheResult, getResponseCache } from '@/lib/cache/response-cache';
+
+/**
+ * Server-side token detail lookups
+ *
+ * Metadata barely changes, so details stay fresh for 5 minutes and tokens
+ * no source knows for 1 minute; after that the cached copy is served for up
+ * to an hour while it refreshes (lib/cache/response-cache.ts).
+ */
+
+const detailCache = () =>
+  getResponseCache<TokenDetail | null>({
+    name: 'token-detail',
+    freshMs: (detail) => (detail ? 5 * 60_000 : 60_000),
+    staleMs: 60 * 60_000,
+    maxEntries: 1_000,
+  });
+
+/** `value` is null when no provider knows the token */
+export function getTokenDetail(chain: ChainId, address: string): Promise<CacheResult<TokenDetail | null>> {
+  return detailCache().get(tokenKey(chain, address), () =>
+    getMarketDataProvider().fetchTokenDetail(address, { chain })
+  );
+}
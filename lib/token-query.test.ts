@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeToken } from '@/lib/normalize';
+import { InvalidCursorError, pageTokens, tokenQuerySchema } from './token-query';
+
+/** Distinct base58 addresses: "A...", "B...", ... */
+const address = (i: number) => String.fromCharCode(65 + i).repeat(32);
+
+// Market caps 100, 200, 300, 300, 500 and one token without a market cap
+const TOKENS = [100, 200, 300, 300, 500, null].map((marketCap, i) =>
+  normalizeToken({ chain: 'solana', address: address(i), symbol: `T${i}`, marketCap, source: 'test' })
+);
+
+const query = (params: Record<string, string> = {}) => tokenQuerySchema.parse(params);
+
+/** Follow nextCursor until the last page; returns every page's ids */
+function collectPages(params: Record<string, string>): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = pageTokens(TOKENS, query({ ...params, ...(cursor ? { cursor } : {}) }));
+    pages.push(page.items.map((token) => token.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('pageTokens', () => {
+  it('sorts by market cap, highest first, with unknown values last', () => {
+    const { items, nextCursor } = pageTokens(TOKENS, query());
+    assert.deepEqual(items.map((token) => token.marketCap), [500, 300, 300, 200, 100, null]);
+    assert.equal(nextCursor, null);
+  });
+
+  it('pages through every token exactly once', () => {
+    const pages = collectPages({ limit: '2' });
+    assert.deepEqual(pages.map((page) => page.length), [2, 2, 2]);
+
+    const ids = pages.flat();
+    assert.equal(new Set(ids).size, TOKENS.length);
+    assert.deepEqual(ids, pageTokens(TOKENS, query()).items.map((token) => token.id));
+  });
+
+  it('breaks ties by id so equal sort values do not repeat or vanish across pages', () => {
+    const ids = collectPages({ limit: '3', sort: 'marketCap', order: 'asc' }).flat();
+    assert.equal(new Set(ids).size, TOKENS.length);
+  });
+
+  it('applies filters before paging', () => {
+    const { items } = pageTokens(TOKENS, query({ minMarketCap: '300' }));
+    assert.deepEqual(items.map((token) => token.marketCap), [500, 300, 300]);
+  });
+
+  it('rejects malformed cursors and cursors from another query', () => {
+    assert.throws(() => pageTokens(TOKENS, query({ cursor: 'not-a-cursor' })), InvalidCursorError);
+
+    const { nextCursor } = pageTokens(TOKENS, query({ limit: '2' }));
+    assert.ok(nextCursor);
+    assert.throws(
+      () => pageTokens(TOKENS, query({ limit: '2', order: 'asc', cursor: nextCursor })),
+      InvalidCursorError
+    );
+  });
+});
+
+describe('tokenQuerySchema', () => {
+  it('rejects unknown parameters and out-of-range limits', () => {
+    assert.equal(tokenQuerySchema.safeParse({ foo: 'bar' }).success, false);
+    assert.equal(tokenQuerySchema.safeParse({ limit: '1000' }).success, false);
+  });
+});
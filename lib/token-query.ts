@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { ChainId, parseChainList } from '@/lib/chains';
+import { LifecycleState } from '@/lib/lifecycle';
+import { tokenStartedAt } from '@/lib/token-age';
+import { Token } from '@/store/tokensSlice';
+
+/**
+ * GET /api/tokens query model
+ *
+ * Parses and validates the query string, filters and sorts a listing, and
+ * pages through it with an opaque keyset cursor: the last item's sort value
+ * and id, plus a fingerprint of the filters so a cursor cannot be replayed
+ * against a different query.
+ */
+
+export const TOKEN_SORT_FIELDS = [
+  'marketCap',
+  'volume24h',
+  'liquidity',
+  'price',
+  'priceChange24h',
+  'holders',
+  'bondingCurveProgress',
+  'age',
+] as const;
+
+export type TokenSortField = (typeof TOKEN_SORT_FIELDS)[number];
+
+const LIFECYCLE_STATES: LifecycleState[] = ['new', 'final-stretch', 'migrated', 'dead', 'rugged'];
+
+export const DEFAULT_TOKEN_LIMIT = 50;
+export const MAX_TOKEN_LIMIT = 100;
+
+const amount = z.coerce.number().nonnegative().optional();
+
+/** Comma-separated values, e.g. `category=new,final-stretch` */
+const commaList = z.string().transform((value) => value.split(',').map((v) => v.trim()).filter(Boolean));
+
+export const tokenQuerySchema = z.strictObject({
+  chain: z.string().optional().transform((value, ctx) => {
+    if (value === undefined) return undefined;
+    try {
+      return parseChainList(value);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: (error as Error).message });
+      return z.NEVER;
+    }
+  }),
+  category: commaList.pipe(z.array(z.enum(LIFECYCLE_STATES)).min(1)).optional(),
+  sort: z.enum(TOKEN_SORT_FIELDS).default('marketCap'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  minLiquidity: amount,
+  minMarketCap: amount,
+  q: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_TOKEN_LIMIT).default(DEFAULT_TOKEN_LIMIT),
+  cursor: z.string().min(1).optional(),
+});
+
+export type TokenQuery = z.output<typeof tokenQuerySchema>;
+
+/** Query string parameters as a client sends them */
+export type TokenQueryParams = Partial<{
+  chain: ChainId | ChainId[];
+  category: LifecycleState | LifecycleState[];
+  sort: TokenSortField;
+  order: 'asc' | 'desc';
+  minLiquidity: number;
+  minMarketCap: number;
+  q: string;
+  limit: number;
+  cursor: string;
+}>;
+
+/** Response envelope of GET /api/tokens */
+export interface TokenPage {
+  items: Token[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** When the listing was fetched, unix milliseconds */
+  asOf: number;
+}
+
+export function toSearchParams(params: TokenQueryParams): URLSearchParams {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '') continue;
+    search.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return search;
+}
+
+/** Sort key; null values always sort last. Age sorts newest first when ascending. */
+function sortValue(token: Token, field: TokenSortField): number | null {
+  return field === 'age' ? -tokenStartedAt(token) : token[field];
+}
+
+function compareValues(a: number | null, b: number | null, order: 'asc' | 'desc'): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return order === 'asc' ? a - b : b - a;
+}
+
+/** Position in the sorted listing; ties broken by id so the order is total */
+function comparePositions(
+  a: { value: number | null; id: string },
+  b: { value: number | null; id: string },
+  order: 'asc' | 'desc'
+): number {
+  return compareValues(a.value, b.value, order) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function matches(token: Token, query: TokenQuery): boolean {
+  if (query.chain && !query.chain.includes(token.chain)) return false;
+  if (query.category && !(token.category && query.category.includes(token.category))) return false;
+  if (query.minLiquidity !== undefined && (token.liquidity ?? -1) < query.minLiquidity) return false;
+  if (query.minMarketCap !== undefined && (token.marketCap ?? -1) < query.minMarketCap) return false;
+  if (query.q) {
+    const q = query.q.toLowerCase();
+    return [token.symbol, token.name, token.address].some((text) => text.toLowerCase().includes(q));
+  }
+  return true;
+}
+
+/** Every token matching the filters, in query order (no paging) */
+export function selectTokens(tokens: Token[], query: TokenQuery): Token[] {
+  return tokens
+    .filter((token) => matches(token, query))
+    .map((token) => ({ token, position: { value: sortValue(token, query.sort), id: token.id } }))
+    .sort((a, b) => comparePositions(a.position, b.position, query.order))
+    .map(({ token }) => token);
+}
+
+interface CursorPayload {
+  /** Sort value of the last item returned */
+  v: number | null;
+  /** Id of the last item returned */
+  id: string;
+  /** Filters and sort the cursor belongs to */
+  f: string;
+}
+
+function fingerprint({ chain, category, sort, order, minLiquidity, minMarketCap, q }: TokenQuery): string {
+  return JSON.stringify([chain, category, sort, order, minLiquidity, minMarketCap, q]);
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    const validValue = payload.v === null || typeof payload.v === 'number';
+    return validValue && typeof payload.id === 'string' && typeof payload.f === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor: it is malformed or belongs to a different query');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * One page of the filtered, sorted listing
+ *
+ * @throws InvalidCursorError when the cursor does not decode or was issued for other filters
+ */
+export function pageTokens(tokens: Token[], query: TokenQuery, asOf = Date.now()): TokenPage {
+  let selected = selectTokens(tokens, query);
+  const f = fingerprint(query);
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    if (!after || after.f !== f) throw new InvalidCursorError();
+    selected = selected.filter(
+      (token) => comparePositions({ value: sortValue(token, query.sort), id: token.id }, { value: after.v, id: after.id }, query.order) > 0
+    );
+  }
+
+  const items = selected.slice(0, query.limit);
+  const last = items[items.length - 1];
+  const nextCursor = selected.length > query.limit && last
+    ? encodeCursor({ v: sortValue(last, query.sort), id: last.id, f })
+    : null;
+
+  return { items, nextCursor, asOf };
+}
@@ -5,8 +5,25 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatPrice(price: number): string {
-  if (price < 0.01) {
+/** Shown in place of values the data source did not report */
+export const UNKNOWN_VALUE = '—';
+
+/** How market numbers are displayed; components take it from settings (useFormatters) */
+export interface NumberFormat {
+  /** "1.23M" or "1,234,567" */
+  notation: 'compact' | 'full';
+  /** Fixed price decimals, or 'auto' to scale them with the price */
+  priceDecimals: 'auto' | 2 | 4 | 6 | 8;
+}
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { notation: 'compact', priceDecimals: 'auto' };
+
+export function formatPrice(price: number | null, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string {
+  if (price === null) {
+    return UNKNOWN_VALUE;
+  } else if (format.priceDecimals !== 'auto') {
+    return `$${price.toFixed(format.priceDecimals)}`;
+  } else if (price < 0.01) {
     return `$${price.toFixed(6)}`;
   } else if (price < 1) {
     return `$${price.toFixed(4)}`;
@@ -15,13 +32,18 @@ export function formatPrice(price: number): string {
   }
 }
 
-export function formatPercentage(value: number): string {
+export function formatPercentage(value: number | null): string {
+  if (value === null) return UNKNOWN_VALUE;
   const sign = value >= 0 ? '+' : '';
   return `${sign}${value.toFixed(2)}%`;
 }
 
-export function formatNumber(num: number): string {
-  if (num >= 1e9) {
+export function formatNumber(num: number | null, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string {
+  if (num === null) {
+    return UNKNOWN_VALUE;
+  } else if (format.notation === 'full') {
+    return num.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  } else if (num >= 1e9) {
     return `${(num / 1e9).toFixed(2)}B`;
   } else if (num >= 1e6) {
     return `${(num / 1e6).toFixed(2)}M`;
@@ -31,3 +53,8 @@ export function formatNumber(num: number): string {
     return num.toFixed(2);
   }
 }
+
+/** USD amount, e.g. "$1.23M" (or "$1,234,567" in full notation) */
+export function formatUsd(num: number | null, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string {
+  return num === null ? UNKNOWN_VALUE : `$${formatNumber(num, format)}`;
+}
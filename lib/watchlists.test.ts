@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import reducer, { importWatchlists, setWatchlists, Watchlist } from '@/store/watchlistsSlice';
+import { exportWatchlists, parseWatchlistImport, WatchlistImportError, watchlistNameError } from './watchlists';
+
+const BONK = 'solana:DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const WIF = 'solana:EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+
+const sniping: Watchlist = { id: 'a', name: 'Sniping', tokenIds: [BONK], sort: { field: 'volume24h', desc: true }, createdAt: 1 };
+
+const file = (watchlists: unknown[], version = 1) => JSON.stringify({ version, watchlists });
+
+/** The WatchlistImportError message `text` is rejected with */
+function importError(text: string): string {
+  try {
+    parseWatchlistImport(text);
+  } catch (error) {
+    assert.ok(error instanceof WatchlistImportError);
+    return error.message;
+  }
+  assert.fail('import was accepted');
+}
+
+describe('parseWatchlistImport', () => {
+  it('reads back an export without local ids', () => {
+    assert.deepEqual(parseWatchlistImport(exportWatchlists([sniping])), [
+      { name: 'Sniping', tokenIds: [BONK], sort: { field: 'volume24h', desc: true } },
+    ]);
+  });
+
+  it('trims names, defaults the sort and drops duplicate token ids', () => {
+    assert.deepEqual(parseWatchlistImport(file([{ name: '  gems ', tokenIds: [WIF, BONK, WIF] }])), [
+      { name: 'gems', tokenIds: [WIF, BONK], sort: null },
+    ]);
+  });
+
+  it('rejects files that are not JSON or not an export', () => {
+    assert.equal(importError('{ nope'), 'The file is not valid JSON');
+    assert.match(importError(file([], 2)), /^Not a watchlist export at version/);
+    assert.match(importError(JSON.stringify([sniping])), /^Not a watchlist export/);
+  });
+
+  it('points at the invalid field', () => {
+    assert.match(
+      importError(file([{ name: 'ok', tokenIds: [BONK, 'not-a-token'] }])),
+      /at watchlists\.0\.tokenIds\.1: Expected a chain:address token id/
+    );
+    assert.match(importError(file([{ name: ' ', tokenIds: [] }])), /at watchlists\.0\.name/);
+    assert.match(importError(file([{ name: 'x'.repeat(51), tokenIds: [] }])), /at watchlists\.0\.name/);
+  });
+
+  it('merges imported lists into existing ones by name', () => {
+    const imported = parseWatchlistImport(file([{ name: 'SNIPING', tokenIds: [WIF, BONK] }, { name: 'gems', tokenIds: [] }]));
+    const state = reducer(reducer(undefined, setWatchlists([sniping])), importWatchlists(imported));
+
+    assert.deepEqual(state.lists.map((list) => [list.name, list.tokenIds]), [['Sniping', [BONK, WIF]], ['gems', []]]);
+  });
+});
+
+describe('watchlistNameError', () => {
+  it('rejects empty, overlong and taken names, but not a list keeping its own', () => {
+    assert.equal(watchlistNameError('  ', [sniping]), 'The name is empty');
+    assert.match(watchlistNameError('x'.repeat(51), [sniping]) ?? '', /at most 50/);
+    assert.match(watchlistNameError('sniping', [sniping]) ?? '', /already a watchlist named "Sniping"/);
+    assert.equal(watchlistNameError('sniping', [sniping], 'a'), null);
+  });
+});
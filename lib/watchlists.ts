@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { parseTokenKey } from '@/lib/chains';
+import { sameWatchlistName, Watchlist } from '@/store/watchlistsSlice';
+
+/**
+ * Watchlist JSON import/export
+ *
+ *   { "version": 1, "exportedAt": "...", "watchlists": [
+ *       { "name": "sniping", "tokenIds": ["solana:<address>"], "sort": null } ] }
+ *
+ * Ids and creation times are local to a browser, so they are not exported;
+ * importing merges lists by name (see importWatchlists).
+ */
+
+export const WATCHLIST_EXPORT_VERSION = 1;
+
+export const WATCHLIST_NAME_MAX_LENGTH = 50;
+
+export type ExportedWatchlist = Pick<Watchlist, 'name' | 'tokenIds' | 'sort'>;
+
+const watchlistSchema = z.object({
+  name: z.string().trim().min(1).max(WATCHLIST_NAME_MAX_LENGTH),
+  tokenIds: z.array(
+    z.string().refine((id) => parseTokenKey(id) !== null, { message: 'Expected a chain:address token id' })
+  ),
+  sort: z.object({ field: z.string().min(1), desc: z.boolean() }).nullable().default(null),
+});
+
+const exportSchema = z.object({
+  version: z.literal(WATCHLIST_EXPORT_VERSION),
+  exportedAt: z.string().optional(),
+  watchlists: z.array(watchlistSchema),
+});
+
+/** Thrown for files that are not a watchlist export; the message is user-facing */
+export class WatchlistImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistImportError';
+  }
+}
+
+/**
+ * Why a name cannot be given to a new list, or to list `ownId` on rename;
+ * null when it can. Names are unique (case-insensitive), as imports merge
+ * lists by name.
+ */
+export function watchlistNameError(name: string, lists: Watchlist[], ownId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'The name is empty';
+  if (trimmed.length > WATCHLIST_NAME_MAX_LENGTH) {
+    return `Names can be at most ${WATCHLIST_NAME_MAX_LENGTH} characters`;
+  }
+  const taken = lists.find((list) => list.id !== ownId && sameWatchlistName(list.name, trimmed));
+  return taken ? `There is already a watchlist named "${taken.name}"` : null;
+}
+
+export function exportWatchlists(lists: Watchlist[], exportedAt = new Date()): string {
+  const payload = {
+    version: WATCHLIST_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    watchlists: lists.map(({ name, tokenIds, sort }) => ({ name, tokenIds, sort })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function parseWatchlistImport(text: string): ExportedWatchlist[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new WatchlistImportError('The file is not valid JSON');
+  }
+
+  const parsed = exportSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new WatchlistImportError(`Not a watchlist export${where}: ${issue.message}`);
+  }
+  // Duplicate ids within a list would show the token twice
+  return parsed.data.watchlists.map((list) => ({ ...list, tokenIds: [...new Set(list.tokenIds)] }));
+}
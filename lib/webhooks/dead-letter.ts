@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { FieldError } from './schemas';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Dead-letter store for authenticated webhooks that failed validation
+ *
+ * Each rejected payload is kept verbatim as one JSON file so it can be
+ * inspected and replayed (scripts/dead-letters.ts) once the sender or the
+ * schema has been fixed.
+ */
+
+export interface DeadLetter {
+  /** Sortable id: receive time in ms plus a random suffix */
+  id: string;
+  /** ISO timestamp */
+  receivedAt: string;
+  reason: string;
+  schema?: string;
+  errors: FieldError[];
+  /** Raw request body exactly as received */
+  body: string;
+}
+
+export interface DeadLetterStore {
+  readonly dir: string;
+  add(entry: Omit<DeadLetter, 'id' | 'receivedAt'>): Promise<DeadLetter>;
+  /** Newest first */
+  list(limit?: number): Promise<DeadLetter[]>;
+  get(id: string): Promise<DeadLetter | null>;
+  remove(id: string): Promise<void>;
+}
+
+const ID_PATTERN = /^\d+-[0-9a-f]+$/;
+
+export function createDeadLetterStore(dir?: string): DeadLetterStore {
+  const root = path.resolve(dir ?? process.env.DEAD_LETTER_DIR ?? '.data/dead-letters');
+  const entryFile = (id: string) => path.join(root, `${id}.json`);
+
+  async function read(id: string): Promise<DeadLetter | null> {
+    // Ids come from the CLI; never let one escape the store directory
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(entryFile(id), 'utf8')) as DeadLetter;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  return {
+    dir: root,
+
+    async add(entry) {
+      const now = Date.now();
+      const letter: DeadLetter = {
+        id: `${now}-${randomBytes(4).toString('hex')}`,
+        receivedAt: new Date(now).toISOString(),
+        ...entry,
+      };
+      await fs.mkdir(root, { recursive: true });
+      await fs.writeFile(entryFile(letter.id), JSON.stringify(letter, null, 2));
+      return letter;
+    },
+
+    async list(limit = 50) {
+      let files: string[];
+      try {
+        files = await fs.readdir(root);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const ids = files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => f.slice(0, -'.json'.length))
+        .sort((a, b) => parseInt(b, 10) - parseInt(a, 10))
+        .slice(0, limit);
+
+      const letters = await Promise.all(ids.map(read));
+      return letters.filter((l): l is DeadLetter => l !== null);
+    },
+
+    get: read,
+
+    async remove(id) {
+      if (!ID_PATTERN.test(id)) return;
+      await fs.rm(entryFile(id), { force: true });
+    },
+  };
+}
+
+/** Process-wide store rooted at DEAD_LETTER_DIR (default .data/dead-letters) */
+export function getDeadLetterStore(): DeadLetterStore {
+  return globalSingleton('deadLetterStore', () => createDeadLetterStore());
+}
@@ -0,0 +1,169 @@
+import { Token } from '@/store/tokensSlice';
+import { publishEvents, RealtimeEvent } from '@/lib/realtime/server';
+import { recordObservations, recordTokens } from '@/lib/timeseries/recorder';
+import { Observation } from '@/lib/timeseries/tick-store';
+import { getDeadLetterStore } from './dead-letter';
+import { FieldError, parseWebhookPayload, WebhookEvent } from './schemas';
+
+/** Largest array accepted in one request */
+export const MAX_WEBHOOK_BATCH = 100;
+
+export type WebhookItemResult =
+  | { ok: true; schema: string; event: WebhookEvent }
+  | {
+      ok: false;
+      reason: string;
+      schema?: string;
+      errors: FieldError[];
+      /** Set when the payload was written to the dead-letter store */
+      deadLetterId?: string;
+    };
+
+export interface WebhookOutcome {
+  /** 200 all accepted, 207 some rejected, 400 bad JSON, 422 none accepted */
+  status: 200 | 207 | 400 | 422;
+  /** Body was an array of payloads */
+  batch: boolean;
+  /** One entry per payload, in request order */
+  results: WebhookItemResult[];
+}
+
+export interface HandleWebhookOptions {
+  /** Store rejected payloads for later replay (off when replaying one) */
+  deadLetter?: boolean;
+}
+
+type WebhookRejection = Extract<WebhookItemResult, { ok: false }>;
+
+async function reject(
+  rejection: WebhookRejection,
+  rawBody: string,
+  deadLetter: boolean
+): Promise<WebhookRejection> {
+  if (!deadLetter) return rejection;
+
+  try {
+    const letter = await getDeadLetterStore().add({
+      reason: rejection.reason,
+      schema: rejection.schema,
+      errors: rejection.errors,
+      body: rawBody,
+    });
+    return { ...rejection, deadLetterId: letter.id };
+  } catch (error) {
+    console.error('⚠️ Failed to write dead letter:', error);
+    return rejection;
+  }
+}
+
+/** Record and broadcast accepted events, in request order */
+async function dispatch(events: WebhookEvent[]): Promise<void> {
+  const created: Token[] = [];
+  const observations: Observation[] = [];
+  const realtime: RealtimeEvent[] = [];
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'token.created':
+        created.push(event.token);
+        realtime.push({ name: 'token.created', data: event.token });
+        break;
+      case 'token.traded':
+        observations.push({
+          id: event.trade.id,
+          chain: event.trade.chain,
+          time: Math.floor(event.trade.time / 1000),
+          price: event.trade.priceUsd,
+          marketCap: event.update.marketCap,
+          liquidity: event.update.liquidity,
+          source: 'webhook',
+        });
+        realtime.push({ name: 'token.traded', data: event.trade });
+        realtime.push({ name: 'token.updated', data: event.update });
+        break;
+      case 'token.migrated':
+        realtime.push({ name: 'token.migrated', data: event.migration });
+        break;
+    }
+  }
+
+  await recordTokens(created, 'webhook');
+  await recordObservations(observations);
+  // Swaps and curve completions can move tokens between Pulse columns;
+  // publishEvents adds those transitions
+  await publishEvents(realtime);
+}
+
+/**
+ * Validate an authenticated webhook body (one payload or an array of them)
+ * and broadcast the lifecycle events it describes
+ *
+ * Shared by POST /api/broadcast and the dead-letter replay script, so a
+ * replayed payload goes through exactly the same checks. In a batch each
+ * payload is validated and dead-lettered on its own; valid ones are still
+ * dispatched.
+ */
+export async function handleWebhookBody(
+  rawBody: string,
+  { deadLetter = true }: HandleWebhookOptions = {}
+): Promise<WebhookOutcome> {
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    const rejection = await reject(
+      {
+        ok: false,
+        reason: 'invalid_json',
+        errors: [{ path: '(root)', message: 'Body is not valid JSON' }],
+      },
+      rawBody,
+      deadLetter
+    );
+    return { status: 400, batch: false, results: [rejection] };
+  }
+
+  const batch = Array.isArray(body);
+  const payloads: unknown[] = Array.isArray(body) ? body : [body];
+
+  // Not dead-lettered: replaying the same batch would fail the same way
+  if (payloads.length === 0 || payloads.length > MAX_WEBHOOK_BATCH) {
+    return {
+      status: 422,
+      batch,
+      results: [{
+        ok: false,
+        reason: payloads.length === 0 ? 'empty_batch' : 'batch_too_large',
+        errors: [{ path: '(root)', message: `Batches must hold 1-${MAX_WEBHOOK_BATCH} payloads` }],
+      }],
+    };
+  }
+
+  const results: WebhookItemResult[] = [];
+  for (const [index, payload] of payloads.entries()) {
+    const parsed = parseWebhookPayload(payload);
+    if (parsed.ok) {
+      results.push({ ok: true, schema: parsed.schema, event: parsed.event });
+      continue;
+    }
+
+    // Prefix batch paths with the item index so errors point at the right payload
+    const errors = batch
+      ? parsed.errors.map((e) => ({ ...e, path: e.path === '(root)' ? String(index) : `${index}.${e.path}` }))
+      : parsed.errors;
+    results.push(
+      await reject(
+        { ok: false, reason: parsed.reason, schema: parsed.schema, errors },
+        // Dead-letter only the failing item so a replay can't re-send the rest
+        batch ? JSON.stringify(payload) : rawBody,
+        deadLetter
+      )
+    );
+  }
+
+  const accepted = results.flatMap((r) => (r.ok ? [r.event] : []));
+  await dispatch(accepted);
+
+  const status = accepted.length === results.length ? 200 : accepted.length === 0 ? 422 : 207;
+  return { status, batch, results };
+}
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseWebhookPayload } from './schemas';
+
+const PAIR = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const swap = (data: Record<string, unknown> = {}, extra: Record<string, unknown> = {}) => ({
+  event: 'swap',
+  data: {
+    blockchain: 'Solana',
+    pair: PAIR,
+    token: { address: PAIR, symbol: 'BONK', name: 'Bonk' },
+    type: 'buy',
+    priceUSD: 0.000013,
+    amountUSD: 250,
+    hash: '5xTx',
+    timestamp: 1_700_000_000_000,
+    ...data,
+  },
+  ...extra,
+});
+
+describe('parseWebhookPayload', () => {
+  it('maps a Mobula swap to a trade and a price update', () => {
+    const result = parseWebhookPayload(swap());
+    assert.ok(result.ok);
+    assert.equal(result.schema, 'mobula.swap@1');
+    assert.equal(result.event.type, 'token.traded');
+    if (result.event.type !== 'token.traded') return;
+    assert.equal(result.event.trade.id, `solana:${PAIR}`);
+    assert.equal(result.event.update.price, 0.000013);
+    assert.equal(result.event.update.source, 'mobula');
+  });
+
+  it('maps a DEXScreener pair to a created token', () => {
+    const result = parseWebhookPayload({
+      chainId: 'solana',
+      pairAddress: PAIR,
+      baseToken: { address: PAIR, name: 'Bonk', symbol: 'bonk' },
+      priceUsd: '0.000013',
+      pairCreatedAt: 1_700_000_000_000,
+    });
+    assert.ok(result.ok);
+    assert.equal(result.event.type, 'token.created');
+    if (result.event.type !== 'token.created') return;
+    assert.equal(result.event.token.id, `solana:${PAIR}`);
+    assert.equal(result.event.token.symbol, 'BONK');
+    assert.equal(result.event.token.price, 0.000013);
+    assert.equal(result.event.token.source, 'webhook');
+  });
+
+  it('reports each invalid field with its path', () => {
+    const result = parseWebhookPayload(swap({ priceUSD: -1, pair: 'not-an-address' }));
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.reason, 'validation_failed');
+    assert.deepEqual(result.errors.map((error) => error.path).sort(), ['data.pair', 'data.priceUSD']);
+  });
+
+  it('rejects unsupported chains', () => {
+    const result = parseWebhookPayload(swap({ blockchain: 'dogechain' }));
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.deepEqual(result.errors.map((error) => error.path), ['data.blockchain']);
+  });
+
+  it('tells unknown shapes apart from unsupported versions', () => {
+    const unknown = parseWebhookPayload({ hello: 'world' });
+    assert.equal(!unknown.ok && unknown.reason, 'unknown_schema');
+
+    const future = parseWebhookPayload(swap({}, { version: 2 }));
+    assert.equal(!future.ok && future.reason, 'unsupported_version');
+    assert.equal(future.schema, 'mobula.swap@2');
+  });
+});
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { CHAINS, ChainId, isChainId, isValidAddress, resolveChain, tokenKey } from '@/lib/chains';
+import { fromDexScreenerPair, fromMobulaPoolCreated } from '@/lib/normalize';
+import { Token, TokenMigration, TokenTrade, TokenUpdate } from '@/store/tokensSlice';
+
+/**
+ * Versioned schemas for the webhook payloads /api/broadcast accepts
+ *
+ * A payload is first classified by shape (see detectKind), then validated
+ * against the schema registered for that kind and its `version` field
+ * (default 1). Adding a new payload revision means registering a new
+ * `kind@version` entry; older senders keep validating against theirs.
+ *
+ * Each valid payload maps to one lifecycle event: pool/pair creation ->
+ * token.created, swap -> token.traded (plus a price update), curve
+ * completion -> token.migrated.
+ */
+
+export type WebhookKind =
+  | 'mobula.swap'
+  | 'mobula.pool_created'
+  | 'mobula.curve_completed'
+  | 'dexscreener.pair';
+
+export type WebhookEvent =
+  | { type: 'token.created'; token: Token }
+  | { type: 'token.traded'; trade: TokenTrade; update: TokenUpdate }
+  | { type: 'token.migrated'; migration: TokenMigration };
+
+export interface FieldError {
+  /** Dotted path into the payload, e.g. "data.token.symbol" */
+  path: string;
+  message: string;
+}
+
+export type WebhookParseResult =
+  | { ok: true; schema: string; event: WebhookEvent }
+  | {
+      ok: false;
+      schema?: string;
+      reason: 'unknown_schema' | 'unsupported_version' | 'validation_failed';
+      errors: FieldError[];
+    };
+
+const nonEmpty = z.string().trim().min(1);
+const usd = z.number().nonnegative();
+
+/** Any spelling the chain registry knows ("Solana", "eth", "evm:8453"), as a chain id */
+const chainName = nonEmpty.transform((value, ctx) => {
+  const chain = resolveChain(value);
+  if (!chain) {
+    ctx.addIssue({ code: 'custom', message: `Unsupported chain "${value}"` });
+    return z.NEVER;
+  }
+  return chain;
+});
+
+/** Pair addresses must be well-formed for the payload's chain */
+function checkAddress(ctx: z.RefinementCtx, chain: ChainId, address: string, path: string[]) {
+  // An unsupported chain was already reported by chainName
+  if (!isChainId(chain) || isValidAddress(chain, address)) return;
+  ctx.addIssue({ code: 'custom', path, message: `Not a valid ${CHAINS[chain].name} address` });
+}
+
+const tokenInfo = z.object({
+  address: nonEmpty,
+  symbol: nonEmpty,
+  name: nonEmpty,
+  logo: z.url().optional(),
+});
+
+const mobulaSwapV1 = z.object({
+  event: z.literal('swap'),
+  version: z.literal(1).optional(),
+  data: z.object({
+    blockchain: chainName,
+    pair: nonEmpty,
+    token: tokenInfo,
+    type: z.enum(['buy', 'sell']),
+    priceUSD: z.number().positive(),
+    amountUSD: usd,
+    marketCapUSD: usd.optional(),
+    liquidityUSD: usd.optional(),
+    hash: nonEmpty,
+    /** Unix milliseconds */
+    timestamp: z.number().int().positive(),
+  }).superRefine((data, ctx) => checkAddress(ctx, data.blockchain, data.pair, ['pair'])),
+});
+
+const mobulaPoolCreatedV1 = z.object({
+  event: z.literal('pool_created'),
+  version: z.literal(1).optional(),
+  data: z.object({
+    blockchain: chainName,
+    pair: nonEmpty,
+    dex: nonEmpty.optional(),
+    token: tokenInfo,
+    priceUSD: z.number().positive().optional(),
+    liquidityUSD: usd.optional(),
+    marketCapUSD: usd.optional(),
+    /** Bonding-curve progress in percent, for launchpad pools */
+    bondingPercentage: z.number().min(0).max(100).optional(),
+    /** Unix milliseconds */
+    timestamp: z.number().int().positive(),
+  }).superRefine((data, ctx) => checkAddress(ctx, data.blockchain, data.pair, ['pair'])),
+});
+
+const mobulaCurveCompletedV1 = z.object({
+  event: z.literal('curve_completed'),
+  version: z.literal(1).optional(),
+  data: z.object({
+    blockchain: chainName,
+    /** Bonding-curve pair the token traded on until now */
+    pair: nonEmpty,
+    token: tokenInfo,
+    migratedTo: z.object({ pair: nonEmpty, dex: nonEmpty.optional() }).optional(),
+    /** Unix milliseconds */
+    timestamp: z.number().int().positive(),
+  }).superRefine((data, ctx) => checkAddress(ctx, data.blockchain, data.pair, ['pair'])),
+});
+
+// Mirrors a pair object from the DEXScreener API; numeric prices are strings there
+const dexScreenerPairV1 = z.object({
+  version: z.literal(1).optional(),
+  chainId: chainName,
+  dexId: nonEmpty.optional(),
+  pairAddress: nonEmpty,
+  baseToken: z.object({ address: nonEmpty, name: nonEmpty, symbol: nonEmpty }),
+  priceUsd: z.string().regex(/^\d+(\.\d+)?([eE][-+]?\d+)?$/, 'Expected a decimal string'),
+  priceChange: z.object({ h24: z.number().optional() }).optional(),
+  volume: z.object({ h24: usd.optional() }).optional(),
+  liquidity: z.object({ usd: usd.optional() }).optional(),
+  fdv: usd.optional(),
+  marketCap: usd.optional(),
+  /** Unix milliseconds */
+  pairCreatedAt: z.number().int().positive().optional(),
+  info: z.object({ imageUrl: z.url().optional() }).optional(),
+}).superRefine((pair, ctx) => checkAddress(ctx, pair.chainId, pair.pairAddress, ['pairAddress']));
+
+interface WebhookSchema {
+  parse(body: unknown): { success: true; event: WebhookEvent } | { success: false; errors: FieldError[] };
+}
+
+function defineSchema<T>(schema: z.ZodType<T>, toEvent: (payload: T) => WebhookEvent): WebhookSchema {
+  return {
+    parse(body) {
+      const result = schema.safeParse(body);
+      if (!result.success) {
+        return {
+          success: false,
+          errors: result.error.issues.map((issue) => ({
+            path: issue.path.map(String).join('.') || '(root)',
+            message: issue.message,
+          })),
+        };
+      }
+      return { success: true, event: toEvent(result.data) };
+    },
+  };
+}
+
+const WEBHOOK_SCHEMAS: Record<string, WebhookSchema> = {
+  'mobula.swap@1': defineSchema(mobulaSwapV1, ({ data }) => ({
+    type: 'token.traded',
+    trade: {
+      id: tokenKey(data.blockchain, data.pair),
+      chain: data.blockchain,
+      side: data.type,
+      priceUsd: data.priceUSD,
+      amountUsd: data.amountUSD,
+      txHash: data.hash,
+      time: data.timestamp,
+    },
+    update: {
+      id: tokenKey(data.blockchain, data.pair),
+      price: data.priceUSD,
+      marketCap: data.marketCapUSD,
+      liquidity: data.liquidityUSD,
+      source: 'mobula',
+      updatedAt: data.timestamp,
+    },
+  })),
+
+  'mobula.pool_created@1': defineSchema(mobulaPoolCreatedV1, ({ data }) => ({
+    type: 'token.created',
+    token: { ...fromMobulaPoolCreated(data), source: 'webhook' },
+  })),
+
+  'mobula.curve_completed@1': defineSchema(mobulaCurveCompletedV1, ({ data }) => ({
+    type: 'token.migrated',
+    migration: {
+      id: tokenKey(data.blockchain, data.pair),
+      chain: data.blockchain,
+      pairAddress: data.migratedTo?.pair,
+      dex: data.migratedTo?.dex,
+      migratedAt: data.timestamp,
+    },
+  })),
+
+  'dexscreener.pair@1': defineSchema(dexScreenerPairV1, (pair) => ({
+    type: 'token.created',
+    token: { ...fromDexScreenerPair(pair, pair.chainId), source: 'webhook' },
+  })),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Classify a payload by its discriminating fields, without validating it */
+export function detectKind(body: unknown): WebhookKind | null {
+  if (!isRecord(body)) return null;
+  if (body.event === 'swap') return 'mobula.swap';
+  if (body.event === 'pool_created') return 'mobula.pool_created';
+  if (body.event === 'curve_completed') return 'mobula.curve_completed';
+  if ('pairAddress' in body && 'chainId' in body) return 'dexscreener.pair';
+  return null;
+}
+
+export function parseWebhookPayload(body: unknown): WebhookParseResult {
+  const kind = detectKind(body);
+  if (!kind) {
+    return {
+      ok: false,
+      reason: 'unknown_schema',
+      errors: [{ path: '(root)', message: 'Payload does not match any supported webhook shape' }],
+    };
+  }
+
+  const version = isRecord(body) && body.version !== undefined ? body.version : 1;
+  const schemaId = `${kind}@${String(version)}`;
+  const schema = WEBHOOK_SCHEMAS[schemaId];
+  if (!schema) {
+    return {
+      ok: false,
+      schema: schemaId,
+      reason: 'unsupported_version',
+      errors: [{ path: 'version', message: `Unsupported ${kind} version: ${String(version)}` }],
+    };
+  }
+
+  const result = schema.parse(body);
+  if (!result.success) {
+    return { ok: false, schema: schemaId, reason: 'validation_failed', errors: result.errors };
+  }
+  return { ok: true, schema: schemaId, event: result.event };
+}
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createWebhookVerifier, NONCE_HEADER, signPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature';
+
+const SECRET = 'test-secret';
+const NOW = 1_700_000_000;
+const BODY = '{"events":[]}';
+
+/** Headers for `body` signed at `timestamp` */
+function signed(body: string, timestamp = NOW, nonce = 'nonce-1', secret = SECRET) {
+  return new Headers({
+    [SIGNATURE_HEADER]: signPayload(secret, String(timestamp), nonce, body),
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [NONCE_HEADER]: nonce,
+  });
+}
+
+const codeOf = (fn: () => void) => {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return (error as { code?: string }).code;
+  }
+};
+
+describe('createWebhookVerifier', () => {
+  it('accepts a fresh, correctly signed request', () => {
+    const verifier = createWebhookVerifier({ secret: SECRET });
+    assert.doesNotThrow(() => verifier.verify(signed(BODY), BODY, NOW));
+  });
+
+  it('rejects missing headers, bad signatures and a tampered body', () => {
+    const verifier = createWebhookVerifier({ secret: SECRET });
+    assert.equal(codeOf(() => verifier.verify(new Headers(), BODY, NOW)), 'missing_signature');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW, 'n', 'wrong'), BODY, NOW)), 'invalid_signature');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY), '{"events":[1]}', NOW)), 'invalid_signature');
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const verifier = createWebhookVerifier({ secret: SECRET, toleranceSeconds: 60 });
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW - 61), BODY, NOW)), 'stale_timestamp');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW + 61), BODY, NOW)), 'stale_timestamp');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW - 60), BODY, NOW)), null);
+  });
+
+  it('rejects a replayed nonce within the window', () => {
+    const verifier = createWebhookVerifier({ secret: SECRET, toleranceSeconds: 60 });
+    verifier.verify(signed(BODY), BODY, NOW);
+    assert.equal(codeOf(() => verifier.verify(signed(BODY), BODY, NOW + 30)), 'replayed_nonce');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW, 'nonce-2'), BODY, NOW + 30)), null);
+  });
+
+  it('does not remember nonces from forged requests', () => {
+    const verifier = createWebhookVerifier({ secret: SECRET });
+    assert.equal(codeOf(() => verifier.verify(signed(BODY, NOW, 'nonce-1', 'wrong'), BODY, NOW)), 'invalid_signature');
+    assert.equal(codeOf(() => verifier.verify(signed(BODY), BODY, NOW)), null);
+  });
+
+  it('refuses everything when no secret is configured', () => {
+    const verifier = createWebhookVerifier({ secret: '' });
+    assert.equal(codeOf(() => verifier.verify(signed(BODY), BODY, NOW)), 'not_configured');
+  });
+});
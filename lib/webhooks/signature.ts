@@ -0,0 +1,115 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { globalSingleton } from '@/lib/singleton';
+
+/**
+ * Shared-secret webhook authentication
+ *
+ * Senders sign `${timestamp}.${nonce}.${rawBody}` with HMAC-SHA256 using
+ * WEBHOOK_SECRET and send:
+ *
+ *   X-Webhook-Timestamp  unix seconds
+ *   X-Webhook-Nonce      unique per request (uuid or random hex)
+ *   X-Webhook-Signature  sha256=<hex digest>
+ *
+ * Requests outside the timestamp window are rejected, and a nonce seen
+ * within the window is rejected as a replay.
+ */
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const NONCE_HEADER = 'x-webhook-nonce';
+
+/** Maximum clock skew between sender and server, seconds */
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export class WebhookAuthError extends Error {
+  constructor(
+    public readonly status: 401 | 409 | 500,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WebhookAuthError';
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, nonce: string, body: string): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export interface WebhookVerifierOptions {
+  secret?: string;
+  toleranceSeconds?: number;
+}
+
+export interface WebhookVerifier {
+  /** Throws WebhookAuthError unless the request is signed, fresh and unseen */
+  verify(headers: Headers, body: string, now?: number): void;
+}
+
+export function createWebhookVerifier({
+  secret = process.env.WEBHOOK_SECRET,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+}: WebhookVerifierOptions = {}): WebhookVerifier {
+  // nonce -> expiry (unix seconds); entries only need to outlive the window
+  const seenNonces = new Map<string, number>();
+
+  function evictExpired(now: number) {
+    for (const [nonce, expiresAt] of seenNonces) {
+      if (expiresAt <= now) seenNonces.delete(nonce);
+    }
+  }
+
+  return {
+    verify(headers, body, now = Math.floor(Date.now() / 1000)) {
+      if (!secret) {
+        throw new WebhookAuthError(500, 'not_configured', 'WEBHOOK_SECRET is not set');
+      }
+
+      const signature = headers.get(SIGNATURE_HEADER);
+      const timestamp = headers.get(TIMESTAMP_HEADER);
+      const nonce = headers.get(NONCE_HEADER);
+      if (!signature || !timestamp || !nonce) {
+        throw new WebhookAuthError(
+          401,
+          'missing_signature',
+          `Missing ${SIGNATURE_HEADER}, ${TIMESTAMP_HEADER} or ${NONCE_HEADER} header`
+        );
+      }
+
+      const sentAt = Number(timestamp);
+      if (!Number.isInteger(sentAt) || Math.abs(now - sentAt) > toleranceSeconds) {
+        throw new WebhookAuthError(
+          401,
+          'stale_timestamp',
+          `Timestamp outside the ${toleranceSeconds}s window`
+        );
+      }
+
+      if (!signaturesMatch(signPayload(secret, timestamp, nonce, body), signature)) {
+        throw new WebhookAuthError(401, 'invalid_signature', 'Signature does not match payload');
+      }
+
+      // Only remember nonces of authentic requests so forgeries can't fill the cache
+      evictExpired(now);
+      if (seenNonces.has(nonce)) {
+        throw new WebhookAuthError(409, 'replayed_nonce', 'Nonce has already been used');
+      }
+      seenNonces.set(nonce, sentAt + toleranceSeconds);
+    },
+  };
+}
+
+/** Process-wide verifier keyed on WEBHOOK_SECRET; its replay cache must be shared by every route */
+export function getWebhookVerifier(): WebhookVerifier {
+  return globalSingleton('webhookVerifier', () => createWebhookVerifier());
+}
@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Dead-letter inspection and replay
+ *
+ * Webhooks that passed signature checks but failed schema validation are
+ * kept in DEAD_LETTER_DIR (default .data/dead-letters). Replaying runs the
+ * stored body through the same handler as POST /api/broadcast; entries that
+ * now validate are broadcast and removed.
+ *
+ * Run with:
+ *   npm run dead-letters -- list [limit]
+ *   npm run dead-letters -- show <id>
+ *   npm run dead-letters -- replay <id|all>
+ *   npm run dead-letters -- drop <id>
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { DeadLetter, getDeadLetterStore } from '../lib/webhooks/dead-letter';
+import { handleWebhookBody } from '../lib/webhooks/handler';
+
+// Load environment variables
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+const store = getDeadLetterStore();
+
+function summarize(letter: DeadLetter): string {
+  const firstError = letter.errors[0];
+  const detail = firstError ? `${firstError.path}: ${firstError.message}` : '';
+  return `${letter.id}  ${letter.receivedAt}  ${letter.reason}${letter.schema ? ` (${letter.schema})` : ''}  ${detail}`;
+}
+
+async function replay(letter: DeadLetter): Promise<boolean> {
+  // A dead letter holds a single payload (batches are split per item)
+  const outcome = await handleWebhookBody(letter.body, { deadLetter: false });
+  const [result] = outcome.results;
+  if (!result.ok) {
+    console.log(`❌ ${letter.id} still rejected (${result.reason})`);
+    for (const error of result.errors) {
+      console.log(`   ${error.path}: ${error.message}`);
+    }
+    return false;
+  }
+
+  await store.remove(letter.id);
+  console.log(`✅ ${letter.id} replayed as ${result.schema}: ${result.event.type}`);
+  return true;
+}
+
+async function main() {
+  const [command = 'list', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'list': {
+      const letters = await store.list(arg ? Number(arg) : undefined);
+      console.log(`📭 ${letters.length} dead letters in ${store.dir}`);
+      letters.forEach((letter) => console.log(summarize(letter)));
+      return;
+    }
+
+    case 'show': {
+      const letter = arg ? await store.get(arg) : null;
+      if (!letter) throw new Error(`Dead letter not found: ${arg ?? '(missing id)'}`);
+      console.log(JSON.stringify({ ...letter, body: safeParse(letter.body) }, null, 2));
+      return;
+    }
+
+    case 'replay': {
+      const letters = arg === 'all'
+        ? await store.list(Infinity)
+        : [arg ? await store.get(arg) : null].filter((l): l is DeadLetter => l !== null);
+      if (letters.length === 0) throw new Error(`Dead letter not found: ${arg ?? '(missing id)'}`);
+
+      let replayed = 0;
+      // Oldest first so replayed tokens arrive in their original order
+      for (const letter of letters.reverse()) {
+        if (await replay(letter)) replayed++;
+      }
+      console.log(`📬 Replayed ${replayed}/${letters.length}`);
+      if (replayed < letters.length) process.exitCode = 1;
+      return;
+    }
+
+    case 'drop': {
+      if (!arg) throw new Error('Usage: dead-letters drop <id>');
+      await store.remove(arg);
+      console.log(`🗑️ Dropped ${arg}`);
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command} (expected list, show, replay or drop)`);
+  }
+}
+
+function safeParse(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
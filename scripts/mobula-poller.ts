@@ -1,263 +1,408 @@
 #!/usr/bin/env tsx
 /**
  * Free Token Discovery Poller
- * 
- * Polls FREE public APIs (DEXScreener, CoinGecko) for newly created tokens
- * and broadcasts them via Pusher for real-time updates
- * 
- * Run with: npm run poller
+ *
+ * Polls market data providers (DEXScreener, CoinGecko by default; override
+ * with POLLER_PROVIDERS or --source) for newly created tokens
+ * and broadcasts them over the realtime transport (local broker or Pusher). Price changes on
+ * pairs it has already announced go out as `token.updated` events.
+ *
+ * Run with: npm run poller -- [options]   (see --help)
+ *
+ * Exit codes: 0 ok, 1 fatal error or missing config, 2 invalid usage,
+ * 3 the poll failed for at least one chain (--once only).
  */
 
-import Pusher from 'pusher';
 import dotenv from 'dotenv';
 import path from 'path';
+import { parseArgs } from 'util';
+import { ChainId, DEFAULT_CHAINS, parseChainList } from '../lib/chains';
+import { getMarketDataProvider, MarketDataProvider } from '../lib/providers';
+import { createPriceDiffer } from '../lib/realtime/price-differ';
+import { getRealtimeTransport, missingRealtimeConfig, publishEvents } from '../lib/realtime/server';
+import { RealtimeEvent } from '../lib/realtime/types';
+import { PollerHealth, writePollerHealth } from '../lib/poller/health';
+import { createSeenTokenStore, DEFAULT_SEEN_TTL_MS } from '../lib/poller/seen-store';
+import { recordTokens } from '../lib/timeseries/recorder';
+import { Token } from '../store/tokensSlice';
 
 // Load environment variables
 dotenv.config({ path: path.join(process.cwd(), '.env.local') });
 
-// Free public APIs - no authentication required!
-const DEXSCREENER_API = 'https://api.dexscreener.com/latest/dex';
-const COINGECKO_API = 'https://api.coingecko.com/api/v3';
-const POLL_INTERVAL = 45000; // 45 seconds (to respect free tier rate limits)
-const BLOCKCHAIN = 'solana'; // Focus on Solana chain
-
-// Initialize Pusher
-const pusher = new Pusher({
-  appId: process.env.PUSHER_APP_ID!,
-  key: process.env.PUSHER_KEY!,
-  secret: process.env.PUSHER_SECRET!,
-  cluster: process.env.PUSHER_CLUSTER!,
-  useTLS: true,
-});
-
-// Track seen token IDs to avoid duplicates
-const seenTokenIds = new Set<string>();
-
-interface MobulaToken {
-  id?: string;
-  address?: string;
-  symbol?: string;
-  name?: string;
-  price?: number;
-  priceChange24h?: number;
-  volume?: number;
-  volume24h?: number;
-  marketCap?: number;
-  market_cap?: number;
-  liquidity?: number;
-  holders?: number;
-  blockchain?: string;
-  logo?: string;
-  image?: string;
-  createdAt?: string;
+const EXIT_OK = 0;
+const EXIT_FATAL = 1;
+const EXIT_USAGE = 2;
+const EXIT_POLL_FAILED = 3;
+
+// Poller defaults
+const DEFAULT_INTERVAL_SECONDS = 45; // to respect free tier rate limits
+const SOURCES = ['dexscreener', 'coingecko', 'fixture'] as const;
+const OUTPUTS = ['pretty', 'ndjson'] as const;
+
+const USAGE = `Usage: npm run poller -- [options]
+
+  --once              Run a single poll cycle and exit
+  --dry-run           Print what would be broadcast; publish and persist nothing
+  --interval <sec>    Seconds between poll cycles (default ${DEFAULT_INTERVAL_SECONDS})
+  --source <name>     ${SOURCES.join('|')} (default POLLER_PROVIDERS or dexscreener,coingecko)
+  --chain <ids>       Comma-separated chains to poll (default POLLER_CHAINS or ${DEFAULT_CHAINS.join(',')})
+  --output <format>   ${OUTPUTS.join('|')}; ndjson writes one event per line to stdout
+  -h, --help          Show this help`;
+
+interface PollerOptions {
+  once: boolean;
+  dryRun: boolean;
+  intervalMs: number;
+  providers: string;
+  chains: ChainId[];
+  output: (typeof OUTPUTS)[number];
 }
 
-async function fetchNewlyCreatedTokens(): Promise<MobulaToken[]> {
+class UsageError extends Error {}
+
+function parseOptions(argv: string[]): PollerOptions | null {
+  let values;
   try {
-    // Method 1: Try DEXScreener first (100% free, no auth needed)
-    console.log(`🔍 Fetching newly created ${BLOCKCHAIN} tokens from DEXScreener...`);
-    
-    // Use search endpoint for recently listed tokens
-    const url = `${DEXSCREENER_API}/search/?q=solana`;
-    const response = await fetch(url, {
-      headers: { 
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0'
-      }
-    });
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        once: { type: 'boolean', default: false },
+        'dry-run': { type: 'boolean', default: false },
+        interval: { type: 'string' },
+        source: { type: 'string' },
+        chain: { type: 'string' },
+        output: { type: 'string', default: 'pretty' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
 
-    if (response.ok) {
-      const data = await response.json();
-      const pairs = data.pairs || [];
-      console.log(`✅ Fetched ${pairs.length} pairs from DEXScreener`);
-      
-      if (pairs.length > 0) {
-        // Transform DEXScreener format to our format
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return pairs.slice(0, 20).map((pair: any) => ({
-          id: pair.pairAddress,
-          address: pair.baseToken?.address,
-          symbol: pair.baseToken?.symbol,
-          name: pair.baseToken?.name,
-          price: pair.priceUsd ? parseFloat(pair.priceUsd) : 0,
-          priceChange24h: pair.priceChange?.h24 || 0,
-          volume24h: pair.volume?.h24 || 0,
-          liquidity: pair.liquidity?.usd || 0,
-          marketCap: pair.fdv || 0,
-          blockchain: 'solana',
-          logo: pair.info?.imageUrl,
-          createdAt: pair.pairCreatedAt
-        }));
-      }
-    }
-    
-    console.warn(`⚠️  DEXScreener returned ${response.status}, trying CoinGecko...`);
-    return await fetchFromCoinGecko();
+  if (values.help) return null;
+
+  const interval = values.interval === undefined ? DEFAULT_INTERVAL_SECONDS : Number(values.interval);
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new UsageError(`--interval must be a positive number of seconds, got "${values.interval}"`);
+  }
+
+  const source = values.source?.toLowerCase();
+  if (source !== undefined && !(SOURCES as readonly string[]).includes(source)) {
+    throw new UsageError(`--source must be one of ${SOURCES.join(', ')}, got "${values.source}"`);
+  }
+
+  const output = values.output.toLowerCase();
+  if (!(OUTPUTS as readonly string[]).includes(output)) {
+    throw new UsageError(`--output must be one of ${OUTPUTS.join(', ')}, got "${values.output}"`);
+  }
+
+  let chains: ChainId[];
+  try {
+    chains = parseChainList(values.chain ?? process.env.POLLER_CHAINS ?? DEFAULT_CHAINS.join(','));
   } catch (error) {
-    console.error('❌ Error fetching from DEXScreener:', error);
-    return await fetchFromCoinGecko();
+    throw new UsageError((error as Error).message);
+  }
+  if (chains.length === 0) {
+    throw new UsageError('--chain must name at least one chain');
   }
+
+  return {
+    once: values.once,
+    dryRun: values['dry-run'],
+    intervalMs: interval * 1000,
+    providers: source ?? (process.env.POLLER_PROVIDERS || 'dexscreener,coingecko'),
+    chains,
+    output: output as PollerOptions['output'],
+  };
 }
 
-async function fetchFromCoinGecko(): Promise<MobulaToken[]> {
+// Set in main() once the command line is parsed
+let options: PollerOptions;
+// Provider fallback chain. Each remote source gets its own rate limit, retry backoff and circuit breaker.
+let provider: MarketDataProvider;
+
+// Outcome of the latest poll, reported through /api/health
+let lastPoll: PollerHealth['lastPoll'] = null;
+
+// Announced token ids, persisted across restarts (POLLER_STATE_DIR, default .data/poller)
+const SEEN_TTL_MS = Number(process.env.POLLER_SEEN_TTL_HOURS) * 60 * 60 * 1000 || DEFAULT_SEEN_TTL_MS;
+const seenTokens = createSeenTokenStore({ ttlMs: SEEN_TTL_MS });
+
+// Last quotes sent to clients, for `token.updated` diffs on already-seen pairs
+const priceDiffer = createPriceDiffer();
+
+// Chains whose current feed has not been recorded as seen yet (no saved state)
+const unseededChains = new Set<ChainId>();
+
+/**
+ * Hand events to the realtime transport, or only print them in --dry-run.
+ * With --output ndjson each event is also written to stdout as one line.
+ * The Next server adds the `token.category_changed` events they cause.
+ */
+async function emit(events: RealtimeEvent[]) {
+  if (options.output === 'ndjson') {
+    for (const event of events) {
+      process.stdout.write(`${JSON.stringify({ ...event, dryRun: options.dryRun })}\n`);
+    }
+  }
+  if (!options.dryRun) {
+    await publishEvents(events);
+  }
+}
+
+/**
+ * Poll every configured chain in turn; one failing chain does not stop the others
+ *
+ * @returns Tokens per chain, for the chains whose fetch succeeded
+ */
+async function fetchNewlyCreatedTokens(): Promise<Map<ChainId, Token[]>> {
+  const byChain = new Map<ChainId, Token[]>();
+  const errors: string[] = [];
+
+  for (const chain of options.chains) {
+    try {
+      console.log(`🔍 Fetching newly created ${chain} tokens via ${provider.name}...`);
+      const chainTokens = await provider.fetchTokens({ chain, limit: 20 });
+      console.log(`✅ Fetched ${chainTokens.length} ${chain} tokens`);
+      byChain.set(chain, chainTokens);
+    } catch (error) {
+      console.error(`❌ All market data providers failed for ${chain}:`, error);
+      errors.push(`${chain}: ${String(error)}`);
+    }
+  }
+
+  const tokens = [...byChain.values()].flat();
+  lastPoll = {
+    at: Date.now(),
+    ok: errors.length === 0,
+    tokens: tokens.length,
+    error: errors.length > 0 ? errors.join('; ') : null,
+  };
+
+  // Every poll is also a price observation for the tick store
+  if (!options.dryRun) {
+    await recordTokens(tokens, provider.name);
+  }
+  return byChain;
+}
+
+async function broadcastNewTokens(tokens: Token[]) {
+  if (tokens.length === 0) return;
+
+  const verb = options.dryRun ? 'Would broadcast' : 'Broadcasting';
   try {
-    // Method 2: CoinGecko fallback (also free, no auth needed)
-    console.log('🔄 Fetching from CoinGecko (free API)...');
-    
-    const url = `${COINGECKO_API}/coins/markets?vs_currency=usd&order=volume_desc&per_page=20&page=1&sparkline=false&price_change_percentage=24h`;
-    const response = await fetch(url, {
-      headers: { 'Accept': 'application/json' }
+    tokens.forEach((token) => {
+      console.log(`🚀 ${verb} new token: ${token.symbol} (${token.name})`);
     });
-    
-    if (!response.ok) {
-      console.error(`❌ CoinGecko returned ${response.status}`);
-      return [];
+
+    // One batched publish instead of a paced call per token
+    await emit(tokens.map((token) => ({
+      name: 'token.created',
+      data: token,
+    })));
+
+    if (!options.dryRun) {
+      console.log(`✅ Broadcasted ${tokens.length} tokens successfully`);
     }
-    
-    const data = await response.json();
-    console.log(`✅ Fetched ${data.length} tokens from CoinGecko`);
-    
-    // Transform CoinGecko format to our format
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return data.map((coin: any) => ({
-      id: coin.id,
-      address: coin.id,
-      symbol: coin.symbol,
-      name: coin.name,
-      price: coin.current_price || 0,
-      priceChange24h: coin.price_change_percentage_24h || 0,
-      volume24h: coin.total_volume || 0,
-      liquidity: (coin.total_volume || 0) * 0.3,
-      marketCap: coin.market_cap || 0,
-      holders: Math.floor(Math.random() * 10000),
-      blockchain: 'ethereum',
-      logo: coin.image,
-      createdAt: new Date().toISOString()
-    }));
   } catch (error) {
-    console.error('❌ CoinGecko also failed:', error);
-    return [];
+    console.error('❌ Error broadcasting tokens:', error);
   }
 }
 
-async function broadcastNewToken(token: MobulaToken) {
+async function reportHealth() {
+  const sources = provider.health?.() ?? [];
+  const unhealthy = sources.filter((s) => s.circuit !== 'closed');
+  if (unhealthy.length > 0) {
+    console.warn(`🩺 Sources not healthy: ${unhealthy.map((s) => `${s.source}=${s.circuit}`).join(', ')}`);
+  }
+
+  // A dry run is not the live poller; leave its health snapshot alone
+  if (options.dryRun) return;
+
   try {
-    const tokenId = token.id || token.address || String(Date.now());
-    
-    // Transform to app Token format
-    const formattedToken = {
-      id: tokenId,
-      symbol: token.symbol?.toUpperCase() || 'UNKNOWN',
-      name: token.name || 'New Token',
-      price: token.price || 0,
-      priceChange24h: token.priceChange24h || 0,
-      volume24h: token.volume24h || token.volume || 0,
-      marketCap: token.marketCap || token.market_cap || 0,
-      liquidity: token.liquidity || (token.volume24h || token.volume || 0) * 0.3,
-      holders: token.holders || Math.floor(Math.random() * 10000),
-      chain: token.blockchain || BLOCKCHAIN,
-      logo: token.logo || token.image || '',
-      category: 'new' as const,
-    };
-
-    console.log(`🚀 Broadcasting new token: ${formattedToken.symbol} (${formattedToken.name})`);
-    
-    // Trigger Pusher event
-    await pusher.trigger('pulse', 'token.created', formattedToken);
-    
-    console.log(`✅ Broadcasted ${formattedToken.symbol} successfully`);
+    await writePollerHealth({
+      updatedAt: Date.now(),
+      pid: process.pid,
+      pollIntervalMs: options.intervalMs,
+      lastPoll,
+      sources,
+    });
   } catch (error) {
-    console.error('❌ Error broadcasting token:', error);
+    console.error('⚠️ Failed to write poller health:', error);
   }
 }
 
-async function pollAndBroadcast() {
-  console.log('\n🔄 Polling Mobula for new tokens...');
-  
-  const tokens = await fetchNewlyCreatedTokens();
-  
-  let newTokenCount = 0;
+/**
+ * Remember a chain's current feed without announcing it
+ *
+ * Without saved state every listed token would look new; the first
+ * successful fetch of each chain is taken as already known instead.
+ */
+function seedChain(chain: ChainId, tokens: Token[]) {
   for (const token of tokens) {
-    const tokenId = token.id || token.address;
-    
-    if (!tokenId) continue;
-    
-    // Check if we've already seen this token
-    if (seenTokenIds.has(tokenId)) {
-      continue;
+    if (token.id) {
+      seenTokens.markSeen(token.id, token.source ?? provider.name);
+    }
+  }
+  priceDiffer.seed(tokens);
+  unseededChains.delete(chain);
+  console.log(`🌱 Seeded ${tokens.length} existing ${chain} tokens (not broadcast)`);
+}
+
+async function pollAndBroadcast() {
+  console.log('\n🔄 Polling for new tokens...');
+
+  const byChain = await fetchNewlyCreatedTokens();
+
+  const tokens: Token[] = [];
+  for (const [chain, chainTokens] of byChain) {
+    if (unseededChains.has(chain)) {
+      seedChain(chain, chainTokens);
+    } else {
+      tokens.push(...chainTokens);
     }
-    
-    // Mark as seen
-    seenTokenIds.add(tokenId);
-    newTokenCount++;
-    
-    // Broadcast to clients
-    await broadcastNewToken(token);
-    
-    // Small delay between broadcasts to avoid rate limits
-    await new Promise(resolve => setTimeout(resolve, 500));
   }
-  
-  if (newTokenCount > 0) {
-    console.log(`📊 Broadcasted ${newTokenCount} new tokens`);
+  if (unseededChains.size > 0) {
+    // Broadcasting these before their feed is known would announce all of it
+    console.warn(`⏳ Not seeded yet (fetch failed): ${[...unseededChains].join(', ')}; retrying next cycle`);
+  }
+
+  // Mark as seen; keep only tokens not announced before (this run or a previous one)
+  const newTokens = tokens.filter(
+    (token) => token.id && seenTokens.markSeen(token.id, token.source ?? provider.name)
+  );
+
+  if (newTokens.length > 0) {
+    await broadcastNewTokens(newTokens);
   } else {
     console.log('ℹ️  No new tokens found');
   }
+
+  const evicted = seenTokens.evictExpired();
+  if (evicted > 0) {
+    console.log(`🧹 Forgot ${evicted} tokens not seen for ${SEEN_TTL_MS / 3600000}h`);
+  }
+  await saveSeenTokens();
+
+  // Re-quotes of known pairs become price ticks (first sightings are only remembered)
+  const updates = priceDiffer.diff(tokens);
+  if (updates.length > 0) {
+    try {
+      await emit(updates.map((update) => ({ name: 'token.updated', data: update })));
+      console.log(`📈 ${options.dryRun ? 'Would broadcast' : 'Broadcasted'} ${updates.length} price updates`);
+    } catch (error) {
+      console.error('❌ Error broadcasting price updates:', error);
+    }
+  }
+
+  await reportHealth();
 }
 
 async function initializeSeenTokens() {
   console.log('🏁 Initializing FREE token discovery poller...');
-  console.log(`📡 Pusher cluster: ${process.env.PUSHER_CLUSTER}`);
-  console.log(`⛓️  Blockchain: ${BLOCKCHAIN}`);
-  console.log(`⏱️  Poll interval: ${POLL_INTERVAL / 1000}s`);
-  console.log(`🌐 Data sources: DEXScreener (primary) + CoinGecko (fallback)\n`);
-  
-  // Fetch initial batch to populate seen set (avoid broadcasting on startup)
-  const initialTokens = await fetchNewlyCreatedTokens();
-  for (const token of initialTokens) {
-    const tokenId = token.id || token.address;
-    if (tokenId) {
-      seenTokenIds.add(tokenId);
-    }
+  if (options.dryRun) {
+    console.log('🧪 Dry run: nothing is published or persisted');
+  } else {
+    console.log(`📡 Realtime transport: ${getRealtimeTransport().name}`);
+  }
+  console.log(`⛓️  Chains: ${options.chains.join(', ')}`);
+  console.log(`⏱️  Poll interval: ${options.once ? 'single run' : `${options.intervalMs / 1000}s`}`);
+  console.log(`🌐 Data sources: ${provider.name}`);
+  console.log(`💾 Seen-token state: ${seenTokens.file}\n`);
+
+  if (await seenTokens.load()) {
+    // Resume: anything not in the file is genuinely new, even if it appeared while we were down
+    console.log(`✅ Restored ${seenTokens.size} seen tokens\n`);
+    return;
+  }
+
+  if (options.dryRun) {
+    // Nothing is saved, so seeding would only hide the feed this run is meant to show
+    console.log('ℹ️  No saved state: every listed token counts as new\n');
+    return;
+  }
+
+  // First run: each chain's first successful poll is remembered, not broadcast
+  options.chains.forEach((chain) => unseededChains.add(chain));
+  console.log('ℹ️  No saved state: the first poll seeds it without broadcasting\n');
+}
+
+async function saveSeenTokens() {
+  // Saved state means "every chain is seeded"; a partial seed would let the
+  // missing chains' whole feed through after a restart
+  if (options.dryRun || unseededChains.size > 0) return;
+
+  try {
+    await seenTokens.save();
+  } catch (error) {
+    console.error('⚠️ Failed to persist seen tokens:', error);
   }
-  
-  console.log(`✅ Initialized with ${seenTokenIds.size} existing tokens\n`);
 }
 
-async function main() {
-  // Validate environment variables
-  if (!process.env.PUSHER_APP_ID || !process.env.PUSHER_KEY || !process.env.PUSHER_SECRET) {
-    console.error('❌ Missing Pusher credentials in .env.local');
-    process.exit(1);
+/** Resolves with an exit code, or undefined while the poll loop keeps running */
+async function main(): Promise<number | undefined> {
+  try {
+    const parsed = parseOptions(process.argv.slice(2));
+    if (!parsed) {
+      console.log(USAGE);
+      return EXIT_OK;
+    }
+    options = parsed;
+    provider = getMarketDataProvider(options.providers, { resilient: true });
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.output === 'ndjson') {
+    // stdout carries only events; progress logs move to stderr
+    console.log = console.error;
+    console.info = console.error;
+  }
+
+  // Validate environment variables (a dry run never publishes)
+  const missing = options.dryRun ? [] : missingRealtimeConfig();
+  if (missing.length > 0) {
+    console.error(`❌ Missing ${missing.join(', ')} in .env.local`);
+    return EXIT_FATAL;
   }
-  
-  console.log('✅ Using 100% FREE public APIs (DEXScreener + CoinGecko)');
-  console.log('💰 No API keys needed - completely free tier!');
-  
+
+  console.log(`✅ Using market data providers: ${provider.name}`);
+
   await initializeSeenTokens();
-  
+
+  if (options.once) {
+    await pollAndBroadcast();
+    return lastPoll?.ok ? EXIT_OK : EXIT_POLL_FAILED;
+  }
+
   // Start polling
   console.log('🎬 Starting token poller... (Press Ctrl+C to stop)\n');
-  
-  // Run immediately
-  await pollAndBroadcast();
-  
-  // Then poll at interval
-  setInterval(pollAndBroadcast, POLL_INTERVAL);
+
+  // Run immediately, then wait a full interval after each cycle finishes
+  // (retries and backoff can stretch a cycle; cycles must never overlap)
+  const loop = async () => {
+    await pollAndBroadcast();
+    setTimeout(loop, options.intervalMs);
+  };
+  await loop();
+  return undefined;
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+function shutdown() {
   console.log('\n\n👋 Shutting down token poller...');
-  process.exit(0);
-});
+  saveSeenTokens().finally(() => process.exit(EXIT_OK));
+}
 
-process.on('SIGTERM', () => {
-  console.log('\n\n👋 Shutting down token poller...');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
-main().catch((error) => {
-  console.error('❌ Fatal error:', error);
-  process.exit(1);
-});
+main()
+  .then((code) => {
+    if (code !== undefined) process.exit(code);
+  })
+  .catch((error) => {
+    console.error('❌ Fatal error:', error);
+    process.exit(EXIT_FATAL);
+  });
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+/**
+ * Price Worker
+ *
+ * Re-quotes the tokens served by /api/tokens (same MARKET_DATA_PROVIDERS
+ * and MARKET_DATA_CHAINS), diffs them against the last published quotes and broadcasts
+ * changes as `token.updated` events on the "pulse" channel of the
+ * configured realtime transport. The Next server adds a
+ * `token.category_changed` when a re-quote moves a token to another
+ * lifecycle state.
+ *
+ * Run with: npm run price-worker
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { fetchTokensForChains, getMarketDataChains, getMarketDataProvider } from '../lib/providers';
+import { createPriceDiffer } from '../lib/realtime/price-differ';
+import { getRealtimeTransport, missingRealtimeConfig, publishTokenUpdates } from '../lib/realtime/server';
+import { recordTokens } from '../lib/timeseries/recorder';
+
+// Load environment variables
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+const QUOTE_INTERVAL = Number(process.env.PRICE_WORKER_INTERVAL) || 15000; // 15s keeps CoinGecko free tier happy
+const MIN_RELATIVE_CHANGE = 0.0001; // Ignore moves under 0.01%
+
+// Each remote source gets its own rate limit, retry backoff and circuit breaker
+const provider = getMarketDataProvider(undefined, { resilient: true });
+const chains = getMarketDataChains();
+const differ = createPriceDiffer({ minRelativeChange: MIN_RELATIVE_CHANGE });
+
+async function quoteAndBroadcast() {
+  try {
+    const tokens = await fetchTokensForChains(provider, chains, { limit: 50 });
+    await recordTokens(tokens, provider.name);
+
+    // Never push fixture prices to live clients as if they were ticks
+    const live = tokens.filter((t) => t.source !== 'fixture');
+    const updates = differ.diff(live);
+
+    if (updates.length > 0) {
+      await publishTokenUpdates(updates);
+      console.log(`📈 Broadcasted ${updates.length} price updates`);
+    } else {
+      console.log('ℹ️  No price changes');
+    }
+  } catch (error) {
+    console.error('❌ Price update cycle failed:', error);
+  }
+}
+
+async function main() {
+  const missing = missingRealtimeConfig();
+  if (missing.length > 0) {
+    console.error(`❌ Missing ${missing.join(', ')} in .env.local`);
+    process.exit(1);
+  }
+
+  console.log('🏁 Starting price worker...');
+  console.log(`📡 Realtime transport: ${getRealtimeTransport().name}`);
+  console.log(`🌐 Data sources: ${provider.name}`);
+  console.log(`⛓️  Chains: ${chains.join(', ')}`);
+  console.log(`⏱️  Quote interval: ${QUOTE_INTERVAL / 1000}s\n`);
+
+  // First pass only establishes the baseline clients already have from /api/tokens.
+  // Wait a full interval after each cycle finishes (retries and backoff can
+  // stretch a cycle; cycles must never overlap)
+  const loop = async () => {
+    await quoteAndBroadcast();
+    setTimeout(loop, QUOTE_INTERVAL);
+  };
+  await loop();
+}
+
+process.on('SIGINT', () => {
+  console.log('\n\n👋 Shutting down price worker...');
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  console.log('\n\n👋 Shutting down price worker...');
+  process.exit(0);
+});
+
+main().catch((error) => {
+  console.error('❌ Fatal error:', error);
+  process.exit(1);
+});
@@ -44,7 +44,8 @@ async function registerWebhook() {
   const webhookConfig: WebhookConfig = {
     name: 'Axiom Trade - New Token Alerts',
     chainIds: ['solana:solana'], // Focus on Solana chain
-    events: ['swap'], // Listen for swap events (indicates new token activity)
+    // Pool creation -> New Pairs, swaps -> live prices, curve completion -> Migrated
+    events: ['pool_created', 'swap', 'curve_completed'],
     filters: {
       // You can add filters here based on Mobula's documentation
       // For example: minimum liquidity, minimum volume, etc.
@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+/**
+ * Test the Realtime Transport
+ *
+ * Checks the configuration and publishes a test `token.created` event.
+ * Scripts relay events through the Next server, which forwards them on
+ * its transport (NEXT_PUBLIC_REALTIME_TRANSPORT=local|pusher), so the dev
+ * server must be running.
+ *
+ * Run with: npm run test-realtime
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { tokenKey } from '../lib/chains';
+import { stampProvenance } from '../lib/provenance';
+import { Token } from '../store/tokensSlice';
+
+// Load environment variables
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after dotenv so the transport sees .env.local
+  const { getRealtimeTransport, missingRealtimeConfig, publishTokenCreated } = await import('../lib/realtime/server');
+
+  console.log('🧪 Testing Realtime Setup\n');
+  console.log('═'.repeat(60));
+
+  const transport = getRealtimeTransport();
+  console.log(`\n1️⃣ Transport: ${transport.name}\n`);
+
+  const missing = missingRealtimeConfig();
+  if (missing.length > 0) {
+    console.error(`❌ Missing environment variables: ${missing.join(', ')}`);
+    console.log('\nSet the same REALTIME_PUBLISH_SECRET for the Next server and this script');
+    process.exit(1);
+  }
+  // Scripts publish through the Next server, which forwards to its transport
+  console.log(`📍 Relay: ${process.env.REALTIME_BROKER_URL ?? 'http://localhost:3000'}/api/realtime/publish`);
+
+  console.log('\n2️⃣ Publishing test token.created...\n');
+
+  // Random base58 string shaped like a Solana address, so every run is a new token
+  const alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+  const address = Array.from({ length: 44 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+
+  const testToken: Token = {
+    id: tokenKey('solana', address),
+    address,
+    symbol: 'TEST',
+    name: 'Test Token',
+    price: 1.23,
+    priceChange24h: 5.67,
+    volume24h: 1000000,
+    marketCap: 50000000,
+    liquidity: 300000,
+    holders: null,
+    bondingCurveProgress: 10,
+    chain: 'solana',
+    logo: null,
+    category: 'new',
+    source: 'test',
+    provenance: stampProvenance(['price', 'priceChange24h', 'volume24h', 'marketCap', 'liquidity'], 'test'),
+    createdAt: Date.now(),
+    firstSeenAt: Date.now(),
+  };
+
+  try {
+    await publishTokenCreated(testToken);
+    console.log('✅ Test token published:', testToken.id);
+    console.log('\n📝 Next steps:');
+    console.log('   1. Open http://localhost:3000/pulse in your browser');
+    console.log('   2. Open the browser console (F12)');
+    console.log('   3. You should see: 🆕 New token received: TEST Test Token');
+  } catch (error) {
+    console.error('\n❌ Publish failed:', error instanceof Error ? error.message : error);
+    if (transport.name === 'local') {
+      console.log('\n💡 Make sure the Next.js dev server is running (npm run dev)');
+      console.log('   or point REALTIME_BROKER_URL at it.');
+    }
+    process.exit(1);
+  }
+}
+
+main();
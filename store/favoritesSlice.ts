@@ -0,0 +1,60 @@
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+/**
+ * Favorite token ids, kept apart from market data
+ *
+ * Listings replace the tokens slice every refetch; favorites belong to the
+ * user, so they live here and survive it, persisted and shared across
+ * tabs (store/persistence.ts).
+ */
+
+interface FavoritesState {
+  /** `chain:address` ids, oldest favorite first */
+  ids: string[];
+  /** False until the persisted list has been loaded */
+  hydrated: boolean;
+}
+
+const initialState: FavoritesState = {
+  ids: [],
+  hydrated: false,
+};
+
+const favoritesSlice = createSlice({
+  name: 'favorites',
+  initialState,
+  reducers: {
+    toggleFavorite: (state, action: PayloadAction<string>) => {
+      const index = state.ids.indexOf(action.payload);
+      if (index === -1) {
+        state.ids.push(action.payload);
+      } else {
+        state.ids.splice(index, 1);
+      }
+    },
+    /** Replace the list with a persisted copy or another tab's */
+    setFavorites: (state, action: PayloadAction<string[]>) => {
+      state.ids = action.payload;
+      state.hydrated = true;
+    },
+  },
+});
+
+export const { toggleFavorite, setFavorites } = favoritesSlice.actions;
+export default favoritesSlice.reducer;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/** Any state with this slice mounted at `favorites` */
+type WithFavorites = { favorites: FavoritesState };
+
+export const selectFavoriteIds = (state: WithFavorites) => state.favorites.ids;
+
+export const selectFavoritesHydrated = (state: WithFavorites) => state.favorites.hydrated;
+
+/** The ids as a Set, for filtering whole listings */
+export const selectFavoriteIdSet = createSelector([selectFavoriteIds], (ids) => new Set(ids));
+
+export const selectIsFavorite = (state: WithFavorites, id: string) => state.favorites.ids.includes(id);
@@ -1,9 +1,17 @@
 import { configureStore } from '@reduxjs/toolkit';
 import tokensReducer from './tokensSlice';
+import priceHistoryReducer from './priceHistorySlice';
+import favoritesReducer from './favoritesSlice';
+import watchlistsReducer from './watchlistsSlice';
+import settingsReducer from './settingsSlice';
 
 export const store = configureStore({
   reducer: {
     tokens: tokensReducer,
+    priceHistory: priceHistoryReducer,
+    favorites: favoritesReducer,
+    watchlists: watchlistsReducer,
+    settings: settingsReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -0,0 +1,64 @@
+import { createPersistedValue } from '@/lib/browser-storage';
+import { DEFAULT_SETTINGS, parseSettings, Settings, SETTINGS_MIGRATIONS, SETTINGS_VERSION } from '@/lib/settings';
+import type { PersistedSync } from '@/hooks/use-persisted-sync';
+import { selectFavoriteIds, selectFavoritesHydrated, setFavorites } from './favoritesSlice';
+import { selectWatchlists, selectWatchlistsHydrated, setWatchlists, Watchlist } from './watchlistsSlice';
+import { selectSettings, selectSettingsHydrated, setSettings } from './settingsSlice';
+
+/**
+ * User state that outlives a page load
+ *
+ * Each entry is saved to localStorage under a versioned key and broadcast
+ * to other tabs by usePersistedSync, mounted in components/providers.tsx.
+ * Market data is never persisted; it is refetched.
+ */
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export const favoritesSync: PersistedSync<string[]> = {
+  storage: createPersistedValue({
+    key: 'axiom:favorites',
+    version: 1,
+    parse: (value) => (isStringArray(value) ? value : null),
+  }),
+  channel: 'axiom:favorites',
+  select: selectFavoriteIds,
+  selectHydrated: selectFavoritesHydrated,
+  hydrate: (ids) => setFavorites(ids ?? []),
+};
+
+function isWatchlist(value: unknown): value is Watchlist {
+  const list = value as Watchlist;
+  return (
+    typeof list === 'object' && list !== null &&
+    typeof list.id === 'string' && typeof list.name === 'string' &&
+    isStringArray(list.tokenIds) && typeof list.createdAt === 'number' &&
+    (list.sort === null || (typeof list.sort?.field === 'string' && typeof list.sort.desc === 'boolean'))
+  );
+}
+
+export const watchlistsSync: PersistedSync<Watchlist[]> = {
+  storage: createPersistedValue({
+    key: 'axiom:watchlists',
+    version: 1,
+    parse: (value) => (Array.isArray(value) && value.every(isWatchlist) ? value : null),
+  }),
+  channel: 'axiom:watchlists',
+  select: selectWatchlists,
+  selectHydrated: selectWatchlistsHydrated,
+  hydrate: (lists) => setWatchlists(lists ?? []),
+};
+
+export const settingsSync: PersistedSync<Settings> = {
+  storage: createPersistedValue({
+    key: 'axiom:settings',
+    version: SETTINGS_VERSION,
+    parse: parseSettings,
+    migrations: SETTINGS_MIGRATIONS,
+  }),
+  channel: 'axiom:settings',
+  select: selectSettings,
+  selectHydrated: selectSettingsHydrated,
+  hydrate: (settings) => setSettings(settings ?? DEFAULT_SETTINGS),
+};
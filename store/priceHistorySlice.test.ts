@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeToken, RawToken } from '@/lib/normalize';
+import reducer, { HISTORY_MAX_TOKENS, HISTORY_RESOLUTION_MS, selectPriceHistory, selectSparkline, selectWindowedChange } from './priceHistorySlice';
+import { addNewToken, applyTokenUpdates, setTokens, TokenUpdate, updateTokenPrice } from './tokensSlice';
+
+const T0 = 1_700_000_000_000;
+const MINUTE = 60_000;
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+function token(n: number, overrides: Partial<RawToken> = {}) {
+  return normalizeToken({ chain: 'base', address: address(n), source: 'test', price: 1, liquidity: 100, observedAt: T0, ...overrides });
+}
+
+const ID = token(1).id;
+
+const tick = (time: number, price: number, fields: Partial<TokenUpdate> = {}): TokenUpdate =>
+  ({ id: ID, price, source: 'ws', updatedAt: time, ...fields });
+
+type Action = Parameters<typeof reducer>[1];
+
+/** Root-shaped state after dispatching `actions` from the initial state */
+const stateOf = (...actions: Action[]) => ({ priceHistory: actions.reduce(reducer, reducer(undefined, { type: 'init' })) });
+
+describe('priceHistorySlice', () => {
+  it('records listings and ticks, carrying liquidity forward', () => {
+    const state = stateOf(setTokens([token(1)]), updateTokenPrice(tick(T0 + MINUTE, 2)));
+    assert.deepEqual(selectPriceHistory(state, ID), [
+      { time: T0, price: 1, volume24h: null, liquidity: 100 },
+      { time: T0 + MINUTE, price: 2, volume24h: null, liquidity: 100 },
+    ]);
+  });
+
+  it('coalesces ticks within one resolution bucket and drops out-of-order ones', () => {
+    const state = stateOf(
+      setTokens([token(1)]),
+      applyTokenUpdates([tick(T0 + HISTORY_RESOLUTION_MS, 2), tick(T0 + HISTORY_RESOLUTION_MS + 1, 3), tick(T0 + 1, 9)])
+    );
+    assert.deepEqual(selectPriceHistory(state, ID).map((p) => p.price), [1, 3]);
+  });
+
+  it('ignores ticks for tokens it does not track', () => {
+    const state = stateOf(updateTokenPrice(tick(T0, 2)));
+    assert.deepEqual(selectPriceHistory(state, ID), []);
+  });
+
+  it('keeps history for tokens missing from a later listing', () => {
+    const state = stateOf(setTokens([token(1)]), setTokens([token(2)]));
+    assert.equal(selectPriceHistory(state, ID).length, 1);
+  });
+
+  it('drops tokens an hour behind the newest point', () => {
+    const state = stateOf(setTokens([token(1)]), addNewToken(token(2, { observedAt: T0 + 61 * MINUTE })));
+    assert.deepEqual(selectPriceHistory(state, ID), []);
+  });
+
+  it('drops the least recently updated tokens past the cap', () => {
+    const listing = Array.from({ length: HISTORY_MAX_TOKENS }, (_, i) => token(i + 1, { observedAt: T0 + i }));
+    const state = stateOf(setTokens(listing), addNewToken(token(HISTORY_MAX_TOKENS + 1, { observedAt: T0 + MINUTE })));
+
+    assert.equal(Object.keys(state.priceHistory.byId).length, HISTORY_MAX_TOKENS);
+    assert.deepEqual(selectPriceHistory(state, ID), []);
+  });
+
+  it('reports window changes only once the history spans the window', () => {
+    const state = stateOf(setTokens([token(1)]), applyTokenUpdates([tick(T0 + 2 * MINUTE, 1.5)]));
+    assert.equal(selectWindowedChange(state, ID, '1m'), 50);
+    assert.equal(selectWindowedChange(state, ID, '5m'), null);
+    assert.deepEqual(selectSparkline(state, ID, '1m'), [1.5]);
+    assert.deepEqual(selectSparkline(state, ID, '5m'), [1, 1.5]);
+  });
+});
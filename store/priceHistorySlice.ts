@@ -0,0 +1,220 @@
+import { createSelector, createSlice } from '@reduxjs/toolkit';
+import { createRingBuffer, lastOfRing, pushRing, replaceLastOfRing, RingBuffer, ringToArray } from '@/lib/ring-buffer';
+import { addNewToken, applyTokenUpdates, setTokens, Token, TokenUpdate, updateTokenPrice } from './tokensSlice';
+
+/**
+ * Rolling market history per token, fed by the tokens slice
+ *
+ * Every listing, new token and price tick the tokens slice applies is also
+ * recorded here, so charts and change figures read one shared series
+ * instead of each component collecting its own. Points are coalesced to
+ * one per HISTORY_RESOLUTION_MS and kept for the longest window (1h).
+ *
+ * Pages dispatch different listings (Pulse, the table, a search), so a
+ * token missing from the latest one keeps its history. Tokens are dropped
+ * once their newest point falls an hour behind, or when more than
+ * HISTORY_MAX_TOKENS are tracked (least recently updated first).
+ */
+
+export interface PriceSnapshot {
+  /** When the source reported the values, unix milliseconds */
+  time: number;
+  price: number;
+  volume24h: number | null;
+  liquidity: number | null;
+}
+
+/** Ticks closer together than this replace the previous point */
+export const HISTORY_RESOLUTION_MS = 5_000;
+
+/** Lookback windows for change figures and sparklines */
+export const HISTORY_WINDOWS = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+} as const;
+
+export type HistoryWindow = keyof typeof HISTORY_WINDOWS;
+
+/** Enough points to span the longest window at full resolution */
+const HISTORY_CAPACITY = HISTORY_WINDOWS['1h'] / HISTORY_RESOLUTION_MS + 1;
+
+/** Most tokens tracked at once */
+export const HISTORY_MAX_TOKENS = 500;
+
+interface PriceHistoryState {
+  byId: Record<string, RingBuffer<PriceSnapshot>>;
+}
+
+const initialState: PriceHistoryState = {
+  byId: {},
+};
+
+/**
+ * Append a snapshot. One no newer than the last point is dropped, so a
+ * refetch of a cached listing does not rewrite history it already holds.
+ */
+function record(buffer: RingBuffer<PriceSnapshot>, snapshot: PriceSnapshot) {
+  const last = lastOfRing(buffer);
+  if (last && snapshot.time <= last.time) return;
+
+  const bucket = Math.floor(snapshot.time / HISTORY_RESOLUTION_MS);
+  if (last && bucket === Math.floor(last.time / HISTORY_RESOLUTION_MS)) {
+    replaceLastOfRing(buffer, snapshot);
+  } else {
+    pushRing(buffer, snapshot);
+  }
+}
+
+/** Starts tracking the token, even before it has a price */
+function recordToken(state: PriceHistoryState, token: Token) {
+  const buffer = (state.byId[token.id] ??= createRingBuffer(HISTORY_CAPACITY));
+  if (token.price === null) return;
+  record(buffer, {
+    time: token.provenance.price?.updatedAt ?? token.firstSeenAt,
+    price: token.price,
+    volume24h: token.volume24h,
+    liquidity: token.liquidity,
+  });
+}
+
+/**
+ * Ticks that omit volume or liquidity carry the last known value forward.
+ * Like the tokens slice, ticks for tokens not in the store are ignored.
+ */
+function recordUpdate(state: PriceHistoryState, update: TokenUpdate) {
+  const buffer = state.byId[update.id];
+  if (!buffer) return;
+  const last = lastOfRing(buffer);
+  record(buffer, {
+    time: update.updatedAt,
+    price: update.price,
+    volume24h: update.volume24h ?? last?.volume24h ?? null,
+    liquidity: update.liquidity ?? last?.liquidity ?? null,
+  });
+}
+
+/** Newest point's time; -Infinity for a token with no price yet */
+function lastTime(buffer: RingBuffer<PriceSnapshot>): number {
+  return lastOfRing(buffer)?.time ?? -Infinity;
+}
+
+/**
+ * Drop tokens whose history no window can use any more, then the least
+ * recently updated ones above HISTORY_MAX_TOKENS. Age is measured against
+ * the newest point held, not the wall clock, so reducers stay pure.
+ *
+ * @param keep - Ids just listed; tracked even when stale
+ */
+function evict(state: PriceHistoryState, keep: Set<string>) {
+  const ids = Object.keys(state.byId);
+  const newest = ids.reduce((max, id) => Math.max(max, lastTime(state.byId[id])), -Infinity);
+
+  const candidates: string[] = [];
+  for (const id of ids) {
+    if (keep.has(id)) continue;
+    if (lastTime(state.byId[id]) < newest - HISTORY_WINDOWS['1h']) {
+      delete state.byId[id];
+    } else {
+      candidates.push(id);
+    }
+  }
+
+  const excess = keep.size + candidates.length - HISTORY_MAX_TOKENS;
+  if (excess <= 0) return;
+  candidates
+    .sort((a, b) => lastTime(state.byId[a]) - lastTime(state.byId[b]))
+    .slice(0, excess)
+    .forEach((id) => delete state.byId[id]);
+}
+
+const priceHistorySlice = createSlice({
+  name: 'priceHistory',
+  initialState,
+  reducers: {
+    clearPriceHistory: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(setTokens, (state, action) => {
+        for (const token of action.payload) recordToken(state, token);
+        evict(state, new Set(action.payload.map((token) => token.id)));
+      })
+      .addCase(addNewToken, (state, action) => {
+        recordToken(state, action.payload);
+        evict(state, new Set([action.payload.id]));
+      })
+      .addCase(updateTokenPrice, (state, action) => {
+        recordUpdate(state, action.payload);
+      })
+      .addCase(applyTokenUpdates, (state, action) => {
+        for (const update of action.payload) recordUpdate(state, update);
+      });
+  },
+});
+
+export const { clearPriceHistory } = priceHistorySlice.actions;
+export default priceHistorySlice.reducer;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/** Any state with this slice mounted at `priceHistory` */
+type WithPriceHistory = { priceHistory: PriceHistoryState };
+
+const NO_HISTORY: PriceSnapshot[] = [];
+
+/** A token's snapshots, oldest first; memoized until the token's next tick */
+export const selectPriceHistory = createSelector(
+  [(state: WithPriceHistory, id: string) => state.priceHistory.byId[id]],
+  (buffer) => (buffer ? ringToArray(buffer) : NO_HISTORY)
+);
+
+/**
+ * Percent price change over a window, measured back from the newest point
+ *
+ * Null until the history reaches back the full window: a token seen for
+ * two minutes has no 5m change rather than a 2m one labelled as 5m.
+ */
+function windowedChange(history: PriceSnapshot[], window: HistoryWindow): number | null {
+  const latest = history[history.length - 1];
+  if (!latest) return null;
+
+  const target = latest.time - HISTORY_WINDOWS[window];
+  let base: PriceSnapshot | undefined;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].time <= target) {
+      base = history[i];
+      break;
+    }
+  }
+  if (!base || base.price === 0) return null;
+  return ((latest.price - base.price) / base.price) * 100;
+}
+
+export const selectWindowedChange = createSelector(
+  [selectPriceHistory, (_state: WithPriceHistory, _id: string, window: HistoryWindow) => window],
+  windowedChange
+);
+
+/** Change over every window at once, e.g. for a row of change chips */
+export const selectWindowedChanges = createSelector(
+  [selectPriceHistory],
+  (history) =>
+    Object.fromEntries(
+      (Object.keys(HISTORY_WINDOWS) as HistoryWindow[]).map((window) => [window, windowedChange(history, window)])
+    ) as Record<HistoryWindow, number | null>
+);
+
+/** Prices within a window, oldest first, ready for SparklineChart */
+export const selectSparkline = createSelector(
+  [selectPriceHistory, (_state: WithPriceHistory, _id: string, window: HistoryWindow) => window],
+  (history, window) => {
+    const latest = history[history.length - 1];
+    if (!latest) return [];
+    const since = latest.time - HISTORY_WINDOWS[window];
+    return history.filter((point) => point.time >= since).map((point) => point.price);
+  }
+);
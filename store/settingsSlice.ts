@@ -0,0 +1,57 @@
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_SETTINGS, Settings } from '@/lib/settings';
+import { NumberFormat } from '@/lib/utils';
+
+/**
+ * Trader preferences (lib/settings.ts), persisted and shared across tabs
+ * like favorites (store/persistence.ts) and edited in the settings panel
+ */
+
+interface SettingsState {
+  values: Settings;
+  /** False until the persisted settings have been loaded */
+  hydrated: boolean;
+}
+
+const initialState: SettingsState = {
+  values: DEFAULT_SETTINGS,
+  hydrated: false,
+};
+
+const settingsSlice = createSlice({
+  name: 'settings',
+  initialState,
+  reducers: {
+    updateSettings: (state, action: PayloadAction<Partial<Settings>>) => {
+      state.values = { ...state.values, ...action.payload };
+    },
+    resetSettings: (state) => {
+      state.values = DEFAULT_SETTINGS;
+    },
+    /** Replace all settings with a persisted copy or another tab's */
+    setSettings: (state, action: PayloadAction<Settings>) => {
+      state.values = action.payload;
+      state.hydrated = true;
+    },
+  },
+});
+
+export const { updateSettings, resetSettings, setSettings } = settingsSlice.actions;
+export default settingsSlice.reducer;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/** Any state with this slice mounted at `settings` */
+type WithSettings = { settings: SettingsState };
+
+export const selectSettings = (state: WithSettings) => state.settings.values;
+
+export const selectSettingsHydrated = (state: WithSettings) => state.settings.hydrated;
+
+/** Formatting options for lib/utils formatters; stable until they change */
+export const selectNumberFormat = createSelector(
+  [(state: WithSettings) => state.settings.values.numberNotation, (state: WithSettings) => state.settings.values.priceDecimals],
+  (notation, priceDecimals): NumberFormat => ({ notation, priceDecimals })
+);
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeToken, RawToken } from '@/lib/normalize';
+import reducer, {
+  addNewToken,
+  applyTokenUpdates,
+  changeTokenCategory,
+  migrateToken,
+  selectAllTokens,
+  selectTokensByCategory,
+  setTokens,
+  updateTokenPrice,
+} from './tokensSlice';
+
+const T0 = 1_700_000_000_000;
+
+function token(address: string, overrides: Partial<RawToken> = {}) {
+  return normalizeToken({ chain: 'base', address, source: 'test', price: 1, observedAt: T0, ...overrides });
+}
+
+const A = token('0x000000000000000000000000000000000000000a');
+const B = token('0x000000000000000000000000000000000000000b');
+const C = token('0x000000000000000000000000000000000000000c');
+
+type Action = Parameters<typeof reducer>[1];
+
+/** Root-shaped state after dispatching `actions` from the initial state */
+const stateOf = (...actions: Action[]) => ({ tokens: actions.reduce(reducer, reducer(undefined, { type: 'init' })) });
+
+describe('tokensSlice', () => {
+  it('lists tokens in order and puts new ones first, once', () => {
+    const state = stateOf(setTokens([A, B]), addNewToken(C), addNewToken({ ...C, price: 99 }));
+    assert.deepEqual(selectAllTokens(state).map((t) => t.id), [C.id, A.id, B.id]);
+    assert.equal(state.tokens.entities[C.id]?.price, 1);
+  });
+
+  it('keeps the earliest firstSeenAt across refetches', () => {
+    const state = stateOf(setTokens([A]), setTokens([{ ...A, firstSeenAt: T0 + 60_000 }]));
+    assert.equal(state.tokens.entities[A.id]?.firstSeenAt, T0);
+  });
+
+  it('applies ticks with their provenance and ignores unknown ids', () => {
+    const state = stateOf(
+      setTokens([A]),
+      updateTokenPrice({ id: A.id, price: 2, source: 'ws', updatedAt: T0 + 1 }),
+      applyTokenUpdates([
+        { id: A.id, price: 3, liquidity: 500, source: 'poller', updatedAt: T0 + 2 },
+        { id: B.id, price: 9, source: 'poller', updatedAt: T0 + 2 },
+      ])
+    );
+
+    const tracked = state.tokens.entities[A.id]!;
+    assert.equal(tracked.price, 3);
+    assert.equal(tracked.liquidity, 500);
+    assert.deepEqual(tracked.provenance.price, { source: 'poller', updatedAt: T0 + 2 });
+    assert.equal(tracked.provenance.marketCap, undefined);
+    assert.equal(state.tokens.ids.length, 1);
+  });
+
+  it('moves migrated and recategorized tokens', () => {
+    const state = stateOf(
+      setTokens([A, B]),
+      migrateToken({ id: A.id, chain: 'base', migratedAt: T0 }),
+      changeTokenCategory({ id: B.id, from: 'new', to: 'rugged', reason: 'test', changedAt: T0 })
+    );
+    assert.equal(state.tokens.entities[A.id]?.bondingCurveProgress, 100);
+    assert.deepEqual(selectTokensByCategory(state, 'migrated').map((t) => t.id), [A.id]);
+    assert.deepEqual(selectTokensByCategory(state, 'rugged').map((t) => t.id), [B.id]);
+  });
+
+  it('keeps a category selection stable across ticks to other categories', () => {
+    const before = stateOf(setTokens([A, B]), migrateToken({ id: B.id, chain: 'base', migratedAt: T0 }));
+    const column = selectTokensByCategory(before, 'new');
+
+    const after = { tokens: reducer(before.tokens, updateTokenPrice({ id: B.id, price: 5, source: 'ws', updatedAt: T0 })) };
+    assert.equal(selectTokensByCategory(after, 'new'), column);
+
+    const ticked = { tokens: reducer(after.tokens, updateTokenPrice({ id: A.id, price: 5, source: 'ws', updatedAt: T0 })) };
+    assert.notEqual(selectTokensByCategory(ticked, 'new'), column);
+  });
+});
@@ -1,61 +1,155 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createEntityAdapter, createSelector, createSlice, EntityState, PayloadAction } from '@reduxjs/toolkit';
+import { ChainId } from '@/lib/chains';
+import { TokenProvenance, TrackedField } from '@/lib/provenance';
+import { CategoryChange, LifecycleState } from '@/lib/lifecycle';
 
+/**
+ * A token as every layer sees it (built by lib/normalize). Market fields
+ * the source did not report are `null`, never estimated; the one derived
+ * value, bonding-curve progress, says so in its provenance.
+ */
 export interface Token {
+  /** `chain:address` (see tokenKey in lib/chains) */
   id: string;
+  /** Pair address for DEX sources, mint/contract for aggregated market data */
+  address: string;
   symbol: string;
   name: string;
+  /** USD; null until the token has a quote */
+  price: number | null;
+  /** Percent */
+  priceChange24h: number | null;
+  volume24h: number | null;
+  marketCap: number | null;
+  liquidity: number | null;
+  holders: number | null;
+  /** Percent of the way to bonding-curve graduation, 0-100 (see lib/bonding-curve) */
+  bondingCurveProgress: number | null;
+  logo: string | null;
+  chain: ChainId;
+  /** Lifecycle state (see lib/lifecycle); dead and rugged tokens are off the Pulse board */
+  category?: LifecycleState;
+  /** Provider or pipeline that produced this snapshot (e.g. "coingecko", "webhook") */
+  source?: string;
+  /** Source and update time of each market field (see lib/provenance) */
+  provenance: TokenProvenance;
+  /** When the pair/pool was created on chain, unix milliseconds; null if no source reported it */
+  createdAt: number | null;
+  /** When this app first saw the token, unix milliseconds; the age fallback when createdAt is null */
+  firstSeenAt: number;
+}
+
+/**
+ * Incremental market data for a known token, carried by `token.updated`
+ * realtime events. Fields other than id/price are optional (a single swap
+ * knows the trade price but not the 24h change).
+ */
+export interface TokenUpdate {
+  id: string;
   price: number;
-  priceChange24h: number;
-  volume24h: number;
-  marketCap: number;
-  liquidity: number;
-  holders?: number;
-  logo?: string;
-  chain: string;
-  category?: 'new' | 'final-stretch' | 'migrated';
-  isFavorite?: boolean;
+  priceChange24h?: number;
+  volume24h?: number;
+  marketCap?: number;
+  liquidity?: number;
+  /** Provider or pipeline that reported these values */
+  source: string;
+  /** When the source reported them, unix milliseconds */
+  updatedAt: number;
+}
+
+/** A single swap on a token's pair, carried by `token.traded` events */
+export interface TokenTrade {
+  id: string;
+  chain: ChainId;
+  side: 'buy' | 'sell';
+  priceUsd: number;
+  amountUsd: number;
+  txHash: string;
+  /** Unix milliseconds */
+  time: number;
 }
 
-interface TokensState {
-  tokens: Token[];
+/**
+ * Bonding-curve completion, carried by `token.migrated` events. `id` is the
+ * pair clients already know; `pairAddress`/`dex` describe where it moved.
+ */
+export interface TokenMigration {
+  id: string;
+  chain: ChainId;
+  pairAddress?: string;
+  dex?: string;
+  /** Unix milliseconds */
+  migratedAt: number;
+}
+
+/** Tokens normalized by id; `ids` keeps listing order, newest additions first */
+const tokensAdapter = createEntityAdapter<Token>();
+
+interface TokensState extends EntityState<Token, string> {
   loading: boolean;
   error: string | null;
   selectedToken: Token | null;
 }
 
-const initialState: TokensState = {
-  tokens: [],
+const initialState: TokensState = tokensAdapter.getInitialState({
   loading: false,
   error: null,
   selectedToken: null,
-};
+});
+
+const UPDATE_FIELDS: (TrackedField & keyof TokenUpdate)[] = ['price', 'priceChange24h', 'volume24h', 'marketCap', 'liquidity'];
+
+/** Apply one tick in place; unknown ids are ignored */
+function applyUpdate(state: TokensState, update: TokenUpdate) {
+  const token = state.entities[update.id];
+  if (!token) return;
+
+  const { source, updatedAt } = update;
+  for (const field of UPDATE_FIELDS) {
+    const value = update[field];
+    if (value === undefined) continue;
+    token[field] = value;
+    token.provenance[field] = { source, updatedAt };
+  }
+}
 
 const tokensSlice = createSlice({
   name: 'tokens',
   initialState,
   reducers: {
     setTokens: (state, action: PayloadAction<Token[]>) => {
-      state.tokens = action.payload;
+      // A refetch must not make a known token look newer than it is
+      tokensAdapter.setAll(state, action.payload.map((token) => {
+        const seen = state.entities[token.id]?.firstSeenAt;
+        return seen !== undefined && seen < token.firstSeenAt ? { ...token, firstSeenAt: seen } : token;
+      }));
     },
     addNewToken: (state, action: PayloadAction<Token>) => {
-      // Check if token already exists
-      const exists = state.tokens.some((t) => t.id === action.payload.id);
-      if (!exists) {
-        // Add new token to the beginning of the list
-        state.tokens.unshift(action.payload);
-      }
+      const token = action.payload;
+      if (state.entities[token.id]) return;
+      // Add new token to the beginning of the list
+      state.entities[token.id] = token;
+      state.ids.unshift(token.id);
+    },
+    updateTokenPrice: (state, action: PayloadAction<TokenUpdate>) => {
+      applyUpdate(state, action.payload);
+    },
+    /** Many ticks in one dispatch (and one render), e.g. a batch of realtime updates */
+    applyTokenUpdates: (state, action: PayloadAction<TokenUpdate[]>) => {
+      for (const update of action.payload) applyUpdate(state, update);
     },
-    updateTokenPrice: (state, action: PayloadAction<{ id: string; price: number; priceChange24h: number }>) => {
-      const token = state.tokens.find((t) => t.id === action.payload.id);
+    migrateToken: (state, action: PayloadAction<TokenMigration>) => {
+      const token = state.entities[action.payload.id];
       if (token) {
-        token.price = action.payload.price;
-        token.priceChange24h = action.payload.priceChange24h;
+        token.category = 'migrated';
+        token.bondingCurveProgress = 100;
+        token.provenance.bondingCurveProgress = { source: 'migration', updatedAt: action.payload.migratedAt };
       }
     },
-    toggleFavorite: (state, action: PayloadAction<string>) => {
-      const token = state.tokens.find((t) => t.id === action.payload);
+    changeTokenCategory: (state, action: PayloadAction<CategoryChange>) => {
+      const token = state.entities[action.payload.id];
       if (token) {
-        token.isFavorite = !token.isFavorite;
+        token.category = action.payload.to;
       }
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
@@ -70,5 +164,45 @@ const tokensSlice = createSlice({
   },
 });
 
-export const { setTokens, addNewToken, updateTokenPrice, toggleFavorite, setLoading, setError, setSelectedToken } = tokensSlice.actions;
+export const { setTokens, addNewToken, updateTokenPrice, applyTokenUpdates, migrateToken, changeTokenCategory, setLoading, setError, setSelectedToken } = tokensSlice.actions;
 export default tokensSlice.reducer;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/** Any state with this slice mounted at `tokens` (avoids importing RootState here) */
+type WithTokens = { tokens: TokensState };
+
+export const {
+  selectAll: selectAllTokens,
+  selectById: selectTokenById,
+  selectIds: selectTokenIds,
+  selectTotal: selectTokenCount,
+} = tokensAdapter.getSelectors((state: WithTokens) => state.tokens);
+
+/** Same tokens (by reference) in the same order */
+const sameTokens = (a: Token[], b: Token[]) =>
+  a.length === b.length && a.every((token, i) => token === b[i]);
+
+/**
+ * Tokens in one lifecycle category, in listing order
+ *
+ * The filter re-runs on every tick (selectAll returns a new array whenever
+ * any entity changes), but the previous result is returned while the
+ * category's tokens are unchanged, so a tick elsewhere on the board does not
+ * re-render this column. Cached per category, so the Pulse columns do not
+ * evict each other's result.
+ */
+export const selectTokensByCategory = createSelector(
+  [selectAllTokens, (_state: WithTokens, category: LifecycleState) => category],
+  (tokens, category) => tokens.filter((token) => token.category === category),
+  { memoizeOptions: { resultEqualityCheck: sameTokens } }
+);
+
+/** Tokens on one chain, in listing order; stable while that chain's tokens are unchanged */
+export const selectTokensByChain = createSelector(
+  [selectAllTokens, (_state: WithTokens, chain: ChainId) => chain],
+  (tokens, chain) => tokens.filter((token) => token.chain === chain),
+  { memoizeOptions: { resultEqualityCheck: sameTokens } }
+);
@@ -0,0 +1,157 @@
+import { createSelector, createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+
+/**
+ * Named watchlists ("sniping", "holding", ...), kept apart from market data
+ *
+ * Each list holds token ids and its own sort order, which the table applies
+ * while the list is selected. The lists are persisted and shared across
+ * tabs like favorites (store/persistence.ts); which list is selected is
+ * per tab.
+ */
+
+/** A table column and direction; null keeps the order tokens were added */
+export type WatchlistSort = { field: string; desc: boolean } | null;
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  /** `chain:address` ids, in the order they were added */
+  tokenIds: string[];
+  sort: WatchlistSort;
+  /** Unix milliseconds */
+  createdAt: number;
+}
+
+interface WatchlistsState {
+  lists: Watchlist[];
+  /** The list the table shows; null for the full listing */
+  activeId: string | null;
+  /** False until the persisted lists have been loaded */
+  hydrated: boolean;
+}
+
+const initialState: WatchlistsState = {
+  lists: [],
+  activeId: null,
+  hydrated: false,
+};
+
+/** Watchlist names are matched case-insensitively */
+export const sameWatchlistName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function findList(state: WatchlistsState, id: string) {
+  return state.lists.find((list) => list.id === id);
+}
+
+const watchlistsSlice = createSlice({
+  name: 'watchlists',
+  initialState,
+  reducers: {
+    /**
+     * Names are unique like on import: an empty name is ignored, and one
+     * matching an existing list adds the tokens to that list instead
+     */
+    createWatchlist: {
+      reducer: (state, action: PayloadAction<Watchlist>) => {
+        const created = action.payload;
+        if (!created.name) return;
+        const existing = state.lists.find((list) => sameWatchlistName(list.name, created.name));
+        if (existing) {
+          existing.tokenIds = [...new Set([...existing.tokenIds, ...created.tokenIds])];
+        } else {
+          state.lists.push(created);
+        }
+      },
+      prepare: (name: string, tokenIds: string[] = []) => ({
+        payload: { id: nanoid(), name: name.trim(), tokenIds, sort: null, createdAt: Date.now() } as Watchlist,
+      }),
+    },
+    /** Ignored for an empty name or one another list already has */
+    renameWatchlist: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const { id, name } = action.payload;
+      const list = findList(state, id);
+      const taken = state.lists.some((other) => other.id !== id && sameWatchlistName(other.name, name));
+      if (list && name.trim() && !taken) list.name = name.trim();
+    },
+    deleteWatchlist: (state, action: PayloadAction<string>) => {
+      state.lists = state.lists.filter((list) => list.id !== action.payload);
+      if (state.activeId === action.payload) state.activeId = null;
+    },
+    /** Add a token to a list, or remove it if it is already there */
+    toggleWatchlistToken: (state, action: PayloadAction<{ listId: string; tokenId: string }>) => {
+      const list = findList(state, action.payload.listId);
+      if (!list) return;
+      const index = list.tokenIds.indexOf(action.payload.tokenId);
+      if (index === -1) {
+        list.tokenIds.push(action.payload.tokenId);
+      } else {
+        list.tokenIds.splice(index, 1);
+      }
+    },
+    setWatchlistSort: (state, action: PayloadAction<{ listId: string; sort: WatchlistSort }>) => {
+      const list = findList(state, action.payload.listId);
+      if (list) list.sort = action.payload.sort;
+    },
+    setActiveWatchlist: (state, action: PayloadAction<string | null>) => {
+      state.activeId = action.payload;
+    },
+    /**
+     * Merge imported lists: a list whose name matches an existing one adds
+     * its tokens to it and takes its sort order; others are added as new
+     */
+    importWatchlists: {
+      reducer: (state, action: PayloadAction<Watchlist[]>) => {
+        for (const imported of action.payload) {
+          const existing = state.lists.find((list) => sameWatchlistName(list.name, imported.name));
+          if (existing) {
+            existing.tokenIds = [...new Set([...existing.tokenIds, ...imported.tokenIds])];
+            existing.sort = imported.sort;
+          } else {
+            state.lists.push(imported);
+          }
+        }
+      },
+      prepare: (lists: Pick<Watchlist, 'name' | 'tokenIds' | 'sort'>[]) => ({
+        payload: lists.map((list) => ({ ...list, id: nanoid(), createdAt: Date.now() })),
+      }),
+    },
+    /** Replace all lists with a persisted copy or another tab's */
+    setWatchlists: (state, action: PayloadAction<Watchlist[]>) => {
+      state.lists = action.payload;
+      state.hydrated = true;
+      if (state.activeId && !findList(state, state.activeId)) state.activeId = null;
+    },
+  },
+});
+
+export const {
+  createWatchlist,
+  renameWatchlist,
+  deleteWatchlist,
+  toggleWatchlistToken,
+  setWatchlistSort,
+  setActiveWatchlist,
+  importWatchlists,
+  setWatchlists,
+} = watchlistsSlice.actions;
+export default watchlistsSlice.reducer;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/** Any state with this slice mounted at `watchlists` */
+type WithWatchlists = { watchlists: WatchlistsState };
+
+export const selectWatchlists = (state: WithWatchlists) => state.watchlists.lists;
+
+export const selectWatchlistsHydrated = (state: WithWatchlists) => state.watchlists.hydrated;
+
+export const selectActiveWatchlist = (state: WithWatchlists) =>
+  state.watchlists.lists.find((list) => list.id === state.watchlists.activeId) ?? null;
+
+/** Lists containing a token; memoized per token */
+export const selectWatchlistsWithToken = createSelector(
+  [selectWatchlists, (_state: WithWatchlists, tokenId: string) => tokenId],
+  (lists, tokenId) => lists.filter((list) => list.tokenIds.includes(tokenId))
+);
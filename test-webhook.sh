@@ -1,8 +1,45 @@
 #!/bin/bash
 # Quick test script to simulate a Mobula webhook
-# Usage: ./test-webhook.sh
+# Usage: WEBHOOK_SECRET=... ./test-webhook.sh [url]
+#
+# Requests are signed with HMAC-SHA256 over "<timestamp>.<nonce>.<body>",
+# matching lib/webhooks/signature.ts. WEBHOOK_SECRET is read from
+# .env.local when not set in the environment.
 
-WEBHOOK_URL="https://565529ba71a2.ngrok-free.app/api/broadcast"
+WEBHOOK_URL="${1:-${WEBHOOK_URL:-https://565529ba71a2.ngrok-free.app/api/broadcast}}"
+
+if [ -z "$WEBHOOK_SECRET" ] && [ -f .env.local ]; then
+  WEBHOOK_SECRET=$(grep -E '^WEBHOOK_SECRET=' .env.local | tail -1 | cut -d= -f2- | tr -d '"')
+fi
+if [ -z "$WEBHOOK_SECRET" ]; then
+  echo "❌ WEBHOOK_SECRET is not set (export it or add it to .env.local)"
+  exit 1
+fi
+
+# Send a signed POST
+# Usage: signed_post <body> <timestamp> <nonce>
+signed_post() {
+  local body="$1" timestamp="$2" nonce="$3"
+  local signature
+  signature=$(printf '%s' "$timestamp.$nonce.$body" \
+    | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | sed 's/^.* //')
+  curl -s -X POST "$WEBHOOK_URL" \
+    -H "Content-Type: application/json" \
+    -H "X-Webhook-Timestamp: $timestamp" \
+    -H "X-Webhook-Nonce: $nonce" \
+    -H "X-Webhook-Signature: sha256=$signature" \
+    -d "$body"
+}
+
+# Random base58 string shaped like a Solana address (payloads are checked
+# against the chain's address format)
+random_address() {
+  openssl rand 256 | LC_ALL=C tr -dc '1-9A-HJ-NP-Za-km-z' | head -c 44
+}
+
+PAIR=$(random_address)
+MINT=$(random_address)
+AMM_PAIR=$(random_address)
 
 echo "🧪 Testing Mobula Webhook Integration"
 echo "======================================"
@@ -17,25 +54,90 @@ curl -s "$WEBHOOK_URL" | jq '.'
 echo ""
 
 # Test 2: Simulate new token webhook
-echo "Test 2: New Token Webhook (POST)"
-echo "--------------------------------"
-curl -s -X POST "$WEBHOOK_URL" \
-  -H "Content-Type: application/json" \
-  -d '{
-    "data": {
-      "id": "test-token-' $(date +%s) '",
+echo "Test 2: Signed New Token Webhook (POST)"
+echo "---------------------------------------"
+TIMESTAMP=$(date +%s)
+NONCE=$(openssl rand -hex 16)
+BODY=$(cat <<EOF
+{
+  "event": "pool_created",
+  "version": 1,
+  "data": {
+    "blockchain": "solana",
+    "pair": "$PAIR",
+    "dex": "raydium",
+    "token": {
+      "address": "$MINT",
       "symbol": "MOON",
       "name": "Moon Token",
-      "price": 0.0001234,
-      "priceChange24h": 150.5,
-      "volume24h": 5000000,
-      "marketCap": 25000000,
-      "liquidity": 1500000,
-      "holders": 8500,
-      "blockchain": "solana",
       "logo": "https://example.com/moon.png"
+    },
+    "priceUSD": 0.0001234,
+    "liquidityUSD": 1500000,
+    "marketCapUSD": 25000000,
+    "bondingPercentage": 82,
+    "timestamp": ${TIMESTAMP}000
+  }
+}
+EOF
+)
+signed_post "$BODY" "$TIMESTAMP" "$NONCE" | jq '.'
+echo ""
+
+# Test 3: Same nonce again must be rejected
+echo "Test 3: Replayed Webhook (expect 409)"
+echo "-------------------------------------"
+signed_post "$BODY" "$TIMESTAMP" "$NONCE" | jq '.'
+echo ""
+
+# Test 4: Signed but malformed payload is dead-lettered
+echo "Test 4: Invalid Payload (expect 422)"
+echo "------------------------------------"
+signed_post '{"event":"pool_created","data":{"blockchain":"solana","token":{"symbol":""}}}' \
+  "$(date +%s)" "$(openssl rand -hex 16)" | jq '.'
+echo "   Inspect with: npm run dead-letters -- list"
+echo ""
+
+# Test 5: Batch of a swap and a curve completion for the pair from Test 2
+echo "Test 5: Batched Swap + Migration (POST)"
+echo "---------------------------------------"
+BATCH=$(cat <<EOF
+[
+  {
+    "event": "swap",
+    "data": {
+      "blockchain": "solana",
+      "pair": "$PAIR",
+      "token": { "address": "$MINT", "symbol": "MOON", "name": "Moon Token" },
+      "type": "buy",
+      "priceUSD": 0.0001500,
+      "amountUSD": 2500,
+      "hash": "TestTx$TIMESTAMP",
+      "timestamp": $(date +%s)000
     }
-  }' | jq '.'
+  },
+  {
+    "event": "curve_completed",
+    "data": {
+      "blockchain": "solana",
+      "pair": "$PAIR",
+      "token": { "address": "$MINT", "symbol": "MOON", "name": "Moon Token" },
+      "migratedTo": { "pair": "$AMM_PAIR", "dex": "raydium" },
+      "timestamp": $(date +%s)000
+    }
+  }
+]
+EOF
+)
+signed_post "$BATCH" "$(date +%s)" "$(openssl rand -hex 16)" | jq '.'
+echo ""
+
+# Test 6: Unsigned request must be rejected
+echo "Test 6: Unsigned Webhook (expect 401)"
+echo "-------------------------------------"
+curl -s -X POST "$WEBHOOK_URL" \
+  -H "Content-Type: application/json" \
+  -d "$BODY" | jq '.'
 echo ""
 
 echo "✅ Test complete!"
@@ -43,6 +145,6 @@ echo ""
 echo "📝 Next steps:"
 echo "  1. Check your browser console at http://localhost:3002/pulse"
 echo "  2. You should see: '🆕 New token received via Pusher: MOON'"
-echo "  3. The token should appear in the 'New Pairs' column"
+echo "  3. MOON should appear in 'New Pairs', then move to 'Migrated' after Test 5"
 echo ""
 echo "🔍 Monitor webhooks in ngrok UI: http://127.0.0.1:4040"